@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { Plan, Platform } from './types';
+import { diffCatalogs } from './catalogDiff';
+
+
+const BEFORE: Platform[] = [{
+    platformName: 'Fixture', apiAvailable: 'No', setupDays: 0, techLevel: 'beginner',
+    plans: [
+        {
+            planName: 'Standard', monthlyCost: 30, quota: 1000, quotaUnit: 'credits', maxParallel: 2, avgTimePerClipMin: 2,
+            options: [
+                { modelId: 'fast', modelName: 'Fast', maxDurationSec: 5, resolution: '720p', audio: false, costUnit: 'credits', cost: 10 },
+                { modelId: 'hd', modelName: 'HD', maxDurationSec: 5, resolution: '1080p', audio: false, costUnit: 'credits', cost: [20, 40] },
+            ],
+        },
+        { planName: 'Legacy', monthlyCost: 10, quota: 200, quotaUnit: 'credits', maxParallel: 1, avgTimePerClipMin: 3, options: [] },
+    ],
+}];
+
+// Reprices the plan and a model, drops one plan and one model, and adds one of each
+const AFTER: Platform[] = [{
+    ...BEFORE[0],
+    plans: [
+        {
+            ...BEFORE[0].plans[0],
+            monthlyCost: 35,
+            quota: 1200,
+            options: [
+                { ...BEFORE[0].plans[0].options[1], cost: [20, 45], maxDurationSec: 8 },
+                { modelId: 'audio', modelName: 'Audio', maxDurationSec: 8, resolution: '1080p', audio: true, costUnit: 'credits', cost: 60 },
+            ],
+        },
+        { planName: 'Pro', monthlyCost: 90, quota: 4000, quotaUnit: 'credits', maxParallel: 4, avgTimePerClipMin: 2, options: [] },
+    ],
+}];
+
+describe('diffCatalogs', () => {
+    it('finds no changes between identical catalogs', () => {
+        expect(diffCatalogs(BEFORE, JSON.parse(JSON.stringify(BEFORE)))).toEqual([]);
+    });
+
+    it('lists added and removed plans and models, and changed prices', () => {
+        const base = { platformName: 'Fixture', planName: 'Standard' };
+        expect(diffCatalogs(BEFORE, AFTER)).toEqual([
+            { platformName: 'Fixture', planName: 'Legacy', kind: 'removed' },
+            { ...base, kind: 'changed', field: 'monthlyCost', before: 30, after: 35 },
+            { ...base, kind: 'changed', field: 'quota', before: 1000, after: 1200 },
+            { ...base, modelId: 'fast', kind: 'removed' },
+            { ...base, modelId: 'hd', kind: 'changed', field: 'cost', before: [20, 40], after: [20, 45] },
+            { ...base, modelId: 'hd', kind: 'changed', field: 'maxDurationSec', before: 5, after: 8 },
+            { ...base, modelId: 'audio', kind: 'added' },
+            { platformName: 'Fixture', planName: 'Pro', kind: 'added' },
+        ]);
+    });
+
+    describe('billing terms', () => {
+        const base = { platformName: 'Fixture', planName: 'Legacy' };
+        const withLegacy = (changes: Partial<Plan>): Platform[] => [{ ...BEFORE[0], plans: [BEFORE[0].plans[0], { ...BEFORE[0].plans[1], ...changes }] }];
+
+        it('lists overage added, repriced and dropped', () => {
+            const overage = { perUnit: 0.05, unit: 'credits' };
+            expect(diffCatalogs(BEFORE, withLegacy({ overageCost: overage }))).toEqual([{ ...base, kind: 'changed', field: 'overageCost', before: undefined, after: overage }]);
+            expect(diffCatalogs(withLegacy({ overageCost: overage }), withLegacy({ overageCost: { ...overage, perUnit: 0.04 } }))).toEqual([
+                { ...base, kind: 'changed', field: 'overageCost', before: overage, after: { ...overage, perUnit: 0.04 } },
+            ]);
+            expect(diffCatalogs(withLegacy({ overageCost: overage }), BEFORE)).toEqual([{ ...base, kind: 'changed', field: 'overageCost', before: overage, after: undefined }]);
+        });
+
+        it('lists changed credit packs, treating no packs as an empty list', () => {
+            const packs = [{ units: 500, price: 10 }];
+            expect(diffCatalogs(BEFORE, withLegacy({ creditPacks: [] }))).toEqual([]);
+            expect(diffCatalogs(withLegacy({ creditPacks: packs }), withLegacy({ creditPacks: [...packs, { units: 2000, price: 35 }] }))).toEqual([
+                { ...base, kind: 'changed', field: 'creditPacks', before: packs, after: [...packs, { units: 2000, price: 35 }] },
+            ]);
+            expect(diffCatalogs(withLegacy({ creditPacks: packs }), BEFORE)).toEqual([{ ...base, kind: 'changed', field: 'creditPacks', before: packs, after: [] }]);
+        });
+
+        it('lists a switch of billing cycle, treating none as monthly', () => {
+            expect(diffCatalogs(BEFORE, withLegacy({ billingCycle: 'monthly' }))).toEqual([]);
+            expect(diffCatalogs(BEFORE, withLegacy({ billingCycle: 'annual' }))).toEqual([{ ...base, kind: 'changed', field: 'billingCycle', before: 'monthly', after: 'annual' }]);
+        });
+    });
+});
@@ -0,0 +1,50 @@
+import type { CatalogChange, CreditPack, Option, Plan, Platform } from './types';
+
+
+// --- CATALOG DIFF ---
+// Lists plan and model level differences between two catalogs. Plans are matched by platform and plan name, models by modelId.
+export const diffCatalogs = (before: Platform[], after: Platform[]): CatalogChange[] => {
+    const changes: CatalogChange[] = [];
+    const costsEqual = (a: Option['cost'], b: Option['cost']) => Array.isArray(a) && Array.isArray(b) ? a[0] === b[0] && a[1] === b[1] : a === b;
+    const overagesEqual = (a: Plan['overageCost'], b: Plan['overageCost']) => a === b || (!!a && !!b && a.perUnit === b.perUnit && a.unit === b.unit);
+    const packsEqual = (a: CreditPack[], b: CreditPack[]) => a.length === b.length && a.every((pack, i) => pack.units === b[i].units && pack.price === b[i].price);
+    const indexPlans = (platforms: Platform[]) => new Map(platforms.flatMap(platform => platform.plans.map(plan => [`${platform.platformName}\u0000${plan.planName}`, { platform, plan }] as const)));
+    const beforePlans = indexPlans(before);
+    const afterPlans = indexPlans(after);
+
+    for (const [key, { platform, plan }] of beforePlans) {
+        if (!afterPlans.has(key)) changes.push({ platformName: platform.platformName, planName: plan.planName, kind: 'removed' });
+    }
+    for (const [key, { platform, plan }] of afterPlans) {
+        const previous = beforePlans.get(key);
+        const base = { platformName: platform.platformName, planName: plan.planName };
+        if (!previous) {
+            changes.push({ ...base, kind: 'added' });
+            continue;
+        }
+        if (previous.plan.monthlyCost !== plan.monthlyCost) changes.push({ ...base, kind: 'changed', field: 'monthlyCost', before: previous.plan.monthlyCost, after: plan.monthlyCost });
+        if (previous.plan.quota !== plan.quota) changes.push({ ...base, kind: 'changed', field: 'quota', before: previous.plan.quota, after: plan.quota });
+        if (!overagesEqual(previous.plan.overageCost, plan.overageCost)) changes.push({ ...base, kind: 'changed', field: 'overageCost', before: previous.plan.overageCost, after: plan.overageCost });
+        // A plan without packs or a billing cycle sells none and bills monthly, so filling in the default is not a change
+        const previousPacks = previous.plan.creditPacks ?? [];
+        const packs = plan.creditPacks ?? [];
+        if (!packsEqual(previousPacks, packs)) changes.push({ ...base, kind: 'changed', field: 'creditPacks', before: previousPacks, after: packs });
+        const previousCycle = previous.plan.billingCycle ?? 'monthly';
+        const cycle = plan.billingCycle ?? 'monthly';
+        if (previousCycle !== cycle) changes.push({ ...base, kind: 'changed', field: 'billingCycle', before: previousCycle, after: cycle });
+
+        const previousOptions = new Map(previous.plan.options.map(option => [option.modelId, option]));
+        const currentIds = new Set(plan.options.map(option => option.modelId));
+        previous.plan.options.filter(option => !currentIds.has(option.modelId)).forEach(option => changes.push({ ...base, modelId: option.modelId, kind: 'removed' }));
+        for (const option of plan.options) {
+            const previousOption = previousOptions.get(option.modelId);
+            if (!previousOption) {
+                changes.push({ ...base, modelId: option.modelId, kind: 'added' });
+                continue;
+            }
+            if (!costsEqual(previousOption.cost, option.cost)) changes.push({ ...base, modelId: option.modelId, kind: 'changed', field: 'cost', before: previousOption.cost, after: option.cost });
+            if (previousOption.maxDurationSec !== option.maxDurationSec) changes.push({ ...base, modelId: option.modelId, kind: 'changed', field: 'maxDurationSec', before: previousOption.maxDurationSec, after: option.maxDurationSec });
+        }
+    }
+    return changes;
+};
@@ -0,0 +1,344 @@
+import type { CurrencyCode, MoneySettings, Option, OptionQuality, Platform, RecommendationInputs, ScoringWeights } from './types';
+
+
+export const HIGHLIGHT_IDS = {
+    CALC_MODE: 'calc-mode',
+    DEADLINE: 'deadline',
+    DURATION: 'duration',
+    BUDGET: 'budget',
+    COST_QUALITY: 'cost-quality',
+    SPEED_COST: 'speed-cost',
+    AUDIO: 'audio',
+    EXPERTISE: 'expertise',
+    ROI: 'roi',
+    TOTAL_COST: 'total-cost',
+    RAW_GENERATION_TIME: 'raw-generation-time',
+    COST_PER_SEC: 'cost-per-sec',
+    QUALITY_SCORE: 'quality-score',
+    ACCOUNTS_NEEDED: 'accounts-needed',
+    SHOT_LIST: 'shot-list',
+    DELIVERABLES: 'deliverables',
+    TAKE_RATE: 'take-rate',
+    PARALLEL: 'parallel',
+    API: 'api',
+    PLAN_COST: 'plan-cost',
+    UNCERTAINTY: 'uncertainty',
+    CALENDAR: 'calendar',
+    LABOR: 'labor',
+    CONSTRAINTS: 'constraints',
+    DELIVERY: 'delivery'
+};
+
+export const RESOLUTION_RANK: Record<Option['resolution'], number> = { '720p': 0, '1080p': 1, '1080p+': 2, '4K': 3 };
+export const TECH_LEVEL_RANK: Record<Platform['techLevel'], number> = { beginner: 0, intermediate: 1, expert: 2 };
+
+// The engine's stock opinions on quality and fit; every number can be changed in the scoring settings
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+    quality: {
+        resolution: { '720p': 1, '1080p': 2, '1080p+': 2.5, '4K': 3 },
+        frameRate: 1,
+        motionCoherence: 0.5,
+        promptAdherence: 0.4,
+        aspectRatio: 0.25,
+        watermark: -1.5,
+        commercialUse: 0.5,
+        audio: 0.5,
+        features: { 'Motion Brush': 0, 'Keyframe Editor': 0.5, 'Storyboard Export': 1, 'Audio-Video Sync': 1 },
+        platformReputation: { "Google Veo": 1.5, "OpenAI Sora": 1, "LTX Studio": 0.5, "Leonardo AI (API)": 0, "Leonardo AI (Web App)": 0, "Kling AI": -0.5 },
+    },
+    feasibilityBonus: 50,
+    accountPenalty: 2,
+    expertiseMatch: {
+        beginner: { beginner: 20, intermediate: 5, expert: -10 },
+        intermediate: { beginner: 10, intermediate: 20, expert: 10 },
+        expert: { beginner: -5, intermediate: 10, expert: 20 },
+    },
+    audio: { basic: { match: 5, miss: -5 }, advanced: { match: 15, miss: -25 } },
+};
+
+export const SCORING_WEIGHT_LIMITS = { min: -100, max: 100 };
+export const SCORING_PROFILES_STORAGE_KEY = 'ai-media-calculator:scoring-profiles';
+
+export const DEFAULT_INPUTS: RecommendationInputs = {
+    calcMode: 'cost', deadline: 7, duration: 10, budget: 1000, costQuality: 50, speedCost: 50,
+    audioNeeds: 'none', expertise: 'beginner', enableComparison: false, traditionalCost: 10000, traditionalTime: 14,
+    traditionalDuration: 10, projectsPerMonth: 1, roiHorizonMonths: 12, toolingCost: 0, trainingCost: 0, discountRatePercent: 8,
+    useShotList: false, shots: [{ id: 'shot-default', lengthSec: 5, count: 10, audio: false, resolution: '1080p' }],
+    useDeliverables: false,
+    deliverables: [
+        { id: 'deliverable-hero', name: 'Hero', lengthSec: 60, count: 1, audio: true, minQualityScore: 8 },
+        { id: 'deliverable-cutdowns', name: 'Cutdowns', lengthSec: 15, count: 6, audio: true, minQualityScore: 6 },
+        { id: 'deliverable-bumpers', name: 'Bumpers', lengthSec: 6, count: 20, audio: false, minQualityScore: 0 },
+    ],
+    takesPerClip: 1, takeRateOverrides: [], minQualityScore: 0, simulateUncertainty: false,
+    startDate: new Date().toISOString().slice(0, 10),
+    calendar: { hoursPerDay: 8, workdays: [1, 2, 3, 4, 5], holidays: [], unattendedApi: false },
+    labor: {
+        enabled: false,
+        roles: { prompting: { role: 'Prompt engineer', hourlyRate: 60 }, review: { role: 'Reviewer', hourlyRate: 40 }, editing: { role: 'Editor', hourlyRate: 55 } },
+        promptMinutesPerClip: 5, reviewMinutesPerClip: 2, editingHoursPerMinute: 2,
+    },
+    constraints: { minResolution: null, requiredFeatures: [], requireApi: false, maxTechLevel: null, platformMode: 'exclude', platforms: [] },
+    deliverySpec: {
+        aspectRatios: [], frameRate: null, resolution: null, allowUpscaling: true,
+        upscaleCostPerMinute: 20, upscaleHoursPerMinute: 1, conformCostPerMinute: 5, conformHoursPerMinute: 0.25,
+    },
+    scoringWeights: DEFAULT_SCORING_WEIGHTS,
+};
+
+// Allowed ranges for numeric inputs, shared by the form fields and by anything restoring inputs from outside (URL, storage)
+export const INPUT_LIMITS = {
+    deadline: { min: 1, max: 365 },
+    duration: { min: 1, max: 300 },
+    budget: { min: 50, max: 20000 },
+    costQuality: { min: 0, max: 100 },
+    speedCost: { min: 0, max: 100 },
+    takesPerClip: { min: 1, max: 20 },
+    traditionalCost: { min: 0, max: 100000 },
+    traditionalTime: { min: 0, max: 365 },
+    traditionalDuration: { min: 1, max: 300 },
+    projectsPerMonth: { min: 1, max: 100 },
+    roiHorizonMonths: { min: 1, max: 60 },
+    toolingCost: { min: 0, max: 100000 },
+    trainingCost: { min: 0, max: 100000 },
+    discountRatePercent: { min: 0, max: 50 },
+    shotLengthSec: { min: 1, max: 120 },
+    shotCount: { min: 1, max: 1000 },
+    deliverableLengthSec: { min: 1, max: 600 },
+    minQualityScore: { min: 0, max: 10 },
+    hoursPerDay: { min: 1, max: 24 },
+    hourlyRate: { min: 0, max: 1000 },
+    promptMinutesPerClip: { min: 0, max: 120 },
+    reviewMinutesPerClip: { min: 0, max: 60 },
+    editingHoursPerMinute: { min: 0, max: 40 },
+    deliveryFrameRate: { min: 12, max: 120 },
+    postCostPerMinute: { min: 0, max: 1000 },
+    postHoursPerMinute: { min: 0, max: 40 },
+};
+
+// Prompting effort relative to a beginner-level platform; technical platforms take more tuning per clip
+export const PROMPT_EFFORT_BY_TECH_LEVEL = { beginner: 1, intermediate: 1.5, expert: 2 };
+
+// Quota resets and subscriptions renew every billing cycle
+export const BILLING_CYCLE_DAYS = 30;
+export const ANNUAL_COMMITMENT_MONTHS = 12;
+
+// Cost per second (USD) at which an option earns no cost-efficiency points
+export const COST_EFFICIENCY_SCALE_USD = 5;
+
+// Rates are user-editable; these are only a starting point
+export const DEFAULT_MONEY_SETTINGS: MoneySettings = { currency: 'USD', rates: { USD: 1, EUR: 0.92, GBP: 0.79 }, vatPercent: 0 };
+export const CURRENCY_LOCALES: Record<CurrencyCode, string> = { USD: 'en-US', EUR: 'de-DE', GBP: 'en-GB' };
+export const MONEY_LIMITS = {
+    rate: { min: 0.0001, max: 10000 },
+    vatPercent: { min: 0, max: 50 },
+};
+export const MONEY_STORAGE_KEY = 'ai-media-calculator:money';
+
+// Monte Carlo spreads, as multipliers on the catalog and take-rate values. Each is sampled from a
+// triangular distribution peaking at 1, so the expected case stays the most likely one.
+export const MONTE_CARLO_TRIALS = 250;
+export const TIME_PER_CLIP_SPREAD = { min: 0.75, max: 1.5 };
+export const TAKE_RATE_SPREAD = { min: 0.8, max: 1.5 };
+
+// How long the inputs must stay unchanged before the heavy analyses (portfolio, sensitivity, uncertainty) re-run
+export const ANALYSIS_DEBOUNCE_MS = 400;
+
+export const SCENARIO_STORAGE_KEY = 'ai-media-calculator:scenarios';
+export const MAX_COMPARED_SCENARIOS = 4;
+
+export const PRICE_FEED_URL_STORAGE_KEY = 'ai-media-calculator:price-feed-url';
+export const PRICE_FEED_TIMEOUT_MS = 15000;
+
+
+// Output quality per model family. Frame rates, aspect ratios, watermarks and licences come from the platforms'
+// docs and terms; the 1-5 coherence and adherence ratings are editorial estimates from side-by-side tests.
+const SOCIAL_RATIOS = ['16:9', '9:16', '1:1'];
+const QUALITY: Record<string, OptionQuality> = {
+    klingStandard: { frameRate: 30, motionCoherence: 3, promptAdherence: 3, aspectRatios: SOCIAL_RATIOS, watermark: false, commercialUse: true },
+    klingPro: { frameRate: 30, motionCoherence: 4, promptAdherence: 4, aspectRatios: SOCIAL_RATIOS, watermark: false, commercialUse: true },
+    leonardoMotion1: { frameRate: 24, motionCoherence: 2, promptAdherence: 2, aspectRatios: SOCIAL_RATIOS, watermark: false, commercialUse: true },
+    leonardoMotion2: { frameRate: 24, motionCoherence: 3, promptAdherence: 3, aspectRatios: SOCIAL_RATIOS, watermark: false, commercialUse: true },
+    ltxLite: { frameRate: 24, motionCoherence: 3, promptAdherence: 3, aspectRatios: SOCIAL_RATIOS, watermark: false, commercialUse: false }, // Lite is personal use only
+    ltxStandard: { frameRate: 24, motionCoherence: 4, promptAdherence: 4, aspectRatios: SOCIAL_RATIOS, watermark: false, commercialUse: true },
+    ltxPipeline: { frameRate: 24, motionCoherence: 5, promptAdherence: 5, aspectRatios: SOCIAL_RATIOS, watermark: false, commercialUse: true },
+    soraPlus: { frameRate: 30, motionCoherence: 3, promptAdherence: 3, aspectRatios: SOCIAL_RATIOS, watermark: true, commercialUse: true },
+    soraPro: { frameRate: 30, motionCoherence: 4, promptAdherence: 4, aspectRatios: SOCIAL_RATIOS, watermark: false, commercialUse: true },
+    veo2: { frameRate: 24, motionCoherence: 4, promptAdherence: 4, aspectRatios: ['16:9', '9:16'], watermark: false, commercialUse: true },
+    veo3Fast: { frameRate: 24, motionCoherence: 4, promptAdherence: 4, aspectRatios: ['16:9'], watermark: false, commercialUse: true },
+    veo3: { frameRate: 24, motionCoherence: 5, promptAdherence: 5, aspectRatios: ['16:9'], watermark: false, commercialUse: true },
+};
+
+export const DETAILED_PLATFORM_DATA: Platform[] = [
+    {
+    platformName: "Kling AI",
+    apiAvailable: "Limited",
+    rateLimit: "N/A",
+    setupDays: 0.5,
+    techLevel: 'beginner',
+    plans: [
+      {
+        planName: "Standard", monthlyCost: 10, quota: 660, quotaUnit: "credits",
+        creditPacks: [{ units: 330, price: 5 }, { units: 1000, price: 15 }],
+        maxParallel: 8, avgTimePerClipMin: 1.5,
+        options: [
+          { modelId: 'kling-std-5s', modelName: "Standard 5s", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "credits", cost: 10, features: ['Motion Brush'], quality: QUALITY.klingStandard },
+          { modelId: 'kling-std-10s', modelName: "Standard 10s", maxDurationSec: 10, resolution: "1080p", audio: false, costUnit: "credits", cost: 20, features: ['Motion Brush'], quality: QUALITY.klingStandard },
+        ]
+      },
+      {
+        planName: "Pro", monthlyCost: 37, quota: 3000, quotaUnit: "credits",
+        creditPacks: [{ units: 330, price: 5 }, { units: 1000, price: 15 }],
+        maxParallel: 8, avgTimePerClipMin: 1.2,
+        options: [
+          { modelId: 'kling-pro-5s', modelName: "Professional (High-Quality) 5s", maxDurationSec: 5, resolution: "1080p+", audio: true, costUnit: "credits", cost: 35, features: ['Motion Brush', 'Keyframe Editor'], quality: QUALITY.klingPro },
+          { modelId: 'kling-pro-10s', modelName: "Professional (High-Quality) 10s", maxDurationSec: 10, resolution: "1080p+", audio: true, costUnit: "credits", cost: 70, features: ['Motion Brush', 'Keyframe Editor'], quality: QUALITY.klingPro }
+        ]
+      },
+       {
+        planName: "Premier", monthlyCost: 92, quota: 8000, quotaUnit: "credits",
+        creditPacks: [{ units: 330, price: 5 }, { units: 1000, price: 15 }],
+        maxParallel: 8, avgTimePerClipMin: 1.0,
+        options: [
+          { modelId: 'kling-prm-5s', modelName: "Professional (High-Quality) 5s", maxDurationSec: 5, resolution: "1080p+", audio: true, costUnit: "credits", cost: 35, features: ['Motion Brush', 'Keyframe Editor'], quality: QUALITY.klingPro },
+          { modelId: 'kling-prm-10s', modelName: "Professional (High-Quality) 10s", maxDurationSec: 10, resolution: "1080p+", audio: true, costUnit: "credits", cost: 70, features: ['Motion Brush', 'Keyframe Editor'], quality: QUALITY.klingPro }
+        ]
+      },
+    ]
+  },
+  {
+    platformName: "Leonardo AI (Web App)",
+    apiAvailable: "No",
+    rateLimit: "Daily token limit",
+    setupDays: 0.5,
+    techLevel: 'beginner',
+    // Daily token caps are estimates; edit them in the catalog to match your account
+    plans: [
+        {
+            planName: "Apprentice", monthlyCost: 10, quota: 8500, quotaUnit: 'tokens',
+            maxParallel: 5, avgTimePerClipMin: 1.5, rateLimits: { dailyUnitCap: 1500 },
+            options: [
+                { modelId: 'leo-web-m1-a', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45, quality: QUALITY.leonardoMotion1 },
+                { modelId: 'leo-web-m2-a', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200, quality: QUALITY.leonardoMotion2 },
+            ]
+        },
+        {
+            planName: "Artisan Unlimited", monthlyCost: 24, quota: 25500, quotaUnit: 'tokens',
+            maxParallel: 5, avgTimePerClipMin: 1.2, rateLimits: { dailyUnitCap: 5000 },
+            options: [
+                { modelId: 'leo-web-m1-art', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45, quality: QUALITY.leonardoMotion1 },
+                { modelId: 'leo-web-m2-art', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200, quality: QUALITY.leonardoMotion2 },
+            ]
+        },
+        {
+            planName: "Maestro Unlimited", monthlyCost: 48, quota: 60000, quotaUnit: 'tokens',
+            maxParallel: 5, avgTimePerClipMin: 1.0, rateLimits: { dailyUnitCap: 10000 },
+            options: [
+                { modelId: 'leo-web-m1-m', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45, quality: QUALITY.leonardoMotion1 },
+                { modelId: 'leo-web-m2-m', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200, quality: QUALITY.leonardoMotion2 },
+            ]
+        }
+    ]
+  },
+  {
+    platformName: "Leonardo AI (API)",
+    apiAvailable: "Yes",
+    rateLimit: "Varies by plan",
+    setupDays: 0.5,
+    techLevel: 'expert',
+    plans: [
+       {
+        planName: "API Basic", monthlyCost: 9, quota: 3500, quotaUnit: "tokens",
+        maxParallel: 5, maxParallelAPI: 5, avgTimePerClipMin: 1.5,
+        options: [
+          { modelId: 'leo-api-motion-1-b', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45, quality: QUALITY.leonardoMotion1 },
+          { modelId: 'leo-api-motion-2-b', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200, quality: QUALITY.leonardoMotion2 },
+        ]
+      },
+      {
+        planName: "API Standard", monthlyCost: 49, quota: 25000, quotaUnit: "tokens",
+        maxParallel: 5, maxParallelAPI: 10, avgTimePerClipMin: 1.2,
+        options: [
+            { modelId: 'leo-api-motion-1-s', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45, quality: QUALITY.leonardoMotion1 },
+            { modelId: 'leo-api-motion-2-s', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200, quality: QUALITY.leonardoMotion2 },
+            { modelId: 'veo-3-leo-std', modelName: "Veo 3 (via API)", maxDurationSec: 8, resolution: "720p", audio: false, costUnit: "tokens", cost: 2500, quality: QUALITY.veo3 }
+        ]
+      },
+      {
+        planName: "API Pro", monthlyCost: 299, quota: 100000, quotaUnit: "tokens",
+        maxParallel: 5, maxParallelAPI: 20, avgTimePerClipMin: 1.0,
+        options: [
+            { modelId: 'leo-api-motion-1-p', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45, quality: QUALITY.leonardoMotion1 },
+            { modelId: 'leo-api-motion-2-p', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200, quality: QUALITY.leonardoMotion2 },
+            { modelId: 'veo-3-leo-pro', modelName: "Veo 3 (via API)", maxDurationSec: 8, resolution: "720p", audio: false, costUnit: "tokens", cost: 2500, quality: QUALITY.veo3 }
+        ]
+      },
+    ]
+  },
+  {
+    platformName: "LTX Studio",
+    apiAvailable: "Enterprise",
+    rateLimit: "N/A",
+    setupDays: 1,
+    techLevel: 'intermediate',
+    plans: [
+        { planName: "Lite (Monthly)", monthlyCost: 15, quota: 8640, quotaUnit: "compute_seconds", maxParallel: 1, avgTimePerClipMin: 4, options: [ { modelId: 'ltx-lite-m', modelName: "Motion Standard", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1, quality: QUALITY.ltxLite } ] },
+        { planName: "Lite (Annual)", monthlyCost: 12, quota: 8640, quotaUnit: "compute_seconds", maxParallel: 1, avgTimePerClipMin: 4, billingCycle: 'annual', options: [ { modelId: 'ltx-lite-y', modelName: "Motion Standard", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1, quality: QUALITY.ltxLite } ] },
+        { planName: "Standard (Monthly)", monthlyCost: 35, quota: 28800, quotaUnit: "compute_seconds", maxParallel: 1, avgTimePerClipMin: 3.8, options: [ { modelId: 'ltx-std-m', modelName: "Motion Standard (Veo 2)", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1, quality: QUALITY.ltxStandard } ] },
+        { planName: "Standard (Annual)", monthlyCost: 28, quota: 28800, quotaUnit: "compute_seconds", maxParallel: 1, avgTimePerClipMin: 3.8, billingCycle: 'annual', options: [ { modelId: 'ltx-std-y', modelName: "Motion Standard (Veo 2)", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1, quality: QUALITY.ltxStandard } ] },
+        { planName: "Pro (Monthly)", monthlyCost: 125, quota: 90000, quotaUnit: "compute_seconds", maxParallel: 10, avgTimePerClipMin: 3, options: [ { modelId: 'ltx-pro-m', modelName: "Pipeline Full (Veo 3)", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1.5, features: ['Storyboard Export'], quality: QUALITY.ltxPipeline } ] },
+        { planName: "Pro (Annual)", monthlyCost: 100, quota: 90000, quotaUnit: "compute_seconds", maxParallel: 10, avgTimePerClipMin: 3, billingCycle: 'annual', options: [ { modelId: 'ltx-pro-y', modelName: "Pipeline Full (Veo 3)", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1.5, features: ['Storyboard Export'], quality: QUALITY.ltxPipeline } ] },
+        { planName: "Enterprise", monthlyCost: 500, quota: 500000, quotaUnit: "compute_seconds", maxParallel: 20, avgTimePerClipMin: 2.5, options: [ { modelId: 'ltx-ent', modelName: "Pipeline Full (Veo 3)", maxDurationSec: 15, resolution: "4K", audio: true, costUnit: "ratio", cost: 2, features: ['Storyboard Export'], quality: QUALITY.ltxPipeline } ] }
+    ]
+  },
+  {
+    platformName: "OpenAI Sora",
+    apiAvailable: "Limited",
+    rateLimit: "N/A",
+    setupDays: 0.5,
+    techLevel: 'beginner',
+    plans: [
+      {
+        planName: "Plus", monthlyCost: 20, quota: 0, quotaUnit: "unlimited",
+        maxParallel: 2, avgTimePerClipMin: 1.5,
+        options: [
+          { modelId: 'sora-plus-10', modelName: "Standard 10s", maxDurationSec: 10, resolution: "720p", audio: false, costUnit: "clips", cost: 0, quality: QUALITY.soraPlus }
+        ]
+      },
+      {
+        planName: "Pro", monthlyCost: 200, quota: 0, quotaUnit: "unlimited",
+        maxParallel: 5, maxParallelAPI: 5, avgTimePerClipMin: 0.8,
+        options: [
+          { modelId: 'sora-pro-20', modelName: "Enhanced Quality 20s", maxDurationSec: 20, resolution: "1080p", audio: false, costUnit: "clips", cost: 0, quality: QUALITY.soraPro }
+        ]
+      }
+    ]
+  },
+  {
+    platformName: "Google Veo",
+    apiAvailable: "Yes",
+    rateLimit: "10 req/min, 20 concurrent",
+    setupDays: 1,
+    techLevel: 'expert',
+    plans: [
+      {
+        planName: "Ultra Subscription", monthlyCost: 250, quota: 12500, quotaUnit: "credits",
+        creditPacks: [{ units: 2500, price: 25 }, { units: 20000, price: 200 }],
+        maxParallel: 5, avgTimePerClipMin: 0.8,
+        options: [
+          { modelId: 'veo-ultra-fast', modelName: "Veo 3 Fast", maxDurationSec: 8, resolution: "1080p", audio: true, costUnit: "credits", cost: 20, features: ['Audio-Video Sync'], quality: QUALITY.veo3Fast },
+          { modelId: 'veo-ultra-qual', modelName: "Veo 3 Quality", maxDurationSec: 8, resolution: "1080p", audio: true, costUnit: "credits", cost: 100, features: ['Audio-Video Sync'], quality: QUALITY.veo3 },
+        ]
+      },
+      {
+        planName: "Vertex AI API", monthlyCost: 0, quota: 0, quotaUnit: "unlimited",
+        maxParallel: 1, maxParallelAPI: 20, avgTimePerClipMin: 1.8, rateLimits: { requestsPerMinute: 10, concurrentJobs: 20 },
+        options: [
+          { modelId: 'veo-api-2.0', modelName: "Veo 2.0 GA", maxDurationSec: 8, resolution: "720p", audio: false, costUnit: "per_second", cost: 0.50, quality: QUALITY.veo2 },
+          { modelId: 'veo-api-3.0', modelName: "Veo 3.0 Preview", maxDurationSec: 8, resolution: "720p", audio: false, costUnit: "per_second", cost: 0.50, quality: QUALITY.veo3 },
+          { modelId: 'veo-api-3.0-audio', modelName: "Veo 3.0 with Audio", maxDurationSec: 8, resolution: "720p", audio: true, costUnit: "per_second", cost: 0.75, features: ['Audio-Video Sync'], quality: QUALITY.veo3 },
+        ]
+      }
+    ]
+  }
+];
@@ -0,0 +1,42 @@
+import type { DeliverySpec, Option, PostProcessingEstimate, PostProcessingStep } from './types';
+import { RESOLUTION_RANK } from './constants';
+
+
+// --- DELIVERY SPEC ---
+// Checks a model's output format against what the project is delivered in. A missing aspect ratio would mean
+// reframing every shot, so it rules the model out; a lower resolution or another frame rate is fixed in
+// post-processing, which is priced per finished minute and runs after generation.
+
+export const getDeliveryViolations = (option: Option, spec: DeliverySpec): string[] => {
+    const violations: string[] = [];
+    if (spec.aspectRatios.length > 0) {
+        if (!option.quality) violations.push('No aspect ratio data');
+        else {
+            const missingRatios = spec.aspectRatios.filter(ratio => !option.quality!.aspectRatios.includes(ratio));
+            if (missingRatios.length > 0) violations.push(`No ${missingRatios.join(', ')} output`);
+        }
+    }
+    if (spec.frameRate !== null && !option.quality) violations.push('No frame rate data');
+    if (spec.resolution && !spec.allowUpscaling && RESOLUTION_RANK[option.resolution] < RESOLUTION_RANK[spec.resolution]) violations.push(`Below ${spec.resolution} delivery`);
+    return violations;
+};
+
+// Null when the model's output can be delivered as it is
+export const estimatePostProcessing = (option: Option, spec: DeliverySpec, finishedMinutes: number, hoursPerDay: number): PostProcessingEstimate | null => {
+    const steps: PostProcessingStep[] = [];
+    if (spec.resolution && spec.allowUpscaling && RESOLUTION_RANK[option.resolution] < RESOLUTION_RANK[spec.resolution]) {
+        steps.push({ id: 'upscale', label: `Upscale ${option.resolution} to ${spec.resolution}`, cost: finishedMinutes * spec.upscaleCostPerMinute, hours: finishedMinutes * spec.upscaleHoursPerMinute });
+    }
+    if (spec.frameRate !== null && option.quality && option.quality.frameRate !== spec.frameRate) {
+        steps.push({ id: 'conform', label: `Convert ${option.quality.frameRate} to ${spec.frameRate} fps`, cost: finishedMinutes * spec.conformCostPerMinute, hours: finishedMinutes * spec.conformHoursPerMinute });
+    }
+    if (steps.length === 0) return null;
+
+    const hours = steps.reduce((sum, step) => sum + step.hours, 0);
+    return {
+        steps,
+        cost: steps.reduce((sum, step) => sum + step.cost, 0),
+        hours,
+        workingDays: hours / hoursPerDay,
+    };
+};
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { ANALYSIS_DEBOUNCE_MS } from '../constants';
+
+
+// The analyses re-score the whole catalog hundreds of times, which blocks the page for up to a couple of seconds.
+// They wait until the inputs have stopped changing for a moment and then run when the browser is idle, so typing
+// stays responsive. The result is null while a fresh one is pending, and whenever `enabled` is off.
+export const useDeferredAnalysis = <T>(analyze: () => T, deps: unknown[], enabled: boolean): T | null => {
+    const [result, setResult] = useState(null as T | null);
+
+    useEffect(() => {
+        setResult(null);
+        if (!enabled) return;
+        let idleHandle: number | null = null;
+        const run = () => setResult(analyze());
+        const timer = window.setTimeout(() => {
+            idleHandle = typeof window.requestIdleCallback === 'function' ? window.requestIdleCallback(run, { timeout: 1000 }) : window.setTimeout(run, 0);
+        }, ANALYSIS_DEBOUNCE_MS);
+        return () => {
+            window.clearTimeout(timer);
+            if (idleHandle === null) return;
+            if (typeof window.cancelIdleCallback === 'function') window.cancelIdleCallback(idleHandle);
+            else window.clearTimeout(idleHandle);
+        };
+    }, [...deps, enabled]);
+
+    return result;
+};
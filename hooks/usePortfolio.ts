@@ -0,0 +1,8 @@
+import type { Platform, PortfolioPlan, RecommendationInputs } from '../types';
+import { optimizePortfolio } from '../portfolioOptimizer';
+import { useDeferredAnalysis } from './useDeferredAnalysis';
+
+
+// The optimizer is far heavier than ranking single options, so it only runs while `enabled`
+export const usePortfolio = (inputs: RecommendationInputs, catalog: Platform[], enabled: boolean): PortfolioPlan | null =>
+    useDeferredAnalysis(() => optimizePortfolio(inputs, catalog), [inputs, catalog], enabled);
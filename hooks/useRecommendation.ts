@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+import type { Platform, RecommendationInputs, ScoredPlatform } from '../types';
+import { scorePlatforms, getPrimaryRecommendation } from '../scoringEngine';
+
+
+export const useRecommendation = (inputs: RecommendationInputs, catalog: Platform[]) => {
+    const [primaryRecommendation, setPrimaryRecommendation] = useState<ScoredPlatform | null>(null);
+    const [sortedPlatforms, setSortedPlatforms] = useState<ScoredPlatform[]>([]);
+
+    useEffect(() => {
+        const scoredOptions = scorePlatforms(inputs, catalog);
+        setSortedPlatforms(scoredOptions);
+        setPrimaryRecommendation(getPrimaryRecommendation(scoredOptions));
+    }, [inputs, catalog]);
+
+    return { primaryRecommendation, sortedPlatforms };
+};
@@ -0,0 +1,8 @@
+import type { Platform, RecommendationInputs, SensitivityReport } from '../types';
+import { analyzeSensitivity } from '../sensitivityAnalysis';
+import { useDeferredAnalysis } from './useDeferredAnalysis';
+
+
+// Each sweep re-scores the whole catalog, so the analysis only runs while `enabled`
+export const useSensitivity = (inputs: RecommendationInputs, catalog: Platform[], enabled: boolean): SensitivityReport | null =>
+    useDeferredAnalysis(() => analyzeSensitivity(inputs, catalog), [inputs, catalog], enabled);
@@ -0,0 +1,8 @@
+import type { Platform, RecommendationInputs, UncertaintyReport } from '../types';
+import { simulateUncertainty } from '../uncertaintySimulation';
+import { useDeferredAnalysis } from './useDeferredAnalysis';
+
+
+// Runs the Monte Carlo simulation only while the inputs ask for it; every trial re-scores the whole catalog
+export const useUncertainty = (inputs: RecommendationInputs, catalog: Platform[]): UncertaintyReport | null =>
+    useDeferredAnalysis(() => simulateUncertainty(inputs, catalog), [inputs, catalog], inputs.simulateUncertainty);
@@ -3,268 +3,416 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
 import { createPortal } from 'react-dom';
 import * as htmlToImage from 'html-to-image';
+import type { CalculationMode, HighlightId, Option, OptionQuality, Plan, Platform, RateLimits, ThroughputConstraint, CatalogSnapshot, CatalogChange, CatalogValidationError, CreditPack, Shot, Deliverable, TakeRateOverride, RecommendationInputs, Scenario, CurrencyCode, MoneySettings, ScoreComponentId, QualityContribution, ScoredPlatform, ParetoCostMetric, PortfolioAllocation, PortfolioPlan, MonthlySpend, TopUp, SensitivityPoint, SensitivityReport, SensitivitySweep, Percentiles, UncertaintyEstimate, UncertaintyReport, RoiReport, WorkingCalendar, LaborInputs, LaborTaskId, LaborEstimate, ConstraintFilters, DeliverySpec, PostProcessingEstimate, ScoringWeights, ScoringProfile, PriceSource } from './types';
+import { HIGHLIGHT_IDS, RESOLUTION_RANK, DEFAULT_INPUTS, INPUT_LIMITS, SCENARIO_STORAGE_KEY, MAX_COMPARED_SCENARIOS, DEFAULT_MONEY_SETTINGS, MONEY_LIMITS, MONTE_CARLO_TRIALS, TIME_PER_CLIP_SPREAD, TAKE_RATE_SPREAD, MONEY_STORAGE_KEY, DETAILED_PLATFORM_DATA, DEFAULT_SCORING_WEIGHTS, SCORING_WEIGHT_LIMITS, SCORING_PROFILES_STORAGE_KEY, PRICE_FEED_URL_STORAGE_KEY } from './constants';
+import { convertFromUSD, convertToUSD, formatMoney, getCurrencySymbol } from './money';
+import { addDays, isIsoDate } from './workingCalendar';
+import { analyzeRoi } from './roiAnalysis';
+import { diffCatalogs } from './catalogDiff';
+import { createBundledPriceSource, createFilePriceSource, createHttpPriceSource } from './priceSources';
+import { getAverage, getShotListDurationMinutes, getScoredPlatformKey, getParetoFrontier } from './scoringEngine';
+import { useRecommendation } from './hooks/useRecommendation';
+import { usePortfolio } from './hooks/usePortfolio';
+import { useSensitivity } from './hooks/useSensitivity';
+import { useUncertainty } from './hooks/useUncertainty';
+
+
+// --- CATALOG ---
+const CATALOG_STORAGE_KEY = 'ai-media-calculator:catalog-snapshots';
+const BUILT_IN_SNAPSHOT: CatalogSnapshot = { id: 'built-in', name: 'Built-in pricing', effectiveDate: '2025-07-01', platforms: DETAILED_PLATFORM_DATA };
+
+const API_AVAILABILITY: Platform['apiAvailable'][] = ['Yes', 'No', 'Limited', 'Enterprise'];
+const TECH_LEVELS: Platform['techLevel'][] = ['beginner', 'intermediate', 'expert'];
+const QUOTA_UNITS: Plan['quotaUnit'][] = ['credits', 'tokens', 'compute_seconds', 'clips', 'unlimited'];
+const BILLING_CYCLES: NonNullable<Plan['billingCycle']>[] = ['monthly', 'annual'];
+const COST_UNITS: Option['costUnit'][] = ['credits', 'tokens', 'compute_seconds', 'clips', 'per_second', 'ratio'];
+const OPTION_FEATURES: NonNullable<Option['features']>[number][] = ['Motion Brush', 'Keyframe Editor', 'Storyboard Export', 'Audio-Video Sync'];
+const ASPECT_RATIOS = ['16:9', '9:16', '1:1', '4:3', '21:9']; // Offered in the editors; imported catalogs may list others
+const DELIVERY_FRAME_RATES = [24, 25, 30, 50, 60];
+const isAspectRatio = (value: unknown): value is string => typeof value === 'string' && /^\d+(\.\d+)?:\d+(\.\d+)?$/.test(value);
+
+// Which plan quota each cost unit is drawn from. 'per_second' is billed directly, so it only makes sense on pay-per-use plans.
+const COMPATIBLE_QUOTA_UNITS: Record<Option['costUnit'], Plan['quotaUnit'][]> = {
+    credits: ['credits'],
+    tokens: ['tokens'],
+    compute_seconds: ['compute_seconds'],
+    ratio: ['compute_seconds'],
+    clips: ['clips', 'unlimited'],
+    per_second: ['unlimited'],
+};
 
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
 
-// --- TYPES ---
-type CalculationMode = 'cost' | 'duration';
-type HighlightId = string | null;
+const validateCatalog = (data: unknown, basePath = ''): { platforms: Platform[] | null; errors: CatalogValidationError[] } => {
+    const errors: CatalogValidationError[] = [];
+    const addError = (path: string, message: string) => errors.push({ path, message });
+    const checkString = (obj: Record<string, unknown>, key: string, path: string) => {
+        if (typeof obj[key] !== 'string' || !(obj[key] as string).trim()) addError(`${path}.${key}`, `${key} must be a non-empty string`);
+    };
+    const checkNumber = (obj: Record<string, unknown>, key: string, path: string, { min = 0, exclusive = false, optional = false } = {}) => {
+        const value = obj[key];
+        if (value === undefined && optional) return;
+        if (typeof value !== 'number' || !Number.isFinite(value)) return addError(`${path}.${key}`, `${key} must be a number`);
+        if (exclusive ? value <= min : value < min) addError(`${path}.${key}`, `${key} must be ${exclusive ? 'greater than' : 'at least'} ${min}`);
+    };
+    const checkEnum = <T extends string>(obj: Record<string, unknown>, key: string, path: string, allowed: T[]) => {
+        if (!allowed.includes(obj[key] as T)) addError(`${path}.${key}`, `Unknown ${key} "${String(obj[key])}". Expected one of: ${allowed.join(', ')}`);
+    };
 
-interface Option {
-  modelId: string; // Official ID if available
-  modelName: string;
-  maxDurationSec: number;
-  resolution: '720p' | '1080p' | '1080p+' | '4K';
-  audio: boolean;
-  costUnit: 'credits' | 'tokens' | 'compute_seconds' | 'clips' | 'per_second' | 'ratio';
-  cost: number | [number, number];
-  features?: ('Motion Brush' | 'Keyframe Editor' | 'Storyboard Export' | 'Audio-Video Sync')[];
-}
+    if (!Array.isArray(data)) {
+        return { platforms: null, errors: [{ path: basePath, message: 'Catalog must be a JSON array of platforms' }] };
+    }
 
-interface Plan {
-  planName: string; // Official plan name e.g., "Pro", "API Basic"
-  monthlyCost: number; // in USD
-  quota: number; // Number of units (credits, tokens, etc.) included
-  quotaUnit: 'credits' | 'tokens' | 'compute_seconds' | 'clips' | 'unlimited';
-  maxParallel: number; // GUI-based parallel jobs
-  maxParallelAPI?: number; // API-based parallel jobs
-  avgTimePerClipMin: number;
-  overageCost?: { perUnit: number; unit: string; };
-  options: Option[];
-}
+    const seenModelIds = new Map<string, string>();
+    const seenPlatformNames = new Set<string>();
 
-interface Platform {
-  platformName: string;
-  apiAvailable: 'Yes' | 'No' | 'Limited' | 'Enterprise';
-  rateLimit?: string; // e.g., "5 req/min"
-  setupDays: number;
-  techLevel: 'beginner' | 'intermediate' | 'expert';
-  plans: Plan[];
-}
+    data.forEach((platform, pi) => {
+        const platformPath = `${basePath}[${pi}]`;
+        if (!isRecord(platform)) return addError(platformPath, 'Platform must be an object');
+        checkString(platform, 'platformName', platformPath);
+        if (typeof platform.platformName === 'string') {
+            if (seenPlatformNames.has(platform.platformName)) addError(`${platformPath}.platformName`, `Duplicate platformName "${platform.platformName}"`);
+            seenPlatformNames.add(platform.platformName);
+        }
+        checkEnum(platform, 'apiAvailable', platformPath, API_AVAILABILITY);
+        if (platform.rateLimit !== undefined && typeof platform.rateLimit !== 'string') addError(`${platformPath}.rateLimit`, 'rateLimit must be a string');
+        checkNumber(platform, 'setupDays', platformPath);
+        checkEnum(platform, 'techLevel', platformPath, TECH_LEVELS);
+        if (!Array.isArray(platform.plans) || platform.plans.length === 0) return addError(`${platformPath}.plans`, 'plans must be a non-empty array');
+
+        platform.plans.forEach((plan, qi) => {
+            const planPath = `${platformPath}.plans[${qi}]`;
+            if (!isRecord(plan)) return addError(planPath, 'Plan must be an object');
+            checkString(plan, 'planName', planPath);
+            checkNumber(plan, 'monthlyCost', planPath);
+            checkEnum(plan, 'quotaUnit', planPath, QUOTA_UNITS);
+            checkNumber(plan, 'quota', planPath, plan.quotaUnit === 'unlimited' ? {} : { exclusive: true });
+            checkNumber(plan, 'maxParallel', planPath, { min: 1 });
+            checkNumber(plan, 'maxParallelAPI', planPath, { min: 1, optional: true });
+            checkNumber(plan, 'avgTimePerClipMin', planPath, { exclusive: true });
+            if (plan.billingCycle !== undefined) checkEnum(plan, 'billingCycle', planPath, BILLING_CYCLES);
+            if (plan.sourceNote !== undefined && typeof plan.sourceNote !== 'string') addError(`${planPath}.sourceNote`, 'sourceNote must be a string');
+            if (plan.overageCost !== undefined) {
+                if (!isRecord(plan.overageCost)) addError(`${planPath}.overageCost`, 'overageCost must be an object');
+                else {
+                    checkNumber(plan.overageCost, 'perUnit', `${planPath}.overageCost`);
+                    checkString(plan.overageCost, 'unit', `${planPath}.overageCost`);
+                }
+            }
+            if (plan.rateLimits !== undefined) {
+                if (!isRecord(plan.rateLimits)) addError(`${planPath}.rateLimits`, 'rateLimits must be an object');
+                else {
+                    checkNumber(plan.rateLimits, 'requestsPerMinute', `${planPath}.rateLimits`, { exclusive: true, optional: true });
+                    checkNumber(plan.rateLimits, 'concurrentJobs', `${planPath}.rateLimits`, { min: 1, optional: true });
+                    checkNumber(plan.rateLimits, 'dailyUnitCap', `${planPath}.rateLimits`, { exclusive: true, optional: true });
+                    checkNumber(plan.rateLimits, 'queueWaitMin', `${planPath}.rateLimits`, { optional: true });
+                }
+            }
+            if (plan.creditPacks !== undefined) {
+                if (!Array.isArray(plan.creditPacks)) addError(`${planPath}.creditPacks`, 'creditPacks must be an array');
+                else plan.creditPacks.forEach((pack, ki) => {
+                    const packPath = `${planPath}.creditPacks[${ki}]`;
+                    if (!isRecord(pack)) return addError(packPath, 'Credit pack must be an object');
+                    checkNumber(pack, 'units', packPath, { exclusive: true });
+                    checkNumber(pack, 'price', packPath);
+                });
+            }
+            if (!Array.isArray(plan.options) || plan.options.length === 0) return addError(`${planPath}.options`, 'options must be a non-empty array');
+
+            plan.options.forEach((option, oi) => {
+                const optionPath = `${planPath}.options[${oi}]`;
+                if (!isRecord(option)) return addError(optionPath, 'Option must be an object');
+                checkString(option, 'modelId', optionPath);
+                if (typeof option.modelId === 'string') {
+                    const firstSeen = seenModelIds.get(option.modelId);
+                    if (firstSeen) addError(`${optionPath}.modelId`, `Duplicate modelId "${option.modelId}" (already used at ${firstSeen})`);
+                    else seenModelIds.set(option.modelId, optionPath);
+                }
+                checkString(option, 'modelName', optionPath);
+                checkNumber(option, 'maxDurationSec', optionPath, { exclusive: true });
+                checkEnum(option, 'resolution', optionPath, Object.keys(RESOLUTION_RANK) as Option['resolution'][]);
+                if (typeof option.audio !== 'boolean') addError(`${optionPath}.audio`, 'audio must be true or false');
+                checkEnum(option, 'costUnit', optionPath, COST_UNITS);
+                const compatibleUnits = COMPATIBLE_QUOTA_UNITS[option.costUnit as Option['costUnit']];
+                if (compatibleUnits && QUOTA_UNITS.includes(plan.quotaUnit as Plan['quotaUnit']) && !compatibleUnits.includes(plan.quotaUnit as Plan['quotaUnit'])) {
+                    addError(`${optionPath}.costUnit`, `costUnit "${option.costUnit}" cannot be paid from a plan with quotaUnit "${plan.quotaUnit}" (expected ${compatibleUnits.join(' or ')})`);
+                }
+                if (Array.isArray(option.cost)) {
+                    const [min, max] = option.cost;
+                    if (option.cost.length !== 2 || typeof min !== 'number' || typeof max !== 'number' || !Number.isFinite(min) || !Number.isFinite(max)) addError(`${optionPath}.cost`, 'cost range must be [min, max] numbers');
+                    else if (min < 0 || max < 0) addError(`${optionPath}.cost`, 'cost must not be negative');
+                    else if (min > max) addError(`${optionPath}.cost`, 'cost range minimum must not exceed its maximum');
+                } else if (typeof option.cost !== 'number' || !Number.isFinite(option.cost)) {
+                    addError(`${optionPath}.cost`, 'cost must be a number or a [min, max] range');
+                } else if (option.cost < 0) {
+                    addError(`${optionPath}.cost`, 'cost must not be negative');
+                }
+                if (option.features !== undefined) {
+                    if (!Array.isArray(option.features)) addError(`${optionPath}.features`, 'features must be an array');
+                    else option.features.forEach((feature, fi) => {
+                        if (!OPTION_FEATURES.includes(feature)) addError(`${optionPath}.features[${fi}]`, `Unknown feature "${String(feature)}"`);
+                    });
+                }
+                if (option.quality !== undefined) {
+                    const quality = option.quality;
+                    const qualityPath = `${optionPath}.quality`;
+                    if (!isRecord(quality)) {
+                        addError(qualityPath, 'quality must be an object');
+                    } else {
+                        checkNumber(quality, 'frameRate', qualityPath, { exclusive: true });
+                        ['motionCoherence', 'promptAdherence'].forEach(key => {
+                            const rating = quality[key];
+                            if (typeof rating !== 'number' || !(rating >= 1 && rating <= 5)) addError(`${qualityPath}.${key}`, `${key} must be a rating from 1 to 5`);
+                        });
+                        if (!Array.isArray(quality.aspectRatios) || !quality.aspectRatios.every(isAspectRatio)) {
+                            addError(`${qualityPath}.aspectRatios`, 'aspectRatios must be a list like ["16:9", "9:16"]');
+                        }
+                        ['watermark', 'commercialUse'].forEach(key => {
+                            if (typeof quality[key] !== 'boolean') addError(`${qualityPath}.${key}`, `${key} must be true or false`);
+                        });
+                    }
+                }
+            });
+        });
+    });
 
-interface RecommendationInputs {
-  calcMode: CalculationMode;
-  deadline: number;
-  duration: number;
-  budget: number;
-  costQuality: number;
-  speedCost: number;
-  audioNeeds: 'none' | 'basic' | 'advanced';
-  expertise: 'beginner' | 'intermediate' | 'expert';
-  enableComparison: boolean;
-  traditionalCost: number;
-  traditionalTime: number;
-}
+    return { platforms: errors.length === 0 ? data as Platform[] : null, errors };
+};
 
-interface ScoredPlatform {
-  platformName: string;
-  planName: string;
-  option: Option;
-  score: number;
-  totalCost: number;
-  rawGenerationTimeDays: number;
-  costPerSecondUSD: number;
-  qualityScore: number;
-  feasible: boolean;
-  reasons: string[];
-  accountsNeeded: number;
-  apiAvailable: Platform['apiAvailable'];
-  achievableDuration: number;
-  // Fields for detailed breakdown card
-  plansAffordable?: number;
-  monthlyCost?: number;
-}
+// Accepts a bare platform array or a snapshot object with `name`, `effectiveDate` and `platforms`.
+const validateCatalogSnapshot = (data: unknown): { snapshot: Omit<CatalogSnapshot, 'id'> | null; errors: CatalogValidationError[] } => {
+    if (Array.isArray(data)) {
+        const { platforms, errors } = validateCatalog(data);
+        return { snapshot: platforms ? { name: 'Imported catalog', effectiveDate: new Date().toISOString().slice(0, 10), platforms } : null, errors };
+    }
+    if (!isRecord(data)) return { snapshot: null, errors: [{ path: '', message: 'Catalog must be a platform array or a snapshot object' }] };
+
+    const errors: CatalogValidationError[] = [];
+    if (typeof data.name !== 'string' || !data.name.trim()) errors.push({ path: 'name', message: 'name must be a non-empty string' });
+    if (typeof data.effectiveDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(data.effectiveDate) || isNaN(Date.parse(data.effectiveDate))) {
+        errors.push({ path: 'effectiveDate', message: 'effectiveDate must be a date in YYYY-MM-DD format' });
+    }
+    const { platforms, errors: platformErrors } = validateCatalog(data.platforms, 'platforms');
+    errors.push(...platformErrors);
+    return { snapshot: errors.length === 0 && platforms ? { name: data.name as string, effectiveDate: data.effectiveDate as string, platforms } : null, errors };
+};
+
+const loadStoredSnapshots = (): { snapshots: CatalogSnapshot[]; activeSnapshotId: string } => {
+    const defaults = { snapshots: [BUILT_IN_SNAPSHOT], activeSnapshotId: BUILT_IN_SNAPSHOT.id };
+    try {
+        const stored = window.localStorage.getItem(CATALOG_STORAGE_KEY);
+        if (!stored) return defaults;
+        const parsed = JSON.parse(stored);
+        const snapshots: CatalogSnapshot[] = (Array.isArray(parsed.snapshots) ? parsed.snapshots : []).flatMap((data: unknown) => {
+            const { snapshot, errors } = validateCatalogSnapshot(data);
+            if (!snapshot || !isRecord(data) || typeof data.id !== 'string') {
+                console.warn('Ignoring invalid stored catalog snapshot:', errors);
+                return [];
+            }
+            return [{ id: data.id, ...snapshot }];
+        });
+        if (snapshots.length === 0) return defaults;
+        return { snapshots, activeSnapshotId: snapshots.some(snap => snap.id === parsed.activeSnapshotId) ? parsed.activeSnapshotId : snapshots[0].id };
+    } catch (error) { console.error('Failed to load stored catalog:', error); }
+    return defaults;
+};
+
+const sortSnapshots = (snapshots: CatalogSnapshot[]) => [...snapshots].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+
+// --- INPUT STATE ---
+const clampNumber = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) => {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+};
+const pickEnum = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T => allowed.includes(value as T) ? value as T : fallback;
+const parseBoolean = (value: unknown, fallback: boolean) => {
+    if (typeof value === 'boolean') return value;
+    if (value === '1' || value === 'true') return true;
+    if (value === '0' || value === 'false') return false;
+    return fallback;
+};
+
+const LABOR_TASKS: { id: LaborTaskId; label: string }[] = [{ id: 'prompting', label: 'Prompting' }, { id: 'review', label: 'Review' }, { id: 'editing', label: 'Editing' }];
+
+// Fixed tables keep their keys and fall back per entry; the by-name reputation table keeps whatever names were
+// saved, so weights for platforms outside the current catalog survive a catalog switch.
+const sanitizeWeightTable = <K extends string>(raw: unknown, fallback: Record<K, number>, fixedKeys: boolean): Record<K, number> => {
+    const table = isRecord(raw) ? raw : {};
+    if (fixedKeys) return Object.fromEntries((Object.keys(fallback) as K[]).map(key => [key, clampNumber(table[key], SCORING_WEIGHT_LIMITS, fallback[key])])) as Record<K, number>;
+    if (!isRecord(raw)) return fallback;
+    return Object.fromEntries(Object.entries(table).filter(([, value]) => typeof value === 'number' && Number.isFinite(value)).map(([key, value]) => [key, clampNumber(value, SCORING_WEIGHT_LIMITS, 0)])) as Record<K, number>;
+};
 
+const sanitizeScoringWeights = (raw: unknown): ScoringWeights => {
+    const d = DEFAULT_SCORING_WEIGHTS;
+    const weights = isRecord(raw) ? raw : {};
+    const quality = isRecord(weights.quality) ? weights.quality : {};
+    const expertiseMatch = isRecord(weights.expertiseMatch) ? weights.expertiseMatch : {};
+    const audio = isRecord(weights.audio) ? weights.audio : {};
+    return {
+        quality: {
+            resolution: sanitizeWeightTable(quality.resolution, d.quality.resolution, true),
+            frameRate: clampNumber(quality.frameRate, SCORING_WEIGHT_LIMITS, d.quality.frameRate),
+            motionCoherence: clampNumber(quality.motionCoherence, SCORING_WEIGHT_LIMITS, d.quality.motionCoherence),
+            promptAdherence: clampNumber(quality.promptAdherence, SCORING_WEIGHT_LIMITS, d.quality.promptAdherence),
+            aspectRatio: clampNumber(quality.aspectRatio, SCORING_WEIGHT_LIMITS, d.quality.aspectRatio),
+            watermark: clampNumber(quality.watermark, SCORING_WEIGHT_LIMITS, d.quality.watermark),
+            commercialUse: clampNumber(quality.commercialUse, SCORING_WEIGHT_LIMITS, d.quality.commercialUse),
+            audio: clampNumber(quality.audio, SCORING_WEIGHT_LIMITS, d.quality.audio),
+            features: sanitizeWeightTable(quality.features, d.quality.features, true),
+            platformReputation: sanitizeWeightTable(quality.platformReputation, d.quality.platformReputation, false),
+        },
+        feasibilityBonus: clampNumber(weights.feasibilityBonus, SCORING_WEIGHT_LIMITS, d.feasibilityBonus),
+        accountPenalty: clampNumber(weights.accountPenalty, SCORING_WEIGHT_LIMITS, d.accountPenalty),
+        expertiseMatch: Object.fromEntries(TECH_LEVELS.map(level => [level, sanitizeWeightTable(expertiseMatch[level], d.expertiseMatch[level], true)])) as ScoringWeights['expertiseMatch'],
+        audio: {
+            basic: sanitizeWeightTable(audio.basic, d.audio.basic, true),
+            advanced: sanitizeWeightTable(audio.advanced, d.audio.advanced, true),
+        },
+    };
+};
 
-// --- CONSTANTS ---
-const HIGHLIGHT_IDS = {
-    CALC_MODE: 'calc-mode',
-    DEADLINE: 'deadline',
-    DURATION: 'duration',
-    BUDGET: 'budget',
-    COST_QUALITY: 'cost-quality',
-    SPEED_COST: 'speed-cost',
-    AUDIO: 'audio',
-    EXPERTISE: 'expertise',
-    ROI: 'roi',
-    TOTAL_COST: 'total-cost',
-    RAW_GENERATION_TIME: 'raw-generation-time',
-    COST_PER_SEC: 'cost-per-sec',
-    QUALITY_SCORE: 'quality-score',
-    ACCOUNTS_NEEDED: 'accounts-needed',
-    PARALLEL: 'parallel',
-    API: 'api',
-    PLAN_COST: 'plan-cost'
-};
-
-
-const DETAILED_PLATFORM_DATA: Platform[] = [
-    {
-    platformName: "Kling AI",
-    apiAvailable: "Limited",
-    rateLimit: "N/A",
-    setupDays: 0.5,
-    techLevel: 'beginner',
-    plans: [
-      {
-        planName: "Standard", monthlyCost: 10, quota: 660, quotaUnit: "credits",
-        maxParallel: 8, avgTimePerClipMin: 1.5,
-        options: [
-          { modelId: 'kling-std-5s', modelName: "Standard 5s", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "credits", cost: 10, features: ['Motion Brush'] },
-          { modelId: 'kling-std-10s', modelName: "Standard 10s", maxDurationSec: 10, resolution: "1080p", audio: false, costUnit: "credits", cost: 20, features: ['Motion Brush'] },
-        ]
-      },
-      {
-        planName: "Pro", monthlyCost: 37, quota: 3000, quotaUnit: "credits",
-        maxParallel: 8, avgTimePerClipMin: 1.2,
-        options: [
-          { modelId: 'kling-pro-5s', modelName: "Professional (High-Quality) 5s", maxDurationSec: 5, resolution: "1080p+", audio: true, costUnit: "credits", cost: 35, features: ['Motion Brush', 'Keyframe Editor'] },
-          { modelId: 'kling-pro-10s', modelName: "Professional (High-Quality) 10s", maxDurationSec: 10, resolution: "1080p+", audio: true, costUnit: "credits", cost: 70, features: ['Motion Brush', 'Keyframe Editor'] }
-        ]
-      },
-       {
-        planName: "Premier", monthlyCost: 92, quota: 8000, quotaUnit: "credits",
-        maxParallel: 8, avgTimePerClipMin: 1.0,
-        options: [
-          { modelId: 'kling-prm-5s', modelName: "Professional (High-Quality) 5s", maxDurationSec: 5, resolution: "1080p+", audio: true, costUnit: "credits", cost: 35, features: ['Motion Brush', 'Keyframe Editor'] },
-          { modelId: 'kling-prm-10s', modelName: "Professional (High-Quality) 10s", maxDurationSec: 10, resolution: "1080p+", audio: true, costUnit: "credits", cost: 70, features: ['Motion Brush', 'Keyframe Editor'] }
-        ]
-      },
-    ]
-  },
-  {
-    platformName: "Leonardo AI (Web App)",
-    apiAvailable: "No",
-    rateLimit: "Daily token limit",
-    setupDays: 0.5,
-    techLevel: 'beginner',
-    plans: [
-        {
-            planName: "Apprentice", monthlyCost: 10, quota: 8500, quotaUnit: 'tokens',
-            maxParallel: 5, avgTimePerClipMin: 1.5,
-            options: [
-                { modelId: 'leo-web-m1-a', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45 },
-                { modelId: 'leo-web-m2-a', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200 },
-            ]
+// Turns untrusted input values (URL parameters, stored scenarios) into valid inputs: out-of-range numbers are clamped
+// and anything malformed falls back to its default, so the calculator never sees NaN or unknown enum values.
+const sanitizeInputs = (raw: Record<string, unknown>): RecommendationInputs => {
+    const d = DEFAULT_INPUTS;
+    const shots = Array.isArray(raw.shots) ? raw.shots.filter(isRecord).map((shot, i): Shot => ({
+        id: typeof shot.id === 'string' && shot.id ? shot.id : `shot-${i + 1}`,
+        lengthSec: clampNumber(shot.lengthSec, INPUT_LIMITS.shotLengthSec, 5),
+        count: Math.round(clampNumber(shot.count, INPUT_LIMITS.shotCount, 1)),
+        audio: parseBoolean(shot.audio, false),
+        resolution: pickEnum(shot.resolution, Object.keys(RESOLUTION_RANK) as Option['resolution'][], '1080p'),
+    })) : [];
+    const deliverables = Array.isArray(raw.deliverables) ? raw.deliverables.filter(isRecord).map((deliverable, i): Deliverable => ({
+        id: typeof deliverable.id === 'string' && deliverable.id ? deliverable.id : `deliverable-${i + 1}`,
+        name: typeof deliverable.name === 'string' && deliverable.name.trim() ? deliverable.name.trim() : `Deliverable ${i + 1}`,
+        lengthSec: clampNumber(deliverable.lengthSec, INPUT_LIMITS.deliverableLengthSec, 15),
+        count: Math.round(clampNumber(deliverable.count, INPUT_LIMITS.shotCount, 1)),
+        audio: parseBoolean(deliverable.audio, false),
+        minQualityScore: clampNumber(deliverable.minQualityScore, INPUT_LIMITS.minQualityScore, 0),
+    })) : [];
+    const takeRateOverrides = Array.isArray(raw.takeRateOverrides) ? raw.takeRateOverrides.filter(isRecord).filter(o => typeof o.platformName === 'string').map((o, i): TakeRateOverride => ({
+        id: typeof o.id === 'string' && o.id ? o.id : `take-rate-${i + 1}`,
+        platformName: o.platformName as string,
+        modelName: typeof o.modelName === 'string' && o.modelName ? o.modelName : null,
+        takes: clampNumber(o.takes, INPUT_LIMITS.takesPerClip, d.takesPerClip),
+    })) : d.takeRateOverrides;
+    const calendar = isRecord(raw.calendar) ? raw.calendar : {};
+    const labor = isRecord(raw.labor) ? raw.labor : {};
+    const laborRoles = isRecord(labor.roles) ? labor.roles : {};
+    const constraints = isRecord(raw.constraints) ? raw.constraints : {};
+    const delivery = isRecord(raw.deliverySpec) ? raw.deliverySpec : {};
+    const deliveryFrameRate = clampNumber(delivery.frameRate, INPUT_LIMITS.deliveryFrameRate, NaN);
+    const workdays = Array.isArray(calendar.workdays) ? [...new Set(calendar.workdays.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6))].sort((a, b) => a - b) : [];
+
+    return {
+        calcMode: pickEnum(raw.calcMode, ['cost', 'duration'] as const, d.calcMode),
+        deadline: clampNumber(raw.deadline, INPUT_LIMITS.deadline, d.deadline),
+        duration: clampNumber(raw.duration, INPUT_LIMITS.duration, d.duration),
+        useShotList: parseBoolean(raw.useShotList, d.useShotList),
+        shots: shots.length > 0 ? shots : d.shots,
+        useDeliverables: parseBoolean(raw.useDeliverables, d.useDeliverables),
+        deliverables: deliverables.length > 0 ? deliverables : d.deliverables,
+        takesPerClip: clampNumber(raw.takesPerClip, INPUT_LIMITS.takesPerClip, d.takesPerClip),
+        takeRateOverrides,
+        budget: clampNumber(raw.budget, INPUT_LIMITS.budget, d.budget),
+        costQuality: clampNumber(raw.costQuality, INPUT_LIMITS.costQuality, d.costQuality),
+        speedCost: clampNumber(raw.speedCost, INPUT_LIMITS.speedCost, d.speedCost),
+        audioNeeds: pickEnum(raw.audioNeeds, ['none', 'basic', 'advanced'] as const, d.audioNeeds),
+        expertise: pickEnum(raw.expertise, TECH_LEVELS, d.expertise),
+        enableComparison: parseBoolean(raw.enableComparison, d.enableComparison),
+        traditionalCost: clampNumber(raw.traditionalCost, INPUT_LIMITS.traditionalCost, d.traditionalCost),
+        traditionalTime: clampNumber(raw.traditionalTime, INPUT_LIMITS.traditionalTime, d.traditionalTime),
+        traditionalDuration: clampNumber(raw.traditionalDuration, INPUT_LIMITS.traditionalDuration, d.traditionalDuration),
+        projectsPerMonth: Math.round(clampNumber(raw.projectsPerMonth, INPUT_LIMITS.projectsPerMonth, d.projectsPerMonth)),
+        roiHorizonMonths: Math.round(clampNumber(raw.roiHorizonMonths, INPUT_LIMITS.roiHorizonMonths, d.roiHorizonMonths)),
+        toolingCost: clampNumber(raw.toolingCost, INPUT_LIMITS.toolingCost, d.toolingCost),
+        trainingCost: clampNumber(raw.trainingCost, INPUT_LIMITS.trainingCost, d.trainingCost),
+        discountRatePercent: clampNumber(raw.discountRatePercent, INPUT_LIMITS.discountRatePercent, d.discountRatePercent),
+        minQualityScore: clampNumber(raw.minQualityScore, INPUT_LIMITS.minQualityScore, d.minQualityScore),
+        simulateUncertainty: parseBoolean(raw.simulateUncertainty, d.simulateUncertainty),
+        startDate: isIsoDate(raw.startDate) ? raw.startDate : d.startDate,
+        calendar: {
+            hoursPerDay: clampNumber(calendar.hoursPerDay, INPUT_LIMITS.hoursPerDay, d.calendar.hoursPerDay),
+            workdays: workdays.length > 0 ? workdays : d.calendar.workdays,
+            holidays: Array.isArray(calendar.holidays) ? [...new Set(calendar.holidays.filter(isIsoDate))].sort() : d.calendar.holidays,
+            unattendedApi: parseBoolean(calendar.unattendedApi, d.calendar.unattendedApi),
         },
-        {
-            planName: "Artisan Unlimited", monthlyCost: 24, quota: 25500, quotaUnit: 'tokens',
-            maxParallel: 5, avgTimePerClipMin: 1.2,
-            options: [
-                { modelId: 'leo-web-m1-art', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45 },
-                { modelId: 'leo-web-m2-art', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200 },
-            ]
+        labor: {
+            enabled: parseBoolean(labor.enabled, d.labor.enabled),
+            roles: Object.fromEntries(LABOR_TASKS.map(({ id }) => {
+                const role = isRecord(laborRoles[id]) ? laborRoles[id] : {};
+                return [id, {
+                    role: typeof role.role === 'string' && role.role.trim() ? role.role : d.labor.roles[id].role,
+                    hourlyRate: clampNumber(role.hourlyRate, INPUT_LIMITS.hourlyRate, d.labor.roles[id].hourlyRate),
+                }];
+            })) as LaborInputs['roles'],
+            promptMinutesPerClip: clampNumber(labor.promptMinutesPerClip, INPUT_LIMITS.promptMinutesPerClip, d.labor.promptMinutesPerClip),
+            reviewMinutesPerClip: clampNumber(labor.reviewMinutesPerClip, INPUT_LIMITS.reviewMinutesPerClip, d.labor.reviewMinutesPerClip),
+            editingHoursPerMinute: clampNumber(labor.editingHoursPerMinute, INPUT_LIMITS.editingHoursPerMinute, d.labor.editingHoursPerMinute),
         },
-        {
-            planName: "Maestro Unlimited", monthlyCost: 48, quota: 60000, quotaUnit: 'tokens',
-            maxParallel: 5, avgTimePerClipMin: 1.0,
-            options: [
-                { modelId: 'leo-web-m1-m', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45 },
-                { modelId: 'leo-web-m2-m', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200 },
-            ]
+        constraints: {
+            minResolution: (Object.keys(RESOLUTION_RANK) as Option['resolution'][]).find(resolution => resolution === constraints.minResolution) ?? null,
+            requiredFeatures: Array.isArray(constraints.requiredFeatures) ? OPTION_FEATURES.filter(feature => (constraints.requiredFeatures as unknown[]).includes(feature)) : d.constraints.requiredFeatures,
+            requireApi: parseBoolean(constraints.requireApi, d.constraints.requireApi),
+            maxTechLevel: TECH_LEVELS.find(level => level === constraints.maxTechLevel) ?? null,
+            platformMode: pickEnum(constraints.platformMode, ['exclude', 'include'] as const, d.constraints.platformMode),
+            platforms: Array.isArray(constraints.platforms) ? [...new Set(constraints.platforms.filter((name): name is string => typeof name === 'string'))] : d.constraints.platforms,
+        },
+        deliverySpec: {
+            aspectRatios: Array.isArray(delivery.aspectRatios) ? [...new Set(delivery.aspectRatios.filter(isAspectRatio))] : d.deliverySpec.aspectRatios,
+            frameRate: Number.isNaN(deliveryFrameRate) ? null : deliveryFrameRate,
+            resolution: (Object.keys(RESOLUTION_RANK) as Option['resolution'][]).find(resolution => resolution === delivery.resolution) ?? null,
+            allowUpscaling: parseBoolean(delivery.allowUpscaling, d.deliverySpec.allowUpscaling),
+            upscaleCostPerMinute: clampNumber(delivery.upscaleCostPerMinute, INPUT_LIMITS.postCostPerMinute, d.deliverySpec.upscaleCostPerMinute),
+            upscaleHoursPerMinute: clampNumber(delivery.upscaleHoursPerMinute, INPUT_LIMITS.postHoursPerMinute, d.deliverySpec.upscaleHoursPerMinute),
+            conformCostPerMinute: clampNumber(delivery.conformCostPerMinute, INPUT_LIMITS.postCostPerMinute, d.deliverySpec.conformCostPerMinute),
+            conformHoursPerMinute: clampNumber(delivery.conformHoursPerMinute, INPUT_LIMITS.postHoursPerMinute, d.deliverySpec.conformHoursPerMinute),
+        },
+        scoringWeights: raw.scoringWeights === undefined ? d.scoringWeights : sanitizeScoringWeights(raw.scoringWeights),
+    };
+};
+
+// Scalars are stored as plain query parameters; shot lists, overrides and the nested settings as compact JSON.
+const encodeInputsToQuery = (inputs: RecommendationInputs) => {
+    const params = new URLSearchParams();
+    (Object.keys(inputs) as (keyof RecommendationInputs)[]).forEach(key => {
+        const value = inputs[key];
+        if (key === 'shots') {
+            params.set(key, JSON.stringify(inputs.shots.map(({ lengthSec, count, audio, resolution }) => ({ lengthSec, count, audio, resolution }))));
+        } else if (key === 'deliverables') {
+            params.set(key, JSON.stringify(inputs.deliverables.map(({ name, lengthSec, count, audio, minQualityScore }) => ({ name, lengthSec, count, audio, minQualityScore }))));
+        } else if (key === 'takeRateOverrides') {
+            if (inputs.takeRateOverrides.length > 0) params.set(key, JSON.stringify(inputs.takeRateOverrides.map(({ platformName, modelName, takes }) => ({ platformName, modelName, takes }))));
+        } else if (key === 'calendar' || key === 'labor' || key === 'constraints' || key === 'deliverySpec') {
+            params.set(key, JSON.stringify(inputs[key]));
+        } else if (key === 'scoringWeights') {
+            // The full weight tables are long, so links only carry them once they have been edited
+            if (JSON.stringify(inputs.scoringWeights) !== JSON.stringify(DEFAULT_SCORING_WEIGHTS)) params.set(key, JSON.stringify(inputs.scoringWeights));
+        } else if (typeof value === 'boolean') {
+            params.set(key, value ? '1' : '0');
+        } else {
+            params.set(key, String(value));
         }
-    ]
-  },
-  {
-    platformName: "Leonardo AI (API)",
-    apiAvailable: "Yes",
-    rateLimit: "Varies by plan",
-    setupDays: 0.5,
-    techLevel: 'expert',
-    plans: [
-       {
-        planName: "API Basic", monthlyCost: 9, quota: 3500, quotaUnit: "tokens",
-        maxParallel: 5, maxParallelAPI: 5, avgTimePerClipMin: 1.5,
-        options: [
-          { modelId: 'leo-api-motion-1-b', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45 },
-          { modelId: 'leo-api-motion-2-b', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200 },
-        ]
-      },
-      {
-        planName: "API Standard", monthlyCost: 49, quota: 25000, quotaUnit: "tokens",
-        maxParallel: 5, maxParallelAPI: 10, avgTimePerClipMin: 1.2,
-        options: [
-            { modelId: 'leo-api-motion-1-s', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45 },
-            { modelId: 'leo-api-motion-2-s', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200 },
-            { modelId: 'veo-3-leo-std', modelName: "Veo 3 (via API)", maxDurationSec: 8, resolution: "720p", audio: false, costUnit: "tokens", cost: 2500 }
-        ]
-      },
-      {
-        planName: "API Pro", monthlyCost: 299, quota: 100000, quotaUnit: "tokens",
-        maxParallel: 5, maxParallelAPI: 20, avgTimePerClipMin: 1.0,
-        options: [
-            { modelId: 'leo-api-motion-1-p', modelName: "Motion 1.0", maxDurationSec: 3, resolution: "720p", audio: false, costUnit: "tokens", cost: 45 },
-            { modelId: 'leo-api-motion-2-p', modelName: "Motion 2.0", maxDurationSec: 5, resolution: "1080p", audio: false, costUnit: "tokens", cost: 200 },
-            { modelId: 'veo-3-leo-pro', modelName: "Veo 3 (via API)", maxDurationSec: 8, resolution: "720p", audio: false, costUnit: "tokens", cost: 2500 }
-        ]
-      },
-    ]
-  },
-  {
-    platformName: "LTX Studio",
-    apiAvailable: "Enterprise",
-    rateLimit: "N/A",
-    setupDays: 1,
-    techLevel: 'intermediate',
-    plans: [
-        { planName: "Lite (Monthly)", monthlyCost: 15, quota: 8640, quotaUnit: "compute_seconds", maxParallel: 1, avgTimePerClipMin: 4, options: [ { modelId: 'ltx-lite-m', modelName: "Motion Standard", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1 } ] },
-        { planName: "Lite (Annual)", monthlyCost: 12, quota: 8640, quotaUnit: "compute_seconds", maxParallel: 1, avgTimePerClipMin: 4, options: [ { modelId: 'ltx-lite-y', modelName: "Motion Standard", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1 } ] },
-        { planName: "Standard (Monthly)", monthlyCost: 35, quota: 28800, quotaUnit: "compute_seconds", maxParallel: 1, avgTimePerClipMin: 3.8, options: [ { modelId: 'ltx-std-m', modelName: "Motion Standard (Veo 2)", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1 } ] },
-        { planName: "Standard (Annual)", monthlyCost: 28, quota: 28800, quotaUnit: "compute_seconds", maxParallel: 1, avgTimePerClipMin: 3.8, options: [ { modelId: 'ltx-std-y', modelName: "Motion Standard (Veo 2)", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1 } ] },
-        { planName: "Pro (Monthly)", monthlyCost: 125, quota: 90000, quotaUnit: "compute_seconds", maxParallel: 10, avgTimePerClipMin: 3, options: [ { modelId: 'ltx-pro-m', modelName: "Pipeline Full (Veo 3)", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1.5, features: ['Storyboard Export'] } ] },
-        { planName: "Pro (Annual)", monthlyCost: 100, quota: 90000, quotaUnit: "compute_seconds", maxParallel: 10, avgTimePerClipMin: 3, options: [ { modelId: 'ltx-pro-y', modelName: "Pipeline Full (Veo 3)", maxDurationSec: 15, resolution: "1080p+", audio: true, costUnit: "ratio", cost: 1.5, features: ['Storyboard Export'] } ] },
-        { planName: "Enterprise", monthlyCost: 500, quota: 500000, quotaUnit: "compute_seconds", maxParallel: 20, avgTimePerClipMin: 2.5, options: [ { modelId: 'ltx-ent', modelName: "Pipeline Full (Veo 3)", maxDurationSec: 15, resolution: "4K", audio: true, costUnit: "ratio", cost: 2, features: ['Storyboard Export'] } ] }
-    ]
-  },
-  {
-    platformName: "OpenAI Sora",
-    apiAvailable: "Limited",
-    rateLimit: "N/A",
-    setupDays: 0.5,
-    techLevel: 'beginner',
-    plans: [
-      {
-        planName: "Plus", monthlyCost: 20, quota: 0, quotaUnit: "unlimited",
-        maxParallel: 2, avgTimePerClipMin: 1.5,
-        options: [
-          { modelId: 'sora-plus-10', modelName: "Standard 10s", maxDurationSec: 10, resolution: "720p", audio: false, costUnit: "clips", cost: 0 }
-        ]
-      },
-      {
-        planName: "Pro", monthlyCost: 200, quota: 0, quotaUnit: "unlimited",
-        maxParallel: 5, maxParallelAPI: 5, avgTimePerClipMin: 0.8,
-        options: [
-          { modelId: 'sora-pro-20', modelName: "Enhanced Quality 20s", maxDurationSec: 20, resolution: "1080p", audio: false, costUnit: "clips", cost: 0 }
-        ]
-      }
-    ]
-  },
-  {
-    platformName: "Google Veo",
-    apiAvailable: "Yes",
-    rateLimit: "10 req/min, 20 concurrent",
-    setupDays: 1,
-    techLevel: 'expert',
-    plans: [
-      {
-        planName: "Ultra Subscription", monthlyCost: 250, quota: 12500, quotaUnit: "credits",
-        maxParallel: 5, avgTimePerClipMin: 0.8,
-        options: [
-          { modelId: 'veo-ultra-fast', modelName: "Veo 3 Fast", maxDurationSec: 8, resolution: "1080p", audio: true, costUnit: "credits", cost: 20, features: ['Audio-Video Sync'] },
-          { modelId: 'veo-ultra-qual', modelName: "Veo 3 Quality", maxDurationSec: 8, resolution: "1080p", audio: true, costUnit: "credits", cost: 100, features: ['Audio-Video Sync'] },
-        ]
-      },
-      {
-        planName: "Vertex AI API", monthlyCost: 0, quota: 0, quotaUnit: "unlimited",
-        maxParallel: 1, maxParallelAPI: 20, avgTimePerClipMin: 1.8,
-        options: [
-          { modelId: 'veo-api-2.0', modelName: "Veo 2.0 GA", maxDurationSec: 8, resolution: "720p", audio: false, costUnit: "per_second", cost: 0.50 },
-          { modelId: 'veo-api-3.0', modelName: "Veo 3.0 Preview", maxDurationSec: 8, resolution: "720p", audio: false, costUnit: "per_second", cost: 0.50 },
-          { modelId: 'veo-api-3.0-audio', modelName: "Veo 3.0 with Audio", maxDurationSec: 8, resolution: "720p", audio: true, costUnit: "per_second", cost: 0.75, features: ['Audio-Video Sync'] },
-        ]
-      }
-    ]
-  }
-];
+    });
+    return params.toString();
+};
+
+const decodeInputsFromQuery = (search: string): RecommendationInputs | null => {
+    const params = new URLSearchParams(search);
+    const raw: Record<string, unknown> = {};
+    (Object.keys(DEFAULT_INPUTS) as (keyof RecommendationInputs)[]).forEach(key => {
+        const value = params.get(key);
+        if (value === null) return;
+        if (key === 'shots' || key === 'deliverables' || key === 'takeRateOverrides' || key === 'calendar' || key === 'labor' || key === 'constraints' || key === 'deliverySpec' || key === 'scoringWeights') {
+            try { raw[key] = JSON.parse(value); } catch { /* malformed lists fall back to defaults */ }
+        } else {
+            raw[key] = value;
+        }
+    });
+    return Object.keys(raw).length > 0 ? sanitizeInputs(raw) : null;
+};
 
 
 // --- HOOKS & COMPONENTS ---
@@ -286,247 +434,142 @@ const useMediaQuery = (query) => {
 };
 
 
-const useRecommendation = (inputs: RecommendationInputs) => {
-    const [primaryRecommendation, setPrimaryRecommendation] = useState<ScoredPlatform | null>(null);
-    const [sortedPlatforms, setSortedPlatforms] = useState<ScoredPlatform[]>([]);
+const useCatalog = () => {
+    const [state, setState] = useState(loadStoredSnapshots);
+    const { snapshots, activeSnapshotId } = state as ReturnType<typeof loadStoredSnapshots>;
+    const activeSnapshot = snapshots.find(snap => snap.id === activeSnapshotId) || snapshots[0];
 
-    const getQualityScore = (option: Option, plan: Plan, platform: Platform) => {
-        let score = 0;
-        const resolutionScores = { '720p': 7, '1080p': 8, '1080p+': 9, '4K': 10 };
-        score += resolutionScores[option.resolution] || 6;
+    useEffect(() => {
+        try {
+            window.localStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(state));
+        } catch (error) { console.error('Failed to persist catalog:', error); }
+    }, [state]);
 
-        if (option.audio) score += 0.5;
-        
-        const planHierarchy = { "Personal": 0, "Lite (Annual)": 0, "Lite (Monthly)": 0, "Plus": 0, "Apprentice": 0, "Standard (Annual)": 0.5, "Standard (Monthly)": 0.5, "Artisan Unlimited": 0.5, "API Basic": 0.5, "Pro (Annual)": 1, "Pro (Monthly)": 1, "Maestro Unlimited": 1, "API Standard": 1, "Premier": 1.5, "Team": 1.5, "API Pro": 1.5, "Vertex AI API": 2, "Ultra Subscription": 2, "Enterprise": 2};
-        score += planHierarchy[plan.planName] || 0;
+    const updateSnapshot = useCallback((id: string, changes: Partial<Omit<CatalogSnapshot, 'id'>>) => {
+        setState((prev: ReturnType<typeof loadStoredSnapshots>) => ({ ...prev, snapshots: sortSnapshots(prev.snapshots.map(snap => snap.id === id ? { ...snap, ...changes } : snap)) }));
+    }, []);
 
-        if (option.features?.includes('Storyboard Export')) score += 1;
-        if (option.features?.includes('Keyframe Editor')) score += 0.5;
-        if (option.features?.includes('Audio-Video Sync')) score += 1;
+    const saveCatalog = useCallback((platforms: Platform[]) => updateSnapshot(activeSnapshot.id, { platforms }), [activeSnapshot.id, updateSnapshot]);
+    const resetCatalog = useCallback(() => updateSnapshot(activeSnapshot.id, { platforms: DETAILED_PLATFORM_DATA }), [activeSnapshot.id, updateSnapshot]);
+    const selectSnapshot = useCallback((id: string) => setState((prev: ReturnType<typeof loadStoredSnapshots>) => ({ ...prev, activeSnapshotId: id })), []);
 
-        const platformReputation = { "Google Veo": 1.5, "OpenAI Sora": 1, "LTX Studio": 0.5, "Leonardo AI (API)": 0, "Leonardo AI (Web App)": 0, "Kling AI": -0.5 };
-        score += platformReputation[platform.platformName] || 0;
-        
-        return Math.min(10, score);
-    };
+    const addSnapshot = useCallback((snapshot: Omit<CatalogSnapshot, 'id'>) => {
+        const id = createId('catalog');
+        setState((prev: ReturnType<typeof loadStoredSnapshots>) => ({ snapshots: sortSnapshots([...prev.snapshots, { id, ...snapshot }]), activeSnapshotId: id }));
+    }, []);
 
-    const getAverage = (value: number | [number, number]) => {
-        return Array.isArray(value) ? (value[0] + value[1]) / 2 : value;
-    };
+    const deleteSnapshot = useCallback((id: string) => {
+        setState((prev: ReturnType<typeof loadStoredSnapshots>) => {
+            const remaining = prev.snapshots.filter(snap => snap.id !== id);
+            if (remaining.length === 0) return prev;
+            return { snapshots: remaining, activeSnapshotId: prev.activeSnapshotId === id ? remaining[remaining.length - 1].id : prev.activeSnapshotId };
+        });
+    }, []);
 
-    const calculateTimeRequirement = (durationMinutes: number, option: Option, plan: Plan, platform: Platform, deadline: number, expertise: RecommendationInputs['expertise']) => {
-        if (durationMinutes <= 0) return { timeDays: 0, accountsNeeded: 1 };
+    return { snapshots, activeSnapshot, catalog: activeSnapshot.platforms, saveCatalog, resetCatalog, selectSnapshot, addSnapshot, updateSnapshot, deleteSnapshot };
+};
 
-        const clipsNeeded = Math.ceil(durationMinutes * 60 / option.maxDurationSec);
-        
-        const canUseAPI = (platform.apiAvailable === 'Yes' || platform.apiAvailable === 'Limited' || platform.apiAvailable === 'Enterprise') && (expertise === 'expert' || expertise === 'intermediate');
-        const effectiveMaxParallel = canUseAPI && plan.maxParallelAPI ? plan.maxParallelAPI : plan.maxParallel;
-        
-        const totalWorkloadMinutes = clipsNeeded * plan.avgTimePerClipMin;
-        const totalWorkloadHours = totalWorkloadMinutes / 60;
-        
-        const singleAccountTimeHours = totalWorkloadHours / effectiveMaxParallel; 
-        
-        const singleAccountTimeDays = (singleAccountTimeHours / 8) + platform.setupDays; 
-        
-        let accountsNeeded = 1;
-        if (singleAccountTimeDays > deadline) {
-            accountsNeeded = Math.ceil(singleAccountTimeDays / deadline);
-        }
-        
-        const actualTimeDays = singleAccountTimeDays / accountsNeeded;
-        
-        return {
-            timeDays: actualTimeDays,
-            accountsNeeded
-        };
-    };
+const loadStoredScenarios = (): Scenario[] => {
+    try {
+        const stored = window.localStorage.getItem(SCENARIO_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : [];
+        // Scenarios saved before newer inputs existed pick up the defaults for them
+        return Array.isArray(parsed) ? parsed.filter(isRecord).map(scenario => ({ ...scenario, inputs: sanitizeInputs(isRecord(scenario.inputs) ? scenario.inputs : {}) }) as Scenario) : [];
+    } catch (error) { console.error('Failed to load saved scenarios:', error); }
+    return [];
+};
 
-    const calculateCostPerSecondUSD = (option: Option, plan: Plan): number => {
-        const avgCostPerUnit = getAverage(option.cost);
-        const durationSeconds = option.maxDurationSec;
+const useScenarios = () => {
+    const [scenarios, setScenarios] = useState<Scenario[]>(loadStoredScenarios);
 
-        if (option.costUnit === 'per_second') {
-            return avgCostPerUnit;
-        }
+    useEffect(() => {
+        try {
+            window.localStorage.setItem(SCENARIO_STORAGE_KEY, JSON.stringify(scenarios));
+        } catch (error) { console.error('Failed to persist scenarios:', error); }
+    }, [scenarios]);
 
-        if (plan.quotaUnit === 'unlimited' || plan.quota === 0) return Infinity;
-        
-        const costPerUnitUSD = plan.monthlyCost / plan.quota;
-
-        switch (option.costUnit) {
-            case 'credits':
-            case 'tokens':
-            case 'clips':
-                return (avgCostPerUnit * costPerUnitUSD) / durationSeconds;
-            case 'ratio':
-                const computeSecondsPerVideoSecond = avgCostPerUnit;
-                return computeSecondsPerVideoSecond * costPerUnitUSD;
-            default: return Infinity;
-        }
-    };
+    const saveScenario = useCallback((name: string, inputs: RecommendationInputs, catalogSnapshotId: string) => {
+        setScenarios((prev: Scenario[]) => [...prev, { id: createId('scenario'), name, inputs, catalogSnapshotId, createdAt: new Date().toISOString() }]);
+    }, []);
+    const renameScenario = useCallback((id: string, name: string) => {
+        setScenarios((prev: Scenario[]) => prev.map(scenario => scenario.id === id ? { ...scenario, name } : scenario));
+    }, []);
+    const duplicateScenario = useCallback((id: string) => {
+        setScenarios((prev: Scenario[]) => prev.flatMap(scenario => scenario.id === id
+            ? [scenario, { ...scenario, id: createId('scenario'), name: `${scenario.name} (copy)`, createdAt: new Date().toISOString() }]
+            : [scenario]));
+    }, []);
+    const deleteScenario = useCallback((id: string) => {
+        setScenarios((prev: Scenario[]) => prev.filter(scenario => scenario.id !== id));
+    }, []);
 
-    const calculate = useCallback(() => {
-        const { calcMode, deadline, duration, budget, costQuality, speedCost, audioNeeds, expertise, enableComparison, traditionalCost, traditionalTime } = inputs;
-        const scoredOptions: ScoredPlatform[] = [];
-
-        for (const platform of DETAILED_PLATFORM_DATA) {
-            for (const plan of platform.plans) {
-                for (const option of plan.options) {
-                    
-                    const qualityScore = getQualityScore(option, plan, platform);
-                    const costPerSecondUSD = calculateCostPerSecondUSD(option, plan);
-                    
-                    let score = 0;
-                    const reasons: string[] = [];
-                    let result: Partial<ScoredPlatform> & { plansAffordable?: number } = { achievableDuration: 0, totalCost: 0, rawGenerationTimeDays: 0, accountsNeeded: 1 };
-                    
-                    if (calcMode === 'cost') {
-                        result.achievableDuration = duration;
-                        const clipsNeeded = Math.ceil(duration * 60 / option.maxDurationSec);
-
-                        if (plan.quotaUnit === 'unlimited') {
-                            if (option.costUnit === 'per_second') { // Pay-per-use model like Veo
-                                result.totalCost = duration * 60 * getAverage(option.cost);
-                            } else { // Flat-fee unlimited model like Sora
-                                result.totalCost = plan.monthlyCost;
-                            }
-                        } else { // Quota-based plans
-                             if (plan.quota > 0) {
-                                let totalUnitsNeeded = 0;
-                                if(option.costUnit === 'ratio') {
-                                    totalUnitsNeeded = (duration * 60) * getAverage(option.cost);
-                                } else {
-                                    totalUnitsNeeded = clipsNeeded * getAverage(option.cost);
-                                }
-                                const plansNeeded = Math.ceil(totalUnitsNeeded / plan.quota);
-                                result.totalCost = plansNeeded * plan.monthlyCost;
-                            } else {
-                                result.totalCost = Infinity;
-                            }
-                        }
-                        
-                        const timeReq = calculateTimeRequirement(duration, option, plan, platform, deadline, expertise);
-                        result.rawGenerationTimeDays = timeReq.timeDays;
-                        result.accountsNeeded = timeReq.accountsNeeded;
-
-                        if (timeReq.timeDays > deadline) reasons.push(`Requires ${timeReq.accountsNeeded} accounts`);
-                        if (result.totalCost > budget) reasons.push('Over budget');
-
-                    } else { // calcMode === 'duration'
-                        result.totalCost = budget;
-                        let totalVideoSeconds = 0;
-
-                        if (plan.quotaUnit === 'unlimited') {
-                            if (option.costUnit === 'per_second') { // Pay-per-use
-                                if(budget > 0 && getAverage(option.cost) > 0) {
-                                    totalVideoSeconds = budget / getAverage(option.cost);
-                                    result.totalCost = budget;
-                                }
-                            } else { // Flat-fee unlimited
-                                 if(budget >= plan.monthlyCost) {
-                                     totalVideoSeconds = Infinity; // Theoretical max
-                                     result.totalCost = plan.monthlyCost;
-                                 } else {
-                                     totalVideoSeconds = 0;
-                                 }
-                            }
-                        } else { // Quota-based
-                            if (plan.monthlyCost > 0) {
-                                const plansAffordable = Math.floor(budget / plan.monthlyCost);
-                                if (plansAffordable > 0) {
-                                    result.plansAffordable = plansAffordable;
-                                    result.totalCost = plansAffordable * plan.monthlyCost;
-                                    const totalQuota = plansAffordable * plan.quota;
-                                    const costPerClip = getAverage(option.cost);
-                                    if(costPerClip > 0) {
-                                        if (option.costUnit === 'ratio') {
-                                            totalVideoSeconds = totalQuota / costPerClip;
-                                        } else {
-                                            totalVideoSeconds = (totalQuota / costPerClip) * option.maxDurationSec;
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                        
-                        const canUseAPI = (platform.apiAvailable === 'Yes' || platform.apiAvailable === 'Limited' || platform.apiAvailable === 'Enterprise') && (expertise === 'expert' || expertise === 'intermediate');
-                        const effectiveMaxParallel = canUseAPI && plan.maxParallelAPI ? plan.maxParallelAPI : plan.maxParallel;
-                        const maxClipsInDeadline = (deadline * 8 * 60) / plan.avgTimePerClipMin * effectiveMaxParallel;
-                        const maxDurationFromTime = (maxClipsInDeadline * option.maxDurationSec) / 60;
-                        result.achievableDuration = Math.min(totalVideoSeconds / 60, maxDurationFromTime);
-
-                        const timeReq = calculateTimeRequirement(result.achievableDuration, option, plan, platform, deadline, expertise);
-                        result.rawGenerationTimeDays = timeReq.timeDays;
-                        result.accountsNeeded = timeReq.accountsNeeded;
-                        if (timeReq.timeDays > deadline && result.achievableDuration > 0) {
-                            reasons.push(`Challenging deadline: needs ${timeReq.accountsNeeded} accounts`);
-                        }
-                    }
-                    
-                    result.feasible = (reasons.length === 0) || (reasons.length === 1 && reasons[0].includes('accounts'));
-
-                    if(result.feasible) score += 50;
-                    if(result.accountsNeeded > 1 && result.feasible) score -= result.accountsNeeded * 2; 
-
-                    const expertiseMatch = {
-                        'beginner': { 'beginner': 20, 'intermediate': 5, 'expert': -10 },
-                        'intermediate': { 'beginner': 10, 'intermediate': 20, 'expert': 10 },
-                        'expert': { 'beginner': -5, 'intermediate': 10, 'expert': 20 }
-                    };
-                    score += expertiseMatch[expertise][platform.techLevel] || 0;
-
-                    if (audioNeeds === 'advanced') score += option.audio ? 15 : -25;
-                    else if(audioNeeds === 'basic') score += option.audio ? 5 : -5;
-                    
-                    const effectiveMaxParallel = (platform.apiAvailable === 'Yes' && expertise !== 'beginner' && plan.maxParallelAPI) ? plan.maxParallelAPI : plan.maxParallel;
-                    score += (effectiveMaxParallel * 0.5) * (speedCost / 100);
-                    
-                    const qualityWeight = costQuality / 100;
-                    const costScore = costPerSecondUSD > 0 && costPerSecondUSD !== Infinity ? Math.max(0, 1 - (costPerSecondUSD / 5)) * 15 : 15;
-                    score += costScore * (1-qualityWeight) + (qualityScore / 10 * 15) * qualityWeight;
-                    
-                    if(calcMode === 'duration' && result.achievableDuration > 0) {
-                        score += Math.min(20, result.achievableDuration / 2);
-                    }
+    return { scenarios: scenarios as Scenario[], saveScenario, renameScenario, duplicateScenario, deleteScenario };
+};
 
-                    scoredOptions.push({
-                        platformName: platform.platformName,
-                        planName: plan.planName,
-                        option: option,
-                        score,
-                        totalCost: result.totalCost,
-                        rawGenerationTimeDays: result.rawGenerationTimeDays,
-                        costPerSecondUSD,
-                        qualityScore,
-                        feasible: result.feasible,
-                        reasons,
-                        accountsNeeded: result.accountsNeeded,
-                        apiAvailable: platform.apiAvailable,
-                        achievableDuration: result.achievableDuration,
-                        plansAffordable: result.plansAffordable,
-                        monthlyCost: plan.monthlyCost,
-                    });
-                }
-            }
+const loadStoredScoringProfiles = (): ScoringProfile[] => {
+    try {
+        const stored = window.localStorage.getItem(SCORING_PROFILES_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed.filter(isRecord).filter(profile => typeof profile.id === 'string' && typeof profile.name === 'string')
+            .map(profile => ({ id: profile.id as string, name: profile.name as string, weights: sanitizeScoringWeights(profile.weights) })) : [];
+    } catch (error) { console.error('Failed to load scoring profiles:', error); }
+    return [];
+};
+
+const useScoringProfiles = () => {
+    const [profiles, setProfiles] = useState<ScoringProfile[]>(loadStoredScoringProfiles);
+
+    useEffect(() => {
+        try {
+            window.localStorage.setItem(SCORING_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+        } catch (error) { console.error('Failed to persist scoring profiles:', error); }
+    }, [profiles]);
+
+    // Saving under an existing name overwrites that profile
+    const saveProfile = useCallback((name: string, weights: ScoringWeights) => {
+        setProfiles((prev: ScoringProfile[]) => prev.some(profile => profile.name === name)
+            ? prev.map(profile => profile.name === name ? { ...profile, weights } : profile)
+            : [...prev, { id: createId('scoring'), name, weights }]);
+    }, []);
+    const deleteProfile = useCallback((id: string) => {
+        setProfiles((prev: ScoringProfile[]) => prev.filter(profile => profile.id !== id));
+    }, []);
+
+    return { profiles: profiles as ScoringProfile[], saveProfile, deleteProfile };
+};
+
+const CURRENCIES: CurrencyCode[] = ['USD', 'EUR', 'GBP'];
+
+const loadStoredMoneySettings = (): MoneySettings => {
+    try {
+        const stored = window.localStorage.getItem(MONEY_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : null;
+        if (isRecord(parsed)) {
+            const rates = isRecord(parsed.rates) ? parsed.rates : {};
+            return {
+                currency: pickEnum(parsed.currency, CURRENCIES, DEFAULT_MONEY_SETTINGS.currency),
+                rates: { ...DEFAULT_MONEY_SETTINGS.rates, ...Object.fromEntries(CURRENCIES.map(code => [code, clampNumber(rates[code], MONEY_LIMITS.rate, DEFAULT_MONEY_SETTINGS.rates[code])])), USD: 1 },
+                vatPercent: clampNumber(parsed.vatPercent, MONEY_LIMITS.vatPercent, DEFAULT_MONEY_SETTINGS.vatPercent),
+            };
         }
-        
-        scoredOptions.sort((a, b) => {
-             if (a.feasible !== b.feasible) return a.feasible ? -1 : 1;
-             return b.score - a.score;
-        });
+    } catch (error) { console.error('Failed to load money settings:', error); }
+    return DEFAULT_MONEY_SETTINGS;
+};
 
-        setSortedPlatforms(scoredOptions);
-        setPrimaryRecommendation(scoredOptions.find(p => p.feasible) || scoredOptions[0] || null);
-    }, [inputs]);
+const useMoneySettings = () => {
+    const [money, setMoney] = useState<MoneySettings>(loadStoredMoneySettings);
 
     useEffect(() => {
-        calculate();
-    }, [calculate]);
+        try {
+            window.localStorage.setItem(MONEY_STORAGE_KEY, JSON.stringify(money));
+        } catch (error) { console.error('Failed to persist money settings:', error); }
+    }, [money]);
 
-    return { primaryRecommendation, sortedPlatforms };
+    return { money: money as MoneySettings, setMoney };
 };
 
+const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
 const Portal = ({ children }) => {
     const [mounted, setMounted] = useState(false);
     useEffect(() => {
@@ -546,7 +589,6 @@ const HighlightWrapper = ({ children, highlightId, activeHighlightId }: { childr
 
 const DownloadIcon = () => React.createElement('svg', { xmlns: "http://www.w3.org/2000/svg", width: "20", height: "20", viewBox: "0 0 24 24", fill: "none", stroke: "currentColor", strokeWidth: "2", strokeLinecap: "round", strokeLinejoin: "round" },
     React.createElement('path', { d: "M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" }),
-    React.createElement('polyline', { points: "7 10 12 15 17 10" }),
     React.createElement('line', { x1: "12", y1: "15", x2: "12", y2: "3" })
 );
 
@@ -680,14 +722,14 @@ const CollapsibleSection = ({ title, icon, badgeText, defaultOpen = false, child
 };
 
 
-const InputField = ({ label, id, type, value, onChange, min, max, displayValue, disabled = false, tooltip = null, highlightId, activeHighlightId, onHighlight }) => (
+const InputField = ({ label, id, type, value, onChange, min, max, step = undefined, displayValue, disabled = false, tooltip = null, highlightId, activeHighlightId, onHighlight }) => (
     React.createElement('div', { className: `mb-6 ${disabled ? 'opacity-50' : ''}` },
       React.createElement(HighlightWrapper, { highlightId, activeHighlightId },
         React.createElement('div', { className: "flex items-center mb-2" },
             React.createElement('label', { htmlFor: id, className: "block text-blue-900 font-semibold" }, label),
             React.createElement(InfoTooltip, { content: tooltip, highlightId, onHighlight })
         ),
-        React.createElement('input', { id, name: id, type, value, onChange, min, max, disabled, className: "w-full px-4 py-2 border-2 border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition disabled:bg-slate-100" }),
+        React.createElement('input', { id, name: id, type, value, onChange, min, max, step, disabled, className: "w-full px-4 py-2 border-2 border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition disabled:bg-slate-100" }),
         displayValue && React.createElement('div', { className: "text-center text-sm text-slate-600 bg-slate-100 py-1.5 px-3 mt-2 rounded-md font-medium" }, displayValue)
       )
     )
@@ -721,7 +763,441 @@ const SelectField = ({ label, id, value, onChange, options, tooltip = null, high
     )
 );
 
-const PrimaryRecommendation = ({ platform, inputs, activeHighlightId, onHighlight }: { platform: ScoredPlatform | null, inputs: RecommendationInputs, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+const ShotListEditor = ({ shots, onChange, disabled = false, activeHighlightId, onHighlight }: { shots: Shot[], onChange: (shots: Shot[]) => void, disabled?: boolean, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const updateShot = (id: string, changes: Partial<Shot>) => onChange(shots.map(shot => shot.id === id ? { ...shot, ...changes } : shot));
+    const duplicateShot = (id: string) => onChange(shots.flatMap(shot => shot.id === id ? [shot, { ...shot, id: createId('shot') }] : [shot]));
+    const removeShot = (id: string) => onChange(shots.filter(shot => shot.id !== id));
+    const addShot = () => onChange([...shots, { id: createId('shot'), lengthSec: 5, count: 1, audio: false, resolution: '1080p' }]);
+
+    const totalShots = shots.reduce((sum, shot) => sum + shot.count, 0);
+    const inputClass = "w-full px-2 py-1.5 border-2 border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition disabled:bg-slate-100 text-sm";
+    const iconButtonClass = "text-xs font-semibold px-2 py-1.5 rounded-md transition-colors disabled:opacity-50";
+
+    return React.createElement('div', { className: `mb-6 ${disabled ? 'opacity-50 pointer-events-none' : ''}` },
+      React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.SHOT_LIST, activeHighlightId },
+        React.createElement('div', { className: "flex items-center mb-2" },
+            React.createElement('span', { className: "block text-blue-900 font-semibold" }, "Shot List"),
+            React.createElement(InfoTooltip, { content: "Each row is a group of identical shots. Every shot is costed against each model on its own, so a 3s shot on a 5s model still uses a full clip. Shots that need audio or a higher resolution rule out models that can't deliver it.", highlightId: HIGHLIGHT_IDS.SHOT_LIST, onHighlight })
+        ),
+        React.createElement('div', { className: "space-y-2" },
+            shots.map((shot, index) => React.createElement('div', { key: shot.id, className: "bg-slate-50 border border-slate-200 rounded-lg p-2" },
+                React.createElement('div', { className: "flex justify-between items-center mb-1.5" },
+                    React.createElement('span', { className: "text-xs font-semibold text-slate-500 uppercase" }, `Shot ${index + 1}`),
+                    React.createElement('div', { className: "flex gap-1" },
+                        React.createElement('button', { type: 'button', onClick: () => duplicateShot(shot.id), disabled, title: "Duplicate shot", className: `${iconButtonClass} text-blue-700 hover:bg-blue-100` }, "Duplicate"),
+                        React.createElement('button', { type: 'button', onClick: () => removeShot(shot.id), disabled: disabled || shots.length <= 1, title: "Remove shot", className: `${iconButtonClass} text-red-700 hover:bg-red-100` }, "Remove")
+                    )
+                ),
+                React.createElement('div', { className: "grid grid-cols-2 sm:grid-cols-4 gap-2 items-end" },
+                    React.createElement('label', { className: "text-xs text-slate-600" }, "Length (s)",
+                        React.createElement('input', { type: 'number', ...INPUT_LIMITS.shotLengthSec, value: shot.lengthSec, disabled, onChange: (e: { target: HTMLInputElement }) => updateShot(shot.id, { lengthSec: Math.max(0, Number(e.target.value)) }), className: inputClass })
+                    ),
+                    React.createElement('label', { className: "text-xs text-slate-600" }, "Count",
+                        React.createElement('input', { type: 'number', ...INPUT_LIMITS.shotCount, value: shot.count, disabled, onChange: (e: { target: HTMLInputElement }) => updateShot(shot.id, { count: Math.max(0, Math.round(Number(e.target.value))) }), className: inputClass })
+                    ),
+                    React.createElement('label', { className: "text-xs text-slate-600" }, "Min. Resolution",
+                        React.createElement('select', { value: shot.resolution, disabled, onChange: (e: { target: HTMLSelectElement }) => updateShot(shot.id, { resolution: e.target.value as Option['resolution'] }), className: `${inputClass} bg-white` },
+                            (Object.keys(RESOLUTION_RANK) as Option['resolution'][]).map(res => React.createElement('option', { key: res, value: res }, res))
+                        )
+                    ),
+                    React.createElement('label', { className: "flex items-center gap-2 text-xs text-slate-600 py-2" },
+                        React.createElement('input', { type: 'checkbox', checked: shot.audio, disabled, onChange: (e: { target: HTMLInputElement }) => updateShot(shot.id, { audio: e.target.checked }) }),
+                        "Needs audio"
+                    )
+                )
+            ))
+        ),
+        React.createElement('button', { type: 'button', onClick: addShot, disabled, className: "w-full mt-2 py-2 border-2 border-dashed border-blue-300 text-blue-700 text-sm font-semibold rounded-lg hover:bg-blue-50 transition-colors" }, "+ Add Shot"),
+        React.createElement('div', { className: "text-center text-sm text-slate-600 bg-slate-100 py-1.5 px-3 mt-2 rounded-md font-medium" }, `${totalShots.toLocaleString()} shots · ${Math.round(getShotListDurationMinutes(shots) * 10) / 10} minutes of content`),
+        getShotListDurationMinutes(shots) === 0 && React.createElement('p', { className: "text-xs text-red-600 mt-1" }, "Add at least one shot with a length and count above zero.")
+      )
+    );
+};
+
+const DeliverablesEditor = ({ deliverables, onChange, activeHighlightId, onHighlight }: { deliverables: Deliverable[], onChange: (deliverables: Deliverable[]) => void, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const updateDeliverable = (id: string, changes: Partial<Deliverable>) => onChange(deliverables.map(d => d.id === id ? { ...d, ...changes } : d));
+    const removeDeliverable = (id: string) => onChange(deliverables.filter(d => d.id !== id));
+    const addDeliverable = () => onChange([...deliverables, { id: createId('deliverable'), name: `Deliverable ${deliverables.length + 1}`, lengthSec: 15, count: 1, audio: false, minQualityScore: 0 }]);
+
+    const totalPieces = deliverables.reduce((sum, d) => sum + d.count, 0);
+    const inputClass = "w-full px-2 py-1.5 border-2 border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm";
+
+    return React.createElement('div', { className: "mb-6" },
+      React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.DELIVERABLES, activeHighlightId },
+        React.createElement('div', { className: "flex items-center mb-2" },
+            React.createElement('span', { className: "block text-blue-900 font-semibold" }, "Deliverables"),
+            React.createElement(InfoTooltip, { content: "Each row is one deliverable of the campaign, e.g. a hero film, its cutdowns and the bumpers. They share the budget, the deadline and any subscriptions bought, and the plan reports what each one costs. A quality floor rules out models scoring below it for that deliverable only.", highlightId: HIGHLIGHT_IDS.DELIVERABLES, onHighlight })
+        ),
+        React.createElement('div', { className: "space-y-2" },
+            deliverables.map(deliverable => React.createElement('div', { key: deliverable.id, className: "bg-slate-50 border border-slate-200 rounded-lg p-2" },
+                React.createElement('div', { className: "flex justify-between items-center gap-2 mb-1.5" },
+                    React.createElement('input', { type: 'text', value: deliverable.name, 'aria-label': "Deliverable name", onChange: (e: { target: HTMLInputElement }) => updateDeliverable(deliverable.id, { name: e.target.value }), className: `${inputClass} font-semibold` }),
+                    React.createElement('button', { type: 'button', onClick: () => removeDeliverable(deliverable.id), disabled: deliverables.length <= 1, title: "Remove deliverable", className: "text-xs font-semibold px-2 py-1.5 rounded-md transition-colors disabled:opacity-50 text-red-700 hover:bg-red-100" }, "Remove")
+                ),
+                React.createElement('div', { className: "grid grid-cols-2 sm:grid-cols-4 gap-2 items-end" },
+                    React.createElement('label', { className: "text-xs text-slate-600" }, "Length (s)",
+                        React.createElement('input', { type: 'number', ...INPUT_LIMITS.deliverableLengthSec, value: deliverable.lengthSec, onChange: (e: { target: HTMLInputElement }) => updateDeliverable(deliverable.id, { lengthSec: Math.max(0, Number(e.target.value)) }), className: inputClass })
+                    ),
+                    React.createElement('label', { className: "text-xs text-slate-600" }, "Count",
+                        React.createElement('input', { type: 'number', ...INPUT_LIMITS.shotCount, value: deliverable.count, onChange: (e: { target: HTMLInputElement }) => updateDeliverable(deliverable.id, { count: Math.max(0, Math.round(Number(e.target.value))) }), className: inputClass })
+                    ),
+                    React.createElement('label', { className: "text-xs text-slate-600" }, "Quality Floor",
+                        React.createElement('input', { type: 'number', ...INPUT_LIMITS.minQualityScore, step: 0.5, value: deliverable.minQualityScore, onChange: (e: { target: HTMLInputElement }) => updateDeliverable(deliverable.id, { minQualityScore: Math.max(0, Number(e.target.value)) }), className: inputClass })
+                    ),
+                    React.createElement('label', { className: "flex items-center gap-2 text-xs text-slate-600 py-2" },
+                        React.createElement('input', { type: 'checkbox', checked: deliverable.audio, onChange: (e: { target: HTMLInputElement }) => updateDeliverable(deliverable.id, { audio: e.target.checked }) }),
+                        "Needs audio"
+                    )
+                )
+            ))
+        ),
+        React.createElement('button', { type: 'button', onClick: addDeliverable, className: "w-full mt-2 py-2 border-2 border-dashed border-blue-300 text-blue-700 text-sm font-semibold rounded-lg hover:bg-blue-50 transition-colors" }, "+ Add Deliverable"),
+        React.createElement('div', { className: "text-center text-sm text-slate-600 bg-slate-100 py-1.5 px-3 mt-2 rounded-md font-medium" }, `${totalPieces.toLocaleString()} pieces · ${Math.round(getShotListDurationMinutes(deliverables) * 10) / 10} minutes of content`),
+        getShotListDurationMinutes(deliverables) === 0 && React.createElement('p', { className: "text-xs text-red-600 mt-1" }, "Add at least one deliverable with a length and count above zero.")
+      )
+    );
+};
+
+const TakeRateOverridesEditor = ({ overrides, catalog, onChange, activeHighlightId }: { overrides: TakeRateOverride[], catalog: Platform[], onChange: (overrides: TakeRateOverride[]) => void, activeHighlightId: HighlightId }) => {
+    const updateOverride = (id: string, changes: Partial<TakeRateOverride>) => onChange(overrides.map(o => o.id === id ? { ...o, ...changes } : o));
+    const removeOverride = (id: string) => onChange(overrides.filter(o => o.id !== id));
+    const addOverride = () => onChange([...overrides, { id: createId('take-rate'), platformName: catalog[0]?.platformName ?? '', modelName: null, takes: 3 }]);
+    const getModelNames = (platformName: string) => {
+        const platform = catalog.find(p => p.platformName === platformName);
+        return platform ? Array.from(new Set(platform.plans.flatMap(plan => plan.options.map(o => o.modelName)))) : [];
+    };
+    const inputClass = "w-full px-2 py-1.5 border-2 border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm bg-white";
+
+    return React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.TAKE_RATE, activeHighlightId },
+      React.createElement('div', { className: "mb-6 space-y-2" },
+        overrides.map(o => React.createElement('div', { key: o.id, className: "grid grid-cols-2 sm:grid-cols-[1fr_1fr_5rem_auto] gap-2 items-end bg-slate-50 border border-slate-200 rounded-lg p-2" },
+            React.createElement('label', { className: "text-xs text-slate-600" }, "Platform",
+                React.createElement('select', { value: o.platformName, onChange: (e: { target: HTMLSelectElement }) => updateOverride(o.id, { platformName: e.target.value, modelName: null }), className: inputClass },
+                    catalog.map(p => React.createElement('option', { key: p.platformName, value: p.platformName }, p.platformName))
+                )
+            ),
+            React.createElement('label', { className: "text-xs text-slate-600" }, "Model",
+                React.createElement('select', { value: o.modelName ?? '', onChange: (e: { target: HTMLSelectElement }) => updateOverride(o.id, { modelName: e.target.value || null }), className: inputClass },
+                    React.createElement('option', { value: '' }, 'All models'),
+                    getModelNames(o.platformName).map(name => React.createElement('option', { key: name, value: name }, name))
+                )
+            ),
+            React.createElement('label', { className: "text-xs text-slate-600" }, "Takes",
+                React.createElement('input', { type: 'number', ...INPUT_LIMITS.takesPerClip, step: 0.5, value: o.takes, onChange: (e: { target: HTMLInputElement }) => updateOverride(o.id, { takes: Number(e.target.value) }), className: inputClass })
+            ),
+            React.createElement('button', { type: 'button', onClick: () => removeOverride(o.id), title: "Remove override", className: "text-xs font-semibold px-2 py-1.5 rounded-md text-red-700 hover:bg-red-100 transition-colors" }, "Remove")
+        )),
+        React.createElement('button', { type: 'button', onClick: addOverride, className: "w-full py-2 border-2 border-dashed border-blue-300 text-blue-700 text-sm font-semibold rounded-lg hover:bg-blue-50 transition-colors" }, "+ Add Platform/Model Take Rate")
+      )
+    );
+};
+
+// Monday first; values follow Date.getDay()
+const WEEKDAYS = [{ day: 1, label: 'Mon' }, { day: 2, label: 'Tue' }, { day: 3, label: 'Wed' }, { day: 4, label: 'Thu' }, { day: 5, label: 'Fri' }, { day: 6, label: 'Sat' }, { day: 0, label: 'Sun' }];
+
+const WorkingCalendarEditor = ({ calendar, onChange, activeHighlightId, onHighlight }: { calendar: WorkingCalendar, onChange: (calendar: WorkingCalendar) => void, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const [newHoliday, setNewHoliday] = useState('');
+    const update = (changes: Partial<WorkingCalendar>) => onChange({ ...calendar, ...changes });
+    // At least one working day is kept, otherwise attended work would never finish
+    const toggleWorkday = (day: number) => {
+        const workdays = calendar.workdays.includes(day) ? calendar.workdays.filter(d => d !== day) : [...calendar.workdays, day].sort((a, b) => a - b);
+        if (workdays.length > 0) update({ workdays });
+    };
+    const addHoliday = () => {
+        if (!isIsoDate(newHoliday) || calendar.holidays.includes(newHoliday)) return;
+        update({ holidays: [...calendar.holidays, newHoliday].sort() });
+        setNewHoliday('');
+    };
+    const inputClass = "w-full px-2 py-1.5 border-2 border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm bg-white";
+
+    return React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.CALENDAR, activeHighlightId },
+      React.createElement('div', { className: "mb-6 bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-3" },
+        React.createElement('div', { className: "flex items-center" },
+            React.createElement('span', { className: "block text-sm font-semibold text-blue-900" }, "Working Calendar"),
+            React.createElement(InfoTooltip, { content: "Attended generation only happens during these hours on working days, skipping holidays. Generation time and completion dates are counted in calendar days from the start date.", highlightId: HIGHLIGHT_IDS.CALENDAR, onHighlight })
+        ),
+        React.createElement('label', { className: "block text-xs text-slate-600" }, "Hours per day",
+            React.createElement('input', { type: 'number', ...INPUT_LIMITS.hoursPerDay, step: 0.5, value: calendar.hoursPerDay, onChange: (e: { target: HTMLInputElement }) => update({ hoursPerDay: Number(e.target.value) }), className: inputClass })
+        ),
+        React.createElement('div', { className: "grid grid-cols-7 gap-1" },
+            WEEKDAYS.map(({ day, label }) => React.createElement('button', {
+                key: day, type: 'button', onClick: () => toggleWorkday(day), 'aria-pressed': calendar.workdays.includes(day),
+                className: `py-1 rounded-md text-xs font-semibold transition-colors ${calendar.workdays.includes(day) ? 'bg-blue-600 text-white' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'}`,
+            }, label))
+        ),
+        React.createElement('div', null,
+            React.createElement('div', { className: "grid grid-cols-[1fr_auto] gap-2 items-end" },
+                React.createElement('label', { className: "text-xs text-slate-600" }, "Holidays",
+                    React.createElement('input', { type: 'date', value: newHoliday, onChange: (e: { target: HTMLInputElement }) => setNewHoliday(e.target.value), className: inputClass })
+                ),
+                React.createElement('button', { type: 'button', onClick: addHoliday, disabled: !isIsoDate(newHoliday), className: "text-xs font-semibold px-3 py-2 rounded-md bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors disabled:opacity-50" }, "Add")
+            ),
+            calendar.holidays.length > 0 && React.createElement('div', { className: "flex flex-wrap gap-1 mt-2" },
+                calendar.holidays.map(holiday => React.createElement('span', { key: holiday, className: "inline-flex items-center gap-1 bg-white border border-slate-300 rounded-full px-2 py-0.5 text-xs text-slate-700" },
+                    formatDate(holiday),
+                    React.createElement('button', { type: 'button', onClick: () => update({ holidays: calendar.holidays.filter(h => h !== holiday) }), title: "Remove holiday", className: "text-red-600 hover:text-red-800 font-bold" }, "×")
+                ))
+            )
+        ),
+        React.createElement('div', { className: "flex items-center" },
+            React.createElement('input', { type: "checkbox", id: "unattendedApi", checked: calendar.unattendedApi, onChange: (e: { target: HTMLInputElement }) => update({ unattendedApi: e.target.checked }) }),
+            React.createElement('label', { htmlFor: "unattendedApi", className: "ml-3 block text-sm font-medium text-slate-700" }, "Unattended API runs 24h"),
+            React.createElement(InfoTooltip, { content: "API batch jobs keep generating around the clock, weekends and holidays included. Only applies to plans used through their API, which needs intermediate or expert expertise.", highlightId: HIGHLIGHT_IDS.CALENDAR, onHighlight })
+        )
+      )
+    );
+};
+
+const LaborEditor = ({ labor, money, disabled, onChange, activeHighlightId, onHighlight }: { labor: LaborInputs, money: MoneySettings, disabled: boolean, onChange: (labor: LaborInputs) => void, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const update = (changes: Partial<LaborInputs>) => onChange({ ...labor, ...changes });
+    const updateRole = (id: LaborTaskId, changes: Partial<LaborInputs['roles'][LaborTaskId]>) => update({ roles: { ...labor.roles, [id]: { ...labor.roles[id], ...changes } } });
+    const inputClass = "w-full px-2 py-1.5 border-2 border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm bg-white";
+    const workloadFields: { key: 'promptMinutesPerClip' | 'reviewMinutesPerClip' | 'editingHoursPerMinute'; label: string; step: number }[] = [
+        { key: 'promptMinutesPerClip', label: "Prompt min/clip", step: 1 },
+        { key: 'reviewMinutesPerClip', label: "Review min/take", step: 0.5 },
+        { key: 'editingHoursPerMinute', label: "Edit h/final min", step: 0.5 },
+    ];
+
+    return React.createElement('div', { className: `mb-6 ${disabled ? 'opacity-50 pointer-events-none' : ''}` },
+      React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.LABOR, activeHighlightId },
+        React.createElement('div', { className: "flex items-center mb-4 bg-slate-50 p-3 rounded-lg border border-slate-200" },
+            React.createElement('input', { type: "checkbox", id: "laborEnabled", checked: !disabled && labor.enabled, onChange: (e: { target: HTMLInputElement }) => update({ enabled: e.target.checked }), disabled }),
+            React.createElement('label', { htmlFor: "laborEnabled", className: "ml-3 block text-sm font-medium text-slate-700" }, "Include Labor & Post-Production"),
+            React.createElement(InfoTooltip, { content: disabled ? "Labor costing is only available in 'Calculate Cost' mode, where the project scope is fixed." : "Adds human work to the cost and the timeline: prompting every usable clip (more on technical platforms), reviewing every take and editing the final cut. Each role is one person working the working calendar's hours, after generation is done.", highlightId: HIGHLIGHT_IDS.LABOR, onHighlight })
+        ),
+        !disabled && labor.enabled && React.createElement('div', { className: "space-y-2 pl-2 border-l-2 border-blue-200 ml-2" },
+            LABOR_TASKS.map(({ id, label }) => React.createElement('div', { key: id, className: "grid grid-cols-[5rem_1fr_6rem] gap-2 items-end" },
+                React.createElement('span', { className: "text-xs font-semibold text-slate-600 pb-2" }, label),
+                React.createElement('label', { className: "text-xs text-slate-600" }, "Role",
+                    React.createElement('input', { type: 'text', value: labor.roles[id].role, onChange: (e: { target: HTMLInputElement }) => updateRole(id, { role: e.target.value }), className: inputClass })
+                ),
+                React.createElement('label', { className: "text-xs text-slate-600" }, `${getCurrencySymbol(money)}/hour`,
+                    React.createElement('input', { type: 'number', min: 0, value: Math.round(convertFromUSD(labor.roles[id].hourlyRate, money)), onChange: (e: { target: HTMLInputElement }) => updateRole(id, { hourlyRate: convertToUSD(Number(e.target.value), money) }), className: inputClass })
+                )
+            )),
+            React.createElement('div', { className: "grid grid-cols-3 gap-2" },
+                workloadFields.map(({ key, label, step }) => React.createElement('label', { key, className: "text-xs text-slate-600" }, label,
+                    React.createElement('input', { type: 'number', ...INPUT_LIMITS[key], step, value: labor[key], onChange: (e: { target: HTMLInputElement }) => update({ [key]: Number(e.target.value) }), className: inputClass })
+                ))
+            )
+        )
+      )
+    );
+};
+
+const ConstraintFiltersEditor = ({ constraints, catalog, onChange, activeHighlightId, onHighlight }: { constraints: ConstraintFilters, catalog: Platform[], onChange: (constraints: ConstraintFilters) => void, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const update = (changes: Partial<ConstraintFilters>) => onChange({ ...constraints, ...changes });
+    const toggle = <T extends string>(list: T[], value: T) => list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+    const activeCount = [constraints.minResolution, constraints.maxTechLevel, constraints.requireApi || null, constraints.requiredFeatures.length > 0 || null, constraints.platforms.length > 0 || null].filter(value => value !== null).length;
+    const selectClass = "w-full px-2 py-1.5 border-2 border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm bg-white";
+
+    return React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.CONSTRAINTS, activeHighlightId },
+      React.createElement('div', { className: "mb-6 bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-3" },
+        React.createElement('div', { className: "flex items-center" },
+            React.createElement('span', { className: "block text-sm font-semibold text-blue-900" }, `Hard Constraints${activeCount > 0 ? ` (${activeCount} active)` : ''}`),
+            React.createElement(InfoTooltip, { content: "Client or legal requirements. Options breaking any of them are marked not feasible, with the reason listed, and the portfolio optimizer leaves them out.", highlightId: HIGHLIGHT_IDS.CONSTRAINTS, onHighlight })
+        ),
+        React.createElement('div', { className: "grid grid-cols-2 gap-2" },
+            React.createElement('label', { className: "text-xs text-slate-600" }, "Minimum resolution",
+                React.createElement('select', { value: constraints.minResolution ?? '', onChange: (e: { target: HTMLSelectElement }) => update({ minResolution: (e.target.value || null) as ConstraintFilters['minResolution'] }), className: selectClass },
+                    React.createElement('option', { value: '' }, 'Any'),
+                    Object.keys(RESOLUTION_RANK).map(resolution => React.createElement('option', { key: resolution, value: resolution }, resolution))
+                )
+            ),
+            React.createElement('label', { className: "text-xs text-slate-600" }, "Most technical platform",
+                React.createElement('select', { value: constraints.maxTechLevel ?? '', onChange: (e: { target: HTMLSelectElement }) => update({ maxTechLevel: (e.target.value || null) as ConstraintFilters['maxTechLevel'] }), className: selectClass },
+                    React.createElement('option', { value: '' }, 'Any'),
+                    TECH_LEVELS.map(level => React.createElement('option', { key: level, value: level }, level))
+                )
+            )
+        ),
+        React.createElement('label', { className: "flex items-center gap-2 text-sm text-slate-700" },
+            React.createElement('input', { type: "checkbox", checked: constraints.requireApi, onChange: (e: { target: HTMLInputElement }) => update({ requireApi: e.target.checked }) }),
+            "Require API access"
+        ),
+        React.createElement('div', null,
+            React.createElement('p', { className: "text-xs text-slate-600 mb-1" }, "Required features"),
+            React.createElement('div', { className: "flex flex-wrap gap-x-3 gap-y-1" },
+                OPTION_FEATURES.map(feature => React.createElement('label', { key: feature, className: "flex items-center gap-1 text-xs text-slate-700" },
+                    React.createElement('input', { type: "checkbox", checked: constraints.requiredFeatures.includes(feature), onChange: () => update({ requiredFeatures: toggle(constraints.requiredFeatures, feature) }) }),
+                    feature
+                ))
+            )
+        ),
+        React.createElement('div', null,
+            React.createElement('div', { className: "flex items-center gap-2 mb-1" },
+                React.createElement('span', { className: "text-xs text-slate-600" }, "Platforms:"),
+                React.createElement('select', { value: constraints.platformMode, onChange: (e: { target: HTMLSelectElement }) => update({ platformMode: e.target.value as ConstraintFilters['platformMode'] }), className: "px-2 py-1 border-2 border-slate-300 rounded-md text-xs bg-white" },
+                    React.createElement('option', { value: 'exclude' }, 'Exclude checked'),
+                    React.createElement('option', { value: 'include' }, 'Only allow checked')
+                )
+            ),
+            React.createElement('div', { className: "grid grid-cols-1 sm:grid-cols-2 gap-1" },
+                catalog.map(platform => React.createElement('label', { key: platform.platformName, className: "flex items-center gap-1 text-xs text-slate-700" },
+                    React.createElement('input', { type: "checkbox", checked: constraints.platforms.includes(platform.platformName), onChange: () => update({ platforms: toggle(constraints.platforms, platform.platformName) }) }),
+                    platform.platformName
+                ))
+            )
+        )
+      )
+    );
+};
+
+const DeliverySpecEditor = ({ spec, money, isCostMode, onChange, activeHighlightId, onHighlight }: { spec: DeliverySpec, money: MoneySettings, isCostMode: boolean, onChange: (spec: DeliverySpec) => void, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const update = (changes: Partial<DeliverySpec>) => onChange({ ...spec, ...changes });
+    const selectClass = "w-full px-2 py-1.5 border-2 border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm bg-white";
+    const needsPost = spec.frameRate !== null || (spec.resolution !== null && spec.allowUpscaling);
+    const postFields: { key: 'upscaleCostPerMinute' | 'upscaleHoursPerMinute' | 'conformCostPerMinute' | 'conformHoursPerMinute'; label: string; isMoney: boolean }[] = [
+        { key: 'upscaleCostPerMinute', label: `Upscale ${getCurrencySymbol(money)}/min`, isMoney: true },
+        { key: 'upscaleHoursPerMinute', label: "Upscale h/min", isMoney: false },
+        { key: 'conformCostPerMinute', label: `FPS convert ${getCurrencySymbol(money)}/min`, isMoney: true },
+        { key: 'conformHoursPerMinute', label: "FPS convert h/min", isMoney: false },
+    ];
+
+    return React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.DELIVERY, activeHighlightId },
+      React.createElement('div', { className: "mb-6 bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-3" },
+        React.createElement('div', { className: "flex items-center" },
+            React.createElement('span', { className: "block text-sm font-semibold text-blue-900" }, "Delivery Spec"),
+            React.createElement(InfoTooltip, { content: `Models must output every delivery aspect ratio natively. Models below the delivery resolution are upscaled, and other frame rates converted, after generation${isCostMode ? ', adding cost and time' : ''}. Models without quality data in the catalog can't be checked for ratio or frame rate.`, highlightId: HIGHLIGHT_IDS.DELIVERY, onHighlight })
+        ),
+        React.createElement('div', null,
+            React.createElement('p', { className: "text-xs text-slate-600 mb-1" }, "Aspect ratios"),
+            React.createElement('div', { className: "flex flex-wrap gap-x-3 gap-y-1" },
+                ASPECT_RATIOS.map(ratio => React.createElement('label', { key: ratio, className: "flex items-center gap-1 text-xs text-slate-700" },
+                    React.createElement('input', { type: "checkbox", checked: spec.aspectRatios.includes(ratio), onChange: (e: { target: HTMLInputElement }) => update({ aspectRatios: e.target.checked ? [...spec.aspectRatios, ratio] : spec.aspectRatios.filter(r => r !== ratio) }) }),
+                    ratio
+                ))
+            )
+        ),
+        React.createElement('div', { className: "grid grid-cols-2 gap-2" },
+            React.createElement('label', { className: "text-xs text-slate-600" }, "Frame rate",
+                React.createElement('select', { value: spec.frameRate ?? '', onChange: (e: { target: HTMLSelectElement }) => update({ frameRate: e.target.value ? Number(e.target.value) : null }), className: selectClass },
+                    React.createElement('option', { value: '' }, "Model's own"),
+                    DELIVERY_FRAME_RATES.map(fps => React.createElement('option', { key: fps, value: fps }, `${fps} fps`))
+                )
+            ),
+            React.createElement('label', { className: "text-xs text-slate-600" }, "Resolution",
+                React.createElement('select', { value: spec.resolution ?? '', onChange: (e: { target: HTMLSelectElement }) => update({ resolution: (e.target.value || null) as DeliverySpec['resolution'] }), className: selectClass },
+                    React.createElement('option', { value: '' }, "Model's own"),
+                    Object.keys(RESOLUTION_RANK).map(resolution => React.createElement('option', { key: resolution, value: resolution }, resolution))
+                )
+            )
+        ),
+        React.createElement('label', { className: "flex items-center gap-2 text-sm text-slate-700" },
+            React.createElement('input', { type: "checkbox", checked: spec.allowUpscaling, onChange: (e: { target: HTMLInputElement }) => update({ allowUpscaling: e.target.checked }) }),
+            "Allow upscaling to the delivery resolution"
+        ),
+        isCostMode && needsPost && React.createElement('div', { className: "grid grid-cols-2 gap-2" },
+            postFields.map(({ key, label, isMoney }) => React.createElement('label', { key, className: "text-xs text-slate-600" }, label,
+                React.createElement('input', {
+                    type: 'number', min: 0, step: isMoney ? 1 : 0.25,
+                    value: isMoney ? Math.round(convertFromUSD(spec[key], money) * 100) / 100 : spec[key],
+                    onChange: (e: { target: HTMLInputElement }) => update({ [key]: isMoney ? convertToUSD(Number(e.target.value), money) : Number(e.target.value) }),
+                    className: selectClass,
+                })
+            ))
+        )
+      )
+    );
+};
+
+const describeTopUp = (topUp: TopUp) => [
+    ...topUp.packs.map(pack => `${pack.count} × ${pack.units.toLocaleString()}-${topUp.unit} pack`),
+    ...(topUp.overageUnits > 0 ? [`${Math.ceil(topUp.overageUnits).toLocaleString()} ${topUp.unit} overage`] : []),
+].join(' + ');
+
+// e.g. "2 × Pro for 3 months + 1 × 1,000-credits pack ($15)"
+const describePurchase = (planName: string, schedule: MonthlySpend[], topUp: TopUp | null, money: MoneySettings) => {
+    const subscribedMonths = schedule.filter(month => month.subscriptions > 0);
+    if (subscribedMonths.length === 0) return 'Pay-per-use';
+    const counts = new Set(subscribedMonths.map(month => month.subscriptions));
+    const subscriptions = counts.size === 1
+        ? `${subscribedMonths[0].subscriptions} × ${planName} for ${subscribedMonths.length} month${subscribedMonths.length > 1 ? 's' : ''}`
+        : `${subscribedMonths.reduce((sum, month) => sum + month.subscriptions, 0)} ${planName} subscription-months over ${subscribedMonths.length} months`;
+    return topUp ? `${subscriptions} + ${describeTopUp(topUp)} (${formatMoney(topUp.cost, money)})` : subscriptions;
+};
+
+const SpendSchedule = ({ schedule, money }: { schedule: MonthlySpend[], money: MoneySettings }) => {
+    if (schedule.length === 0) return null;
+    return React.createElement('div', { className: "text-xs text-left" },
+        React.createElement('p', { className: "font-semibold text-slate-500 uppercase mb-1" }, "Spend by Month"),
+        React.createElement('ul', { className: "divide-y divide-slate-200/70" },
+            schedule.map(month => React.createElement('li', { key: month.month, className: "flex justify-between gap-2 py-1" },
+                React.createElement('span', { className: "text-slate-600" }, `Month ${month.month}${month.subscriptions > 0 ? ` · ${month.subscriptions} subscription${month.subscriptions > 1 ? 's' : ''}` : ' · pay-per-use'}`),
+                React.createElement('span', { className: "font-semibold text-slate-800" }, formatMoney(month.cost, money))
+            ))
+        )
+    );
+};
+
+const formatPoints = (points: number) => `${points > 0 ? '+' : ''}${points.toFixed(1)}`;
+
+// One bar per quality attribute on a shared scale: the grey track is what the attribute could add, the fill
+// what this option gets. Penalties such as a watermark are drawn in red.
+const QualityBars = ({ breakdown, qualityScore, rated }: { breakdown: QualityContribution[], qualityScore: number, rated: boolean }) => {
+    const scale = Math.max(0.01, ...breakdown.map(attribute => Math.max(attribute.maxPoints, Math.abs(attribute.points))));
+    const percent = (points: number) => `${Math.min(100, Math.abs(points) / scale * 100)}%`;
+    return React.createElement('div', { className: "mt-3 pt-2 border-t border-slate-200" },
+        React.createElement('p', { className: "font-semibold text-slate-500 uppercase mb-1" }, `Quality attributes (${qualityScore.toFixed(1)}/10)`),
+        breakdown.map(attribute => React.createElement('div', { key: attribute.id, className: "grid grid-cols-[8rem_minmax(0,1fr)_3rem] gap-2 items-center py-0.5" },
+            React.createElement('span', { className: "truncate", title: attribute.detail }, attribute.label),
+            React.createElement('div', { className: "relative h-3 bg-slate-100 rounded", title: attribute.detail },
+                React.createElement('div', { className: "absolute inset-y-0 left-0 bg-slate-200 rounded", style: { width: percent(attribute.maxPoints) } }),
+                React.createElement('div', { className: `absolute inset-y-0 left-0 rounded ${attribute.points < 0 ? 'bg-red-400' : 'bg-blue-500'}`, style: { width: percent(attribute.points) } })
+            ),
+            React.createElement('span', { className: `text-right font-semibold ${attribute.points < 0 ? 'text-red-600' : 'text-slate-700'}` }, formatPoints(attribute.points))
+        )),
+        !rated && React.createElement('p', { className: "text-slate-500 mt-1" }, "This model has no quality data in the catalog, so the rated attributes add nothing.")
+    );
+};
+
+// Lists what each scoring component contributed and how far the next-ranked option trailed on it
+const ScoreBreakdownPanel = ({ platform, runnerUp, money }: { platform: ScoredPlatform, runnerUp: ScoredPlatform | null, money: MoneySettings }) => {
+    const getRunnerUpPoints = (id: ScoreComponentId) => runnerUp?.scoreBreakdown.find(c => c.id === id)?.points ?? 0;
+    const gridClass = `grid ${runnerUp ? 'grid-cols-[minmax(0,1fr)_3.5rem_3.5rem_3.5rem_3.5rem]' : 'grid-cols-[minmax(0,1fr)_3.5rem_3.5rem]'} gap-2 items-baseline`;
+    const LeadCell = ({ lead }: { lead: number }) => React.createElement('span', { className: `text-right font-semibold ${lead > 0.05 ? 'text-emerald-600' : lead < -0.05 ? 'text-red-600' : 'text-slate-400'}` }, formatPoints(lead));
+
+    return React.createElement('div', { className: "bg-white border border-slate-200 rounded-lg p-3 text-xs text-left text-slate-700" },
+        runnerUp && React.createElement('p', { className: 'text-slate-500 mb-2' }, `Compared with the next option: ${runnerUp.platformName} - ${runnerUp.planName} - ${runnerUp.option.modelName}`),
+        React.createElement('div', { className: `${gridClass} font-semibold text-slate-500 uppercase border-b border-slate-200 pb-1` },
+            React.createElement('span', null, 'Component'),
+            React.createElement('span', { className: 'text-right' }, 'Weight'),
+            React.createElement('span', { className: 'text-right' }, 'Points'),
+            runnerUp && React.createElement('span', { className: 'text-right' }, 'Next'),
+            runnerUp && React.createElement('span', { className: 'text-right' }, 'Lead')
+        ),
+        platform.scoreBreakdown.map(contribution => React.createElement('div', { key: contribution.id, className: `${gridClass} py-1.5 border-b border-slate-100` },
+            React.createElement('span', null,
+                React.createElement('span', { className: 'font-semibold text-slate-800' }, contribution.label),
+                React.createElement('span', { className: 'block text-slate-500' }, contribution.costRate
+                    ? `${formatMoney(contribution.costRate.usdPerSecond, money, 2)}/s, scaled against ${formatMoney(contribution.costRate.scaleUsdPerSecond, money, 2)}/s`
+                    : contribution.detail)
+            ),
+            React.createElement('span', { className: 'text-right text-slate-500' }, contribution.weight === null ? 'Fixed' : `×${contribution.weight.toFixed(2)}`),
+            React.createElement('span', { className: 'text-right font-bold' }, formatPoints(contribution.points)),
+            runnerUp && React.createElement('span', { className: 'text-right text-slate-500' }, formatPoints(getRunnerUpPoints(contribution.id))),
+            runnerUp && React.createElement(LeadCell, { lead: contribution.points - getRunnerUpPoints(contribution.id) })
+        )),
+        React.createElement('div', { className: `${gridClass} pt-1.5 font-bold text-blue-900` },
+            React.createElement('span', null, 'Total score'),
+            React.createElement('span', null),
+            React.createElement('span', { className: 'text-right' }, platform.score.toFixed(1)),
+            runnerUp && React.createElement('span', { className: 'text-right text-slate-500' }, runnerUp.score.toFixed(1)),
+            runnerUp && React.createElement(LeadCell, { lead: platform.score - runnerUp.score })
+        ),
+        React.createElement(QualityBars, { breakdown: platform.qualityBreakdown, qualityScore: platform.qualityScore, rated: !!platform.option.quality })
+    );
+};
+
+const ScoreBreakdownToggle = ({ platform, runnerUp, money }: { platform: ScoredPlatform, runnerUp: ScoredPlatform | null, money: MoneySettings }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    return React.createElement('div', { className: 'mt-3' },
+        React.createElement('button', { onClick: () => setIsOpen(!isOpen), className: 'text-sm font-semibold text-blue-700 hover:text-blue-900' }, isOpen ? 'Hide score breakdown ▲' : 'Why this option? ▼'),
+        isOpen && React.createElement('div', { className: 'mt-2' }, React.createElement(ScoreBreakdownPanel, { platform, runnerUp, money }))
+    );
+};
+
+const PrimaryRecommendation = ({ platform, runnerUp, inputs, money, activeHighlightId, onHighlight }: { platform: ScoredPlatform | null, runnerUp: ScoredPlatform | null, inputs: RecommendationInputs, money: MoneySettings, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
     if (!platform) {
         return React.createElement('div', { className: "bg-gradient-to-br from-blue-50 to-blue-100 border-2 border-blue-500 rounded-xl p-5 text-center" },
             React.createElement('div', { className: "text-lg font-bold text-blue-900" }, "Calculating..."),
@@ -755,16 +1231,19 @@ const PrimaryRecommendation = ({ platform, inputs, activeHighlightId, onHighligh
          return React.createElement('div', { className: "bg-gradient-to-br from-blue-50 to-blue-100 border-2 border-blue-500 rounded-xl p-5" },
             React.createElement('div', { className: "text-xs font-semibold text-blue-600 uppercase tracking-wider" }, platform.platformName),
             React.createElement('div', { className: "text-xl font-bold text-blue-900 mb-3" }, `${platform.planName} - ${platform.option.modelName}`),
-            React.createElement(BreakdownDetail, { label: "Budget", value: `$${inputs.budget.toLocaleString()}`, tooltipText: "Your total available budget.", highlightId: HIGHLIGHT_IDS.BUDGET }),
-            React.createElement(BreakdownDetail, { label: "Plan Cost", value: `$${platform.monthlyCost.toLocaleString()}/mo`, tooltipText: "The cost of a single subscription for this plan.", highlightId: HIGHLIGHT_IDS.PLAN_COST }),
-            React.createElement(BreakdownDetail, { label: "Subscriptions Purchased", value: platform.plansAffordable.toLocaleString(), tooltipText: "The number of monthly subscriptions that can be purchased within your budget.", highlightId: HIGHLIGHT_IDS.PLAN_COST }),
+            React.createElement(BreakdownDetail, { label: "Budget", value: formatMoney(inputs.budget, money), tooltipText: "Your total available budget.", highlightId: HIGHLIGHT_IDS.BUDGET }),
+            React.createElement(BreakdownDetail, { label: "Plan Cost", value: `${formatMoney(platform.monthlyCost ?? 0, money)}/mo`, tooltipText: "The cost of a single subscription for this plan.", highlightId: HIGHLIGHT_IDS.PLAN_COST }),
+            React.createElement(BreakdownDetail, { label: "Subscription-Months Purchased", value: platform.plansAffordable.toLocaleString(), tooltipText: "The number of monthly subscriptions that can be purchased within your budget, spread over the billing cycles before your deadline. Annual plans count all 12 committed months.", highlightId: HIGHLIGHT_IDS.PLAN_COST }),
+            platform.topUp && React.createElement(BreakdownDetail, { label: "Top-up", value: `${describeTopUp(platform.topUp)} (${formatMoney(platform.topUp.cost, money)})`, tooltipText: "Budget left after the subscriptions buys extra quota as credit packs or overage.", highlightId: HIGHLIGHT_IDS.PLAN_COST }),
             React.createElement(BreakdownDetail, { label: "Total Potential Content", value: `${Math.round(platform.achievableDuration).toLocaleString()} min`, tooltipText: "The theoretical maximum amount of video you can generate with the purchased subscriptions, before considering time constraints.", highlightId: HIGHLIGHT_IDS.DURATION }),
             React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.ACCOUNTS_NEEDED, activeHighlightId },
                 React.createElement('div', {className: 'mt-4 p-3 bg-red-100 border border-red-300 rounded-lg text-center'},
                     React.createElement('div', {className: 'font-bold text-red-800 text-lg flex items-center justify-center'}, `⚠️ ${platform.accountsNeeded} Accounts Needed`, React.createElement(InfoTooltip, {content: "This is the number of parallel accounts/users required to produce the content within your deadline. It indicates a potential operational bottleneck.", highlightId: HIGHLIGHT_IDS.ACCOUNTS_NEEDED, onHighlight})),
                     React.createElement('p', {className: 'text-sm text-red-700'}, `To produce this content within your ${inputs.deadline}-day deadline, parallel work across this many accounts is required.`)
                 )
-            )
+            ),
+            platform.spendSchedule.length > 1 && React.createElement('div', { className: "mt-4" }, React.createElement(SpendSchedule, { schedule: platform.spendSchedule, money })),
+            React.createElement(ScoreBreakdownToggle, { platform, runnerUp, money })
         );
     }
     
@@ -772,55 +1251,157 @@ const PrimaryRecommendation = ({ platform, inputs, activeHighlightId, onHighligh
         React.createElement('div', { className: "text-xs font-semibold text-blue-600 uppercase tracking-wider" }, platform.platformName),
         React.createElement('div', { className: "text-xl font-bold text-blue-900" }, `${platform.planName} - ${platform.option.modelName}`),
         React.createElement(HighlightWrapper, { highlightId: isCostMode ? HIGHLIGHT_IDS.TOTAL_COST : HIGHLIGHT_IDS.DURATION, activeHighlightId },
-            React.createElement('div', { className: "text-4xl font-bold text-amber-500 my-2" }, isCostMode ? `$${Math.round(platform.totalCost).toLocaleString()}` : `${Math.round(platform.achievableDuration).toLocaleString()} min`)
+            React.createElement('div', { className: "text-4xl font-bold text-amber-500 my-2" }, isCostMode ? formatMoney(platform.totalCost, money) : `${Math.round(platform.achievableDuration).toLocaleString()} min`)
         ),
-        React.createElement('p', { className: "text-sm text-blue-800 font-medium" }, isCostMode ? `Best match for your project` : `Max content for $${inputs.budget.toLocaleString()}` )
+        React.createElement('p', { className: "text-sm text-blue-800 font-medium" }, isCostMode ? `Best match for your project` : `Max content for ${formatMoney(inputs.budget, money)}` ),
+        React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.PLAN_COST, activeHighlightId },
+            React.createElement('p', { className: "text-xs text-blue-800 mt-1 flex items-center" }, `Purchase: ${describePurchase(platform.planName, platform.spendSchedule, platform.topUp, money)}`,
+                React.createElement(InfoTooltip, { content: "The cheapest way found to buy the quota: more subscriptions, more billing months, or credit packs / overage on top of a subscription.", highlightId: HIGHLIGHT_IDS.PLAN_COST, onHighlight }))
+        ),
+        platform.spendSchedule.length > 1 && React.createElement('div', { className: "mt-3 max-w-xs" }, React.createElement(SpendSchedule, { schedule: platform.spendSchedule, money })),
+        React.createElement(ScoreBreakdownToggle, { platform, runnerUp, money })
     );
 };
 
-const MetricCard = ({label, value, highlightId, activeHighlightId, onHighlight, tooltip }) => (
+const MetricCard = ({label, value, highlightId, activeHighlightId, onHighlight, tooltip, detail = null }) => (
     React.createElement(HighlightWrapper, { highlightId, activeHighlightId },
       React.createElement('div', { className: "bg-slate-100 rounded-lg p-3 text-center" },
           React.createElement('div', { className: "text-xl sm:text-2xl font-bold text-blue-700" }, value),
+          detail && React.createElement('div', { className: "text-xs text-slate-500" }, detail),
           React.createElement('div', { className: "text-xs sm:text-sm text-slate-600 mt-1 flex items-center justify-center" }, label, React.createElement(InfoTooltip, {content: tooltip, highlightId, onHighlight}))
       )
     )
 );
 
-const ProjectMetrics = ({ platform, inputs, activeHighlightId, onHighlight }: { platform: ScoredPlatform | null, inputs: RecommendationInputs, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
-    const isCostMode = inputs.calcMode === 'cost';
-    
-    const timeTooltipContent = React.createElement('div', {className: 'text-left text-xs leading-relaxed'},
-        React.createElement('p', {className: 'mb-2'}, "An estimate of the pure machine time required to generate all clips in an ideal, non-stop scenario."),
-        React.createElement('p', {className: 'font-bold'}, "Includes:"),
-        React.createElement('ul', {className: 'list-disc list-inside pl-1 mb-2'},
+// Machine cost next to each post-processing step and human task, so it is clear how much of the total is generation
+const CostBreakdown = ({ machineCost, labor, postProcessing, money }: { machineCost: number, labor: LaborEstimate | null, postProcessing: PostProcessingEstimate | null, money: MoneySettings }) => {
+    const total = machineCost + (labor ? labor.cost : 0) + (postProcessing ? postProcessing.cost : 0);
+    const rows = [
+        { label: "Machine (subscriptions & usage)", detail: null, cost: machineCost },
+        ...(postProcessing ? postProcessing.steps : []).map(step => ({ label: step.label, detail: `${Math.round(step.hours * 10) / 10} h`, cost: step.cost })),
+        ...(labor ? labor.tasks : []).filter(task => task.hours > 0).map(task => ({ label: `${LABOR_TASKS.find(t => t.id === task.id)?.label} · ${task.role}`, detail: `${Math.round(task.hours * 10) / 10} h`, cost: task.cost })),
+    ];
+    const summary = [
+        postProcessing && `Post-processing: ${formatMoney(postProcessing.cost, money)}, ${Math.round(postProcessing.workingDays * 10) / 10} working days`,
+        labor && `Human work: ${formatMoney(labor.cost, money)}, ${Math.round(labor.workingDays * 10) / 10} working days`,
+    ].filter(Boolean).join(' · ');
+    return React.createElement('div', { className: "text-sm" },
+        rows.map(row => React.createElement('div', { key: row.label, className: "grid grid-cols-[1fr_auto_auto] gap-3 py-1 border-b border-slate-200" },
+            React.createElement('span', { className: "text-slate-700" }, row.label),
+            React.createElement('span', { className: "text-slate-500 text-xs self-center" }, row.detail),
+            React.createElement('span', { className: "font-semibold text-right" }, `${formatMoney(row.cost, money)} (${total > 0 ? Math.round(row.cost / total * 100) : 0}%)`)
+        )),
+        React.createElement('div', { className: "grid grid-cols-[1fr_auto] gap-3 pt-1 font-bold" },
+            React.createElement('span', null, summary),
+            React.createElement('span', { className: "text-right" }, formatMoney(total, money))
+        )
+    );
+};
+
+// e.g. "$420 machine + $120 post + $1,860 labor"
+const describeCostSplit = (platform: ScoredPlatform, money: MoneySettings) => [
+    `${formatMoney(platform.machineCost, money)} machine`,
+    platform.postProcessing && `${formatMoney(platform.postProcessing.cost, money)} post`,
+    platform.labor && `${formatMoney(platform.labor.cost, money)} labor`,
+].filter(Boolean).join(' + ');
+
+const ProjectMetrics = ({ platform, inputs, money, uncertainty, uncertaintyPending, activeHighlightId, onHighlight }: { platform: ScoredPlatform | null, inputs: RecommendationInputs, money: MoneySettings, uncertainty: UncertaintyEstimate | null, uncertaintyPending: boolean, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const isCostMode = inputs.calcMode === 'cost';
+    const laborCosted = !!(platform && platform.labor);
+    
+    const timeTooltipContent = React.createElement('div', {className: 'text-left text-xs leading-relaxed'},
+        React.createElement('p', {className: 'mb-2'}, laborCosted ? "An estimate of the time until the project is done, in calendar days from the start date." : "An estimate of the machine time required to generate all clips, in calendar days from the start date."),
+        React.createElement('p', {className: 'font-bold'}, "Includes:"),
+        React.createElement('ul', {className: 'list-disc list-inside pl-1 mb-2'},
             React.createElement('li', null, "Platform's processing speed."),
-            React.createElement('li', null, "Parallel work capabilities (via GUI or API).")
+            React.createElement('li', null, "Parallel work capabilities (via GUI or API)."),
+            React.createElement('li', null, "Rate limits and daily usage caps."),
+            React.createElement('li', null, "Working hours, weekends and holidays from the working calendar."),
+            platform && platform.postProcessing && React.createElement('li', null, "Upscaling and frame-rate conversion, after generation."),
+            laborCosted && React.createElement('li', null, "Prompting, review and editing, after generation.")
         ),
         React.createElement('p', {className: 'font-bold'}, "Excludes:"),
-        React.createElement('ul', {className: 'list-disc list-inside pl-1 mb-3'},
-            React.createElement('li', null, "Human labor (QA, reviews, project management)."),
-            React.createElement('li', null, "Editing, revisions, and assembly time.")
-        ),
+        laborCosted
+            ? React.createElement('ul', {className: 'list-disc list-inside pl-1 mb-3'},
+                React.createElement('li', null, "Project management and client revisions.")
+            )
+            : React.createElement('ul', {className: 'list-disc list-inside pl-1 mb-3'},
+                React.createElement('li', null, "Human labor (QA, reviews, project management)."),
+                React.createElement('li', null, "Editing, revisions, and assembly time.")
+            ),
         React.createElement('hr', {className: 'border-slate-600 my-2'}),
         React.createElement('p', {className: 'italic'}, "*Use this to compare the raw processing speed of different platforms.")
     );
 
     const metrics = [
-        { label: isCostMode ? "Total Cost" : "Budget Spent", value: platform && platform.feasible ? `$${Math.round(platform.totalCost).toLocaleString()}` : '$--', highlightId: HIGHLIGHT_IDS.TOTAL_COST, tooltip: "The final estimated cost for the recommended solution, including all necessary subscriptions." },
-        { label: "Raw Generation Time (days)", value: platform && platform.feasible ? `${Math.round(platform.rawGenerationTimeDays * 10) / 10}` : '--', highlightId: HIGHLIGHT_IDS.RAW_GENERATION_TIME, tooltip: timeTooltipContent },
-        { label: isCostMode ? "Cost per Video Second" : "Achievable Duration", value: platform && platform.feasible ? (isCostMode ? `$${platform.costPerSecondUSD.toFixed(2)}/s` : `${Math.round(platform.achievableDuration)} min`) : (isCostMode ? '$--/s' : '-- min'), highlightId: isCostMode ? HIGHLIGHT_IDS.COST_PER_SEC : HIGHLIGHT_IDS.DURATION, tooltip: isCostMode ? "The normalized cost to produce one second of video with this option. A key metric for comparing cost-efficiency." : "The total minutes of video content you can generate with your budget using this option." },
-        { label: "Quality Score", value: platform && platform.feasible ? `${platform.qualityScore.toFixed(1)}/10` : '--/10', highlightId: HIGHLIGHT_IDS.QUALITY_SCORE, tooltip: "An objective score based on resolution, features, and plan tier. Higher is better." },
+        { label: isCostMode ? "Total Cost" : "Budget Spent", value: platform && platform.feasible ? formatMoney(platform.totalCost, money) : '--', highlightId: HIGHLIGHT_IDS.TOTAL_COST, tooltip: `The final estimated cost for the recommended solution, including all necessary subscriptions${platform && platform.postProcessing ? ', post-processing' : ''}${laborCosted ? ' and human labor' : ''}.`,
+            detail: platform && platform.feasible && uncertainty ? formatPercentiles(uncertainty.totalCost, (value: number) => formatMoney(value, money)) : null },
+        { label: "Projected Completion", value: platform && platform.feasible ? formatDate(platform.completionDate) : '--', highlightId: HIGHLIGHT_IDS.RAW_GENERATION_TIME, tooltip: timeTooltipContent,
+            detail: platform && platform.feasible ? (uncertainty ? formatPercentiles(uncertainty.projectDays, (value: number) => `${Math.round(value * 10) / 10}d`) : `${Math.round(platform.projectDays * 10) / 10} days`) : null },
+        { label: isCostMode ? "Cost per Video Second" : "Achievable Duration", value: platform && platform.feasible ? (isCostMode ? `${formatMoney(platform.costPerSecondUSD, money, 2)}/s` : `${Math.round(platform.achievableDuration)} min`) : (isCostMode ? '--/s' : '-- min'), highlightId: isCostMode ? HIGHLIGHT_IDS.COST_PER_SEC : HIGHLIGHT_IDS.DURATION, tooltip: isCostMode ? "The normalized cost to produce one second of video with this option. A key metric for comparing cost-efficiency." : "The total minutes of video content you can generate with your budget using this option." },
+        { label: "Quality Score", value: platform && platform.feasible ? `${platform.qualityScore.toFixed(1)}/10` : '--/10', highlightId: HIGHLIGHT_IDS.QUALITY_SCORE, tooltip: "Built from the model's catalog attributes: resolution, frame rate, motion coherence, prompt adherence, aspect ratios, watermark, licence, audio and features, plus platform reputation. Higher is better." },
     ];
     
-    return React.createElement('div', { className: "grid grid-cols-2 md:grid-cols-4 gap-4 mt-5" },
-       metrics.map(metric => React.createElement(MetricCard, { key: metric.label, ...metric, activeHighlightId, onHighlight }))
+    return React.createElement('div', null,
+        React.createElement('div', { className: "grid grid-cols-2 md:grid-cols-4 gap-4 mt-5" },
+           metrics.map(metric => React.createElement(MetricCard, { key: metric.label, ...metric, activeHighlightId, onHighlight }))
+        ),
+        platform && platform.feasible && (platform.labor || platform.postProcessing) && React.createElement(HighlightWrapper, { highlightId: platform.labor ? HIGHLIGHT_IDS.LABOR : HIGHLIGHT_IDS.DELIVERY, activeHighlightId },
+            React.createElement('div', { className: "mt-4 bg-slate-50 border border-slate-200 rounded-lg p-3" },
+                React.createElement('h4', { className: "text-sm font-bold text-blue-900 mb-2" }, platform.labor ? "Machine vs Human Cost" : "Generation vs Post-Processing Cost"),
+                React.createElement(CostBreakdown, { machineCost: platform.machineCost, labor: platform.labor, postProcessing: platform.postProcessing, money })
+            )
+        ),
+        platform && platform.feasible && uncertainty && React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.UNCERTAINTY, activeHighlightId },
+            React.createElement('div', { className: "grid grid-cols-2 gap-4 mt-4 text-center text-sm" },
+                React.createElement('div', { className: "bg-slate-50 border border-slate-200 rounded-lg p-2" },
+                    React.createElement('span', { className: "font-bold text-blue-700" }, formatProbability(uncertainty.probabilityWithinBudget)), ` chance of staying within ${formatMoney(inputs.budget, money)}`),
+                React.createElement('div', { className: "bg-slate-50 border border-slate-200 rounded-lg p-2" },
+                    React.createElement('span', { className: "font-bold text-blue-700" }, formatProbability(uncertainty.probabilityMeetsDeadline)), ` chance of finishing within ${inputs.deadline} days`)
+            )
+        ),
+        platform && platform.feasible && uncertaintyPending && React.createElement('p', { className: "mt-4 text-center text-sm text-slate-500" }, "Calculating...")
+    );
+};
+
+
+const formatPercentiles = (range: Percentiles, format: (value: number) => string) =>
+    Number.isFinite(range.p90) ? `P10 ${format(range.p10)} · P50 ${format(range.p50)} · P90 ${format(range.p90)}` : null;
+const formatProbability = (probability: number) => `${Math.round(probability * 100)}%`;
+// ISO dates are calendar days, so they are shown in UTC to avoid shifting across time zones
+const formatDate = (isoDate: string) => isoDate
+    ? new Date(`${isoDate}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' })
+    : 'Never';
+
+// Cumulative savings per month, starting below zero by the setup costs
+const RoiCurveChart = ({ report, money }: { report: RoiReport, money: MoneySettings }) => {
+    const width = 320, height = 150, pad = { left: 8, right: 8, top: 16, bottom: 20 };
+    const values = report.months.map(m => m.cumulativeSavings);
+    const minValue = Math.min(0, ...values), maxValue = Math.max(0, ...values);
+    const span = maxValue - minValue || 1;
+    const lastMonth = report.months[report.months.length - 1].month;
+    const x = (month: number) => pad.left + (width - pad.left - pad.right) * month / Math.max(1, lastMonth);
+    const y = (value: number) => pad.top + (height - pad.top - pad.bottom) * (maxValue - value) / span;
+
+    return React.createElement('svg', { viewBox: `0 0 ${width} ${height}`, className: "w-full h-auto", role: 'img', 'aria-label': "Cumulative savings by month" },
+        React.createElement('line', { x1: pad.left, x2: width - pad.right, y1: y(0), y2: y(0), stroke: '#94a3b8', strokeWidth: 1 }),
+        report.breakEvenMonth !== null && report.breakEvenMonth > 0 && React.createElement('line', { x1: x(report.breakEvenMonth), x2: x(report.breakEvenMonth), y1: pad.top, y2: height - pad.bottom, stroke: '#059669', strokeWidth: 1, strokeDasharray: '4 3' }),
+        React.createElement('polyline', { points: report.months.map(m => `${x(m.month)},${y(m.cumulativeSavings)}`).join(' '), fill: 'none', stroke: '#2563eb', strokeWidth: 2 }),
+        React.createElement('text', { x: pad.left, y: 11, fontSize: 10, fill: '#475569' }, formatMoney(maxValue, money)),
+        minValue < 0 && React.createElement('text', { x: pad.left, y: height - pad.bottom - 3, fontSize: 10, fill: '#475569' }, formatMoney(minValue, money)),
+        React.createElement('text', { x: pad.left, y: height - 5, fontSize: 10, fill: '#475569' }, "Month 0"),
+        React.createElement('text', { x: width - pad.right, y: height - 5, fontSize: 10, fill: '#475569', textAnchor: 'end' }, `Month ${lastMonth}`)
     );
 };
 
+const formatBreakEven = (month: number | null) => {
+    if (month === null) return 'Not within horizon';
+    return month === 0 ? 'Immediately' : `Month ${Math.round(month * 10) / 10}`;
+};
 
-const ROIAnalysisSummary = ({ platform, inputs }) => {
+const ROIAnalysisSummary = ({ platform, inputs, money }: { platform: ScoredPlatform | null, inputs: RecommendationInputs, money: MoneySettings }) => {
     if (!platform || !platform.feasible) return null;
+    const report = analyzeRoi(platform, inputs);
 
     const SavingsCard = ({ title, value, colorClass }) => (
         React.createElement('div', {className: "text-center"},
@@ -828,50 +1409,72 @@ const ROIAnalysisSummary = ({ platform, inputs }) => {
             React.createElement('p', {className: `text-2xl font-bold ${colorClass}`}, `${Math.round(value)}%`)
         )
     );
+    const ProgrammeRow = ({ label, value }: { label: string, value: string }) => (
+        React.createElement('div', { className: "flex justify-between py-1 border-b border-slate-200 text-sm" },
+            React.createElement('span', { className: "text-slate-600" }, label),
+            React.createElement('span', { className: "font-semibold text-slate-800" }, value)
+        )
+    );
 
-    const costDifference = inputs.traditionalCost - platform.totalCost;
-    const timeDifference = inputs.traditionalTime - platform.rawGenerationTimeDays;
+    const costDifference = report.traditionalProjectCost - report.aiProjectCost;
+    const timeDifference = report.traditionalProjectDays - report.aiProjectDays;
 
     let costCard, timeCard;
 
     if (costDifference >= 0) {
-        const costSavings = inputs.traditionalCost > 0 ? (costDifference / inputs.traditionalCost) * 100 : 0;
+        const costSavings = report.traditionalProjectCost > 0 ? (costDifference / report.traditionalProjectCost) * 100 : 0;
         costCard = React.createElement(SavingsCard, {title: "Cost Savings", value: costSavings, colorClass: "text-emerald-600"});
     } else {
-        const costIncrease = inputs.traditionalCost > 0 ? (Math.abs(costDifference) / inputs.traditionalCost) * 100 : Infinity;
+        const costIncrease = report.traditionalProjectCost > 0 ? (Math.abs(costDifference) / report.traditionalProjectCost) * 100 : Infinity;
         costCard = React.createElement(SavingsCard, {title: "Cost Increase", value: costIncrease, colorClass: "text-red-600"});
     }
 
     if (timeDifference >= 0) {
-        const timeSavings = inputs.traditionalTime > 0 ? (timeDifference / inputs.traditionalTime) * 100 : 0;
+        const timeSavings = report.traditionalProjectDays > 0 ? (timeDifference / report.traditionalProjectDays) * 100 : 0;
         timeCard = React.createElement(SavingsCard, {title: "Time Savings", value: timeSavings, colorClass: "text-blue-600"});
     } else {
-        const timeIncrease = inputs.traditionalTime > 0 ? (Math.abs(timeDifference) / inputs.traditionalTime) * 100 : Infinity;
+        const timeIncrease = report.traditionalProjectDays > 0 ? (Math.abs(timeDifference) / report.traditionalProjectDays) * 100 : Infinity;
         timeCard = React.createElement(SavingsCard, {title: "Time Increase", value: timeIncrease, colorClass: "text-orange-600"});
     }
 
     return React.createElement('div', {className: "mt-6 p-4 bg-slate-50 border-2 border-slate-200 rounded-lg"},
         React.createElement('h4', {className: "text-sm font-bold text-blue-900 mb-3 text-center"}, "ROI Analysis Summary"),
+        React.createElement('p', {className: "text-xs text-slate-500 text-center mb-3"}, `Per project of ${Math.round(report.finishedMinutes * 10) / 10} finished minutes`),
         React.createElement('div', {className: "grid grid-cols-2 divide-x divide-slate-200"},
             React.createElement('div', {className: 'pr-4'},
                 React.createElement('p', {className: 'font-semibold text-slate-700 text-center text-sm mb-2'}, 'Traditional'),
-                React.createElement('p', {className: 'text-center text-lg'}, `$${inputs.traditionalCost.toLocaleString()}`),
-                React.createElement('p', {className: 'text-center text-xs text-slate-500'}, `${inputs.traditionalTime} days`)
+                React.createElement('p', {className: 'text-center text-lg'}, formatMoney(report.traditionalProjectCost, money)),
+                React.createElement('p', {className: 'text-center text-xs text-slate-500'}, `${Math.round(report.traditionalProjectDays * 10) / 10} days`),
+                React.createElement('p', {className: 'text-center text-xs text-slate-500'}, `${formatMoney(report.traditionalCostPerMinute, money)} per finished minute`)
             ),
              React.createElement('div', {className: 'pl-4'},
                 React.createElement('p', {className: 'font-semibold text-slate-700 text-center text-sm mb-2'}, 'AI Recommended'),
-                React.createElement('p', {className: 'text-center text-lg text-emerald-600 font-bold'}, `$${Math.round(platform.totalCost).toLocaleString()}`),
-                React.createElement('p', {className: 'text-center text-xs text-slate-500'}, `${Math.round(platform.rawGenerationTimeDays * 10) / 10} days`)
+                React.createElement('p', {className: 'text-center text-lg text-emerald-600 font-bold'}, formatMoney(report.aiProjectCost, money)),
+                React.createElement('p', {className: 'text-center text-xs text-slate-500'}, `${Math.round(report.aiProjectDays * 10) / 10} days · done ${formatDate(platform.completionDate)}`),
+                React.createElement('p', {className: 'text-center text-xs text-slate-500'}, `${formatMoney(report.aiCostPerMinute, money)} per finished minute`),
+                platform.labor
+                    ? React.createElement('p', {className: 'text-center text-xs text-slate-500'}, describeCostSplit(platform, money))
+                    : React.createElement('p', {className: 'text-center text-xs text-amber-700'}, "Machine cost only; include labor for a like-for-like comparison"),
+                platform.takesPerClip > 1 && React.createElement('p', {className: 'text-center text-xs text-slate-500'}, `${platform.generatedClips.toLocaleString()} generations at ${platform.takesPerClip} takes/clip`)
             )
         ),
         React.createElement('div', {className: 'grid grid-cols-2 mt-4 pt-4 border-t border-slate-200'},
             costCard,
             timeCard
+        ),
+        React.createElement('div', {className: 'mt-4 pt-4 border-t border-slate-200'},
+            React.createElement('p', {className: 'font-semibold text-slate-700 text-center text-sm mb-2'}, `${inputs.projectsPerMonth} project${inputs.projectsPerMonth === 1 ? '' : 's'}/month over ${inputs.roiHorizonMonths} months`),
+            React.createElement(ProgrammeRow, { label: "Setup costs", value: formatMoney(report.setupCost, money) }),
+            React.createElement(ProgrammeRow, { label: "Break-even", value: formatBreakEven(report.breakEvenMonth) }),
+            React.createElement(ProgrammeRow, { label: "Cumulative savings", value: formatMoney(report.totalSavings, money) }),
+            React.createElement(ProgrammeRow, { label: `Net present value at ${inputs.discountRatePercent}%/yr`, value: formatMoney(report.netPresentValue, money) }),
+            React.createElement('div', {className: 'mt-3'}, React.createElement(RoiCurveChart, { report, money }))
         )
     );
 };
 
-const ResultsTableRow = ({ platform, rank, calcMode, activeHighlightId, onHighlight }: { platform: ScoredPlatform, rank: number, calcMode: CalculationMode, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+const ResultsTableRow = ({ platform, runnerUp, rank, calcMode, money, uncertainty, activeHighlightId, onHighlight }: { platform: ScoredPlatform, runnerUp: ScoredPlatform | null, rank: number, calcMode: CalculationMode, money: MoneySettings, uncertainty: UncertaintyEstimate | null, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const [showBreakdown, setShowBreakdown] = useState(false);
     const rankColors = { 1: 'bg-emerald-100 text-emerald-800', 2: 'bg-blue-100 text-blue-800', 3: 'bg-amber-100 text-amber-800' };
     const isCostMode = calcMode === 'cost';
 
@@ -879,35 +1482,47 @@ const ResultsTableRow = ({ platform, rank, calcMode, activeHighlightId, onHighli
         ? React.createElement(HighlightWrapper, {highlightId: HIGHLIGHT_IDS.ACCOUNTS_NEEDED, activeHighlightId},
              React.createElement('span', {className: 'text-orange-600 font-semibold flex items-center'},
                 `${platform.accountsNeeded} accounts needed`,
-                React.createElement(InfoTooltip, {content: `Requires ${platform.accountsNeeded} parallel accounts to meet deadline due to processing limits.`, highlightId: HIGHLIGHT_IDS.ACCOUNTS_NEEDED, onHighlight})
+                React.createElement(InfoTooltip, {content: `Requires ${platform.accountsNeeded} parallel accounts to fit the plan's monthly quota and processing limits within the deadline.`, highlightId: HIGHLIGHT_IDS.ACCOUNTS_NEEDED, onHighlight})
             )) 
-        : (platform.feasible ? React.createElement('span', {className: "text-slate-400"}, "N/A") : null);
+        : (platform.feasible && platform.throughputLimit === 'parallel' ? React.createElement('span', {className: "text-slate-400"}, "N/A") : null);
+    const throughputContent = platform.throughputLimit !== 'parallel' && React.createElement('span', { className: 'block text-slate-600' }, `Paced by ${THROUGHPUT_LABELS[platform.throughputLimit].toLowerCase()}`);
 
     const suitabilityText = platform.feasible 
         ? (platform.accountsNeeded > 1 ? React.createElement(Tag, {text: "Challenging", color: 'blue'}) : React.createElement(Tag, {text: "Suitable", color: 'green'}))
         : React.createElement(HighlightWrapper, {highlightId: HIGHLIGHT_IDS.DEADLINE, activeHighlightId}, React.createElement('span', { className: 'text-red-600 font-semibold' }, platform.reasons.join(', ')));
 
-    return React.createElement('tr', null,
+    return React.createElement(React.Fragment, null, React.createElement('tr', null,
         React.createElement('td', { 'data-label': 'Rank', className: "p-3 text-center" }, React.createElement('span', { className: `inline-block px-2.5 py-1 rounded-full font-bold text-xs ${rankColors[rank] || 'bg-slate-100 text-slate-800'}` }, `#${rank}`)),
         React.createElement('td', { 'data-label': 'Platform / Plan / Model', className: "p-3 font-semibold text-slate-800" }, `${platform.platformName} - ${platform.planName} - ${platform.option.modelName}`),
-        calcMode === 'cost' && React.createElement('td', { 'data-label': 'Total Cost', className: "p-3 font-bold" }, React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.TOTAL_COST, activeHighlightId}, `$${Math.round(platform.totalCost).toLocaleString()}`)),
+        calcMode === 'cost' && React.createElement('td', { 'data-label': 'Total Cost', className: "p-3 font-bold" }, React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.TOTAL_COST, activeHighlightId}, formatMoney(platform.totalCost, money)), (platform.labor || platform.postProcessing) && React.createElement('span', { className: "block text-xs font-normal text-slate-500" }, describeCostSplit(platform, money)), uncertainty && React.createElement('span', { className: "block text-xs font-normal text-slate-500" }, formatPercentiles(uncertainty.totalCost, (value: number) => formatMoney(value, money)))),
         calcMode === 'duration' && React.createElement('td', { 'data-label': 'Achievable Duration', className: "p-3 font-bold" }, React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.DURATION, activeHighlightId}, `${Math.round(platform.achievableDuration)} min`)),
-        React.createElement('td', { 'data-label': 'Raw Generation Time (days)', className: "p-3" }, React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.RAW_GENERATION_TIME, activeHighlightId }, `${Math.round(platform.rawGenerationTimeDays * 10) / 10} days`)),
-        isCostMode && React.createElement('td', { 'data-label': 'Cost/Sec (USD)', className: "p-3" }, React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.COST_PER_SEC, activeHighlightId }, `$${platform.costPerSecondUSD.toFixed(2)}`)),
+        React.createElement('td', { 'data-label': 'Raw Generation Time (days)', className: "p-3" }, React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.RAW_GENERATION_TIME, activeHighlightId }, `${Math.round(platform.rawGenerationTimeDays * 10) / 10} days`), React.createElement('span', { className: "block text-xs text-slate-500" }, `Done ${formatDate(platform.completionDate)}`), uncertainty && React.createElement('span', { className: "block text-xs text-slate-500" }, `${formatPercentiles(uncertainty.generationDays, (value: number) => `${Math.round(value * 10) / 10}`)} · ${formatProbability(uncertainty.probabilityMeetsDeadline)} on time`)),
+        isCostMode && React.createElement('td', { 'data-label': 'Cost/Sec', className: "p-3" }, React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.COST_PER_SEC, activeHighlightId }, formatMoney(platform.costPerSecondUSD, money, 2))),
         React.createElement('td', { 'data-label': 'Quality', className: "p-3" }, React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.QUALITY_SCORE, activeHighlightId }, `${platform.qualityScore.toFixed(1)}/10`)),
+        React.createElement('td', { 'data-label': 'Score', className: "p-3" }, React.createElement('button', { onClick: () => setShowBreakdown(!showBreakdown), title: "Show how this score was built", className: "font-semibold text-blue-700 hover:text-blue-900 whitespace-nowrap" }, `${platform.score.toFixed(1)} ${showBreakdown ? '▲' : '▼'}`)),
         React.createElement('td', { 'data-label': 'Suitability', className: "p-3" }, suitabilityText),
-        React.createElement('td', { 'data-label': 'Operational Factors', className: "p-3 text-xs" }, operationalFactorsContent )
-    );
+        React.createElement('td', { 'data-label': 'Operational Factors', className: "p-3 text-xs" }, operationalFactorsContent, throughputContent)
+    ),
+    showBreakdown && React.createElement('tr', null,
+        React.createElement('td', { colSpan: isCostMode ? 9 : 8, className: "p-3 bg-slate-50" },
+            React.createElement('div', { className: "grid grid-cols-1 md:grid-cols-3 gap-3" },
+                React.createElement('div', { className: "md:col-span-2" }, React.createElement(ScoreBreakdownPanel, { platform, runnerUp, money })),
+                React.createElement(SpendSchedule, { schedule: platform.spendSchedule, money })
+            )
+        )
+    ));
 };
 
-const ResultsTable = ({ platforms, calcMode, activeHighlightId, onHighlight }: { platforms: ScoredPlatform[], calcMode: CalculationMode, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+const ResultsTable = ({ platforms, calcMode, money, uncertainty, activeHighlightId, onHighlight }: { platforms: ScoredPlatform[], calcMode: CalculationMode, money: MoneySettings, uncertainty: UncertaintyReport | null, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
     const isCostMode = calcMode === 'cost';
     const timeTooltipContent = React.createElement('div', {className: 'text-left text-xs leading-relaxed'},
-        React.createElement('p', {className: 'mb-2'}, "An estimate of the pure machine time required to generate all clips in an ideal, non-stop scenario."),
+        React.createElement('p', {className: 'mb-2'}, "An estimate of the machine time required to generate all clips, in calendar days from the start date."),
         React.createElement('p', {className: 'font-bold'}, "Includes:"),
         React.createElement('ul', {className: 'list-disc list-inside pl-1 mb-2'},
             React.createElement('li', null, "Platform's processing speed."),
-            React.createElement('li', null, "Parallel work capabilities (via GUI or API).")
+            React.createElement('li', null, "Parallel work capabilities (via GUI or API)."),
+            React.createElement('li', null, "Rate limits and daily usage caps."),
+            React.createElement('li', null, "Working hours, weekends and holidays from the working calendar.")
         ),
         React.createElement('p', {className: 'font-bold'}, "Excludes:"),
         React.createElement('ul', {className: 'list-disc list-inside pl-1 mb-3'},
@@ -923,28 +1538,564 @@ const ResultsTable = ({ platforms, calcMode, activeHighlightId, onHighlight }: {
         {title: "Platform / Plan / Model", tooltip: "The specific combination of platform, subscription plan, and generation model."},
         ...(isCostMode ? [{title: "Total Cost", tooltip: "The final estimated cost for the project.", highlightId: HIGHLIGHT_IDS.TOTAL_COST}] : [{title: "Achievable Duration", tooltip: "The maximum minutes of video you can generate.", highlightId: HIGHLIGHT_IDS.DURATION }]),
         {title: "Raw Generation Time (days)", tooltip: timeTooltipContent, highlightId: HIGHLIGHT_IDS.RAW_GENERATION_TIME},
-        ...(isCostMode ? [{title: "Cost/Sec (USD)", tooltip: "Normalized cost per second of generated video.", highlightId: HIGHLIGHT_IDS.COST_PER_SEC}] : []),
-        {title: "Quality", tooltip: "Objective score based on resolution, features, etc.", highlightId: HIGHLIGHT_IDS.QUALITY_SCORE},
+        ...(isCostMode ? [{title: "Cost/Sec", tooltip: "Normalized cost per second of generated video.", highlightId: HIGHLIGHT_IDS.COST_PER_SEC}] : []),
+        {title: "Quality", tooltip: "Score from the model's quality attributes: resolution, frame rate, coherence, prompt adherence, licence, etc.", highlightId: HIGHLIGHT_IDS.QUALITY_SCORE},
+        {title: "Score", tooltip: "Overall ranking score. Click it to see what each factor contributed and how far the next option trailed."},
         {title: "Suitability", tooltip: "Indicates if the option is feasible within your constraints."},
         {title: "Operational Factors", tooltip: "Highlights operational factors like the need for multiple accounts.", highlightId: HIGHLIGHT_IDS.ACCOUNTS_NEEDED},
     ];
     return React.createElement('div', { className: "overflow-x-auto" },
         React.createElement('table', { className: "w-full text-sm responsive-table" },
             React.createElement(TableHeader, { headers, onHighlight, activeHighlightId }),
-            React.createElement('tbody', { className: 'bg-white' }, platforms.slice(0, 15).map((p, i) => React.createElement(ResultsTableRow, { key: `${p.platformName}-${p.planName}-${p.option.modelId}`, platform: p, rank: i + 1, calcMode, activeHighlightId, onHighlight })))
+            React.createElement('tbody', { className: 'bg-white' }, platforms.slice(0, 15).map((p, i) => React.createElement(ResultsTableRow, { key: getScoredPlatformKey(p), platform: p, runnerUp: platforms[i + 1] || null, rank: i + 1, calcMode, money, uncertainty: uncertainty ? uncertainty.estimates[getScoredPlatformKey(p)] || null : null, activeHighlightId, onHighlight })))
         )
     )
 };
 
-const CalculatorSection = ({ activeHighlightId, onHighlight }) => {
-    const [inputs, setInputs] = useState<RecommendationInputs>({
-        calcMode: 'cost', deadline: 7, duration: 10, budget: 1000, costQuality: 50, speedCost: 50,
-        audioNeeds: 'none', expertise: 'beginner', enableComparison: false, traditionalCost: 10000, traditionalTime: 14,
+// Round tick values for a chart axis; log axes get 1-2-5 steps per decade
+const getAxisTicks = (min: number, max: number, logScale: boolean) => {
+    if (logScale) {
+        const ticks: number[] = [];
+        for (let decade = Math.floor(Math.log10(min)); decade <= Math.ceil(Math.log10(max)); decade++) {
+            [1, 2, 5].forEach(step => {
+                const tick = step * Math.pow(10, decade);
+                if (tick >= min && tick <= max) ticks.push(tick);
+            });
+        }
+        return ticks;
+    }
+    const rawStep = (max - min) / 5 || 1;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+    const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rawStep) || rawStep;
+    const ticks: number[] = [];
+    for (let tick = Math.ceil(min / step) * step; tick <= max + step / 1000; tick += step) ticks.push(Math.round(tick * 1e6) / 1e6);
+    return ticks;
+};
+
+// Every scored option on cost vs quality. Bigger bubbles take longer to generate; clicking one shows it as the recommendation.
+const ParetoChart = ({ platforms, calcMode, money, selectedKey, onSelect }: { platforms: ScoredPlatform[], calcMode: CalculationMode, money: MoneySettings, selectedKey: string | null, onSelect: (key: string) => void }) => {
+    const [costMetric, setCostMetric]: [ParetoCostMetric, (metric: ParetoCostMetric) => void] = useState(calcMode === 'cost' ? 'totalCost' : 'costPerSecondUSD');
+    const [hoveredKey, setHoveredKey] = useState<string | null>(null);
+    const width = 720, height = 380, margin = { top: 16, right: 24, bottom: 48, left: 52 };
+
+    const plotted = platforms.filter(p => Number.isFinite(p[costMetric]) && p[costMetric] > 0 && Number.isFinite(p.rawGenerationTimeDays));
+    if (plotted.length === 0) return React.createElement('p', { className: "text-sm text-slate-500 p-4" }, "No options with a finite cost to plot.");
+    const frontierKeys = new Set(getParetoFrontier(plotted, costMetric).map(getScoredPlatformKey));
+
+    const costs = plotted.map(p => p[costMetric]);
+    const minCost = Math.min(...costs), maxCost = Math.max(...costs);
+    const logScale = maxCost / minCost > 50;
+    const xMin = logScale ? minCost / 1.2 : 0, xMax = maxCost * (logScale ? 1.2 : 1.05);
+    const toX = (value: number) => margin.left + (logScale
+        ? (Math.log10(value) - Math.log10(xMin)) / (Math.log10(xMax) - Math.log10(xMin))
+        : (value - xMin) / (xMax - xMin)) * (width - margin.left - margin.right);
+    const toY = (quality: number) => margin.top + (1 - quality / 10) * (height - margin.top - margin.bottom);
+    const maxDays = Math.max(...plotted.map(p => p.rawGenerationTimeDays), 0.01);
+    const getRadius = (p: ScoredPlatform) => 4 + 8 * Math.sqrt(p.rawGenerationTimeDays / maxDays);
+    const formatCost = (value: number) => costMetric === 'totalCost' ? formatMoney(value, money) : `${formatMoney(value, money, 2)}/s`;
+
+    const hovered = plotted.find(p => getScoredPlatformKey(p) === hoveredKey) || null;
+    // Selected and hovered points are drawn last so they sit on top
+    const drawOrder = [...plotted].sort((a, b) => {
+        const rank = (p: ScoredPlatform) => { const key = getScoredPlatformKey(p); return key === hoveredKey ? 3 : key === selectedKey ? 2 : frontierKeys.has(key) ? 1 : 0; };
+        return rank(a) - rank(b);
     });
-    
+
+    return React.createElement('div', { className: "p-4" },
+        React.createElement('div', { className: "flex flex-wrap items-center gap-4 mb-2 text-sm" },
+            React.createElement('label', { className: "flex items-center gap-2 font-semibold text-blue-900" }, "X axis",
+                React.createElement('select', { value: costMetric, onChange: (e: { target: HTMLSelectElement }) => setCostMetric(e.target.value as ParetoCostMetric), className: "px-2 py-1 border-2 border-slate-300 rounded-lg bg-white" },
+                    React.createElement('option', { value: 'totalCost' }, calcMode === 'cost' ? 'Total cost' : 'Budget spent'),
+                    React.createElement('option', { value: 'costPerSecondUSD' }, 'Cost per video second')
+                )
+            ),
+            React.createElement('span', { className: "flex items-center gap-1 text-slate-600" }, React.createElement('span', { className: "inline-block w-3 h-3 rounded-full bg-amber-500 border border-amber-800" }), "Pareto-optimal"),
+            React.createElement('span', { className: "flex items-center gap-1 text-slate-600" }, React.createElement('span', { className: "inline-block w-3 h-3 rounded-full bg-blue-500" }), "Feasible"),
+            React.createElement('span', { className: "flex items-center gap-1 text-slate-600" }, React.createElement('span', { className: "inline-block w-3 h-3 rounded-full bg-slate-300" }), "Not feasible"),
+            React.createElement('span', { className: "text-slate-500" }, "Bubble size: raw generation time")
+        ),
+        React.createElement('div', { className: "relative overflow-x-auto" },
+            React.createElement('svg', { viewBox: `0 0 ${width} ${height}`, width: '100%', role: 'img', 'aria-label': 'Cost versus quality of every option', className: "min-w-[36rem]", onMouseLeave: () => setHoveredKey(null) },
+                getAxisTicks(xMin, xMax, logScale).map(tick => React.createElement('g', { key: `x-${tick}` },
+                    React.createElement('line', { x1: toX(tick), x2: toX(tick), y1: margin.top, y2: height - margin.bottom, stroke: '#e2e8f0' }),
+                    React.createElement('text', { x: toX(tick), y: height - margin.bottom + 16, textAnchor: 'middle', fontSize: 10, fill: '#64748b' }, formatCost(tick))
+                )),
+                [0, 2, 4, 6, 8, 10].map(tick => React.createElement('g', { key: `y-${tick}` },
+                    React.createElement('line', { x1: margin.left, x2: width - margin.right, y1: toY(tick), y2: toY(tick), stroke: '#e2e8f0' }),
+                    React.createElement('text', { x: margin.left - 8, y: toY(tick) + 3, textAnchor: 'end', fontSize: 10, fill: '#64748b' }, tick)
+                )),
+                React.createElement('text', { x: (margin.left + width - margin.right) / 2, y: height - 8, textAnchor: 'middle', fontSize: 12, fill: '#334155' }, `${costMetric === 'totalCost' ? (calcMode === 'cost' ? 'Total cost' : 'Budget spent') : 'Cost per video second'}${logScale ? ' (log scale)' : ''}`),
+                React.createElement('text', { x: 14, y: (margin.top + height - margin.bottom) / 2, textAnchor: 'middle', fontSize: 12, fill: '#334155', transform: `rotate(-90 14 ${(margin.top + height - margin.bottom) / 2})` }, 'Quality score'),
+                drawOrder.map(p => {
+                    const key = getScoredPlatformKey(p);
+                    const isFrontier = frontierKeys.has(key);
+                    return React.createElement('circle', {
+                        key, cx: toX(p[costMetric]), cy: toY(p.qualityScore), r: getRadius(p),
+                        fill: !p.feasible ? '#cbd5e1' : isFrontier ? '#f59e0b' : '#3b82f6', fillOpacity: p.feasible ? 0.8 : 0.6,
+                        stroke: key === selectedKey ? '#0f172a' : isFrontier ? '#92400e' : '#ffffff', strokeWidth: key === selectedKey ? 3 : 1,
+                        style: { cursor: 'pointer' },
+                        onMouseEnter: () => setHoveredKey(key),
+                        onClick: () => onSelect(key),
+                    });
+                })
+            ),
+            hovered && React.createElement('div', {
+                className: "absolute z-10 pointer-events-none bg-slate-800 text-white text-xs rounded-lg shadow-xl p-2 w-56",
+                style: { left: `${Math.min(toX(hovered[costMetric]) / width * 100, 65)}%`, top: `${toY(hovered.qualityScore) / height * 100}%`, transform: 'translate(12px, -50%)' },
+            },
+                React.createElement('p', { className: "font-bold mb-1" }, `${hovered.platformName} - ${hovered.planName} - ${hovered.option.modelName}`),
+                React.createElement('p', null, `${calcMode === 'cost' ? 'Total cost' : 'Budget spent'}: ${formatMoney(hovered.totalCost, money)}`),
+                React.createElement('p', null, `Cost per second: ${formatMoney(hovered.costPerSecondUSD, money, 2)}`),
+                React.createElement('p', null, `Quality: ${hovered.qualityScore.toFixed(1)}/10 · Score: ${hovered.score.toFixed(1)}`),
+                React.createElement('p', null, `Raw generation time: ${Math.round(hovered.rawGenerationTimeDays * 10) / 10} days`),
+                calcMode === 'duration' && React.createElement('p', null, `Achievable duration: ${Math.round(hovered.achievableDuration)} min`),
+                React.createElement('p', { className: hovered.feasible ? 'text-emerald-300' : 'text-red-300' }, hovered.feasible ? (frontierKeys.has(getScoredPlatformKey(hovered)) ? 'Pareto-optimal' : 'Feasible') : hovered.reasons.join(', ')),
+                React.createElement('p', { className: "text-slate-400 mt-1" }, "Click to show as the recommendation")
+            )
+        ),
+        plotted.length < platforms.length && React.createElement('p', { className: "text-xs text-slate-500 mt-1" }, `${platforms.length - plotted.length} option(s) without a finite cost are not plotted.`)
+    );
+};
+
+const SnapshotComparison = ({ inputs, money, primaryRecommendation, sortedPlatforms, activeSnapshot, compareSnapshot }: { inputs: RecommendationInputs, money: MoneySettings, primaryRecommendation: ScoredPlatform | null, sortedPlatforms: ScoredPlatform[], activeSnapshot: CatalogSnapshot, compareSnapshot: CatalogSnapshot }) => {
+    const { primaryRecommendation: comparedPrimary, sortedPlatforms: comparedPlatforms } = useRecommendation(inputs, compareSnapshot.platforms);
+    if (!primaryRecommendation || !comparedPrimary) return null;
+
+    const isCostMode = inputs.calcMode === 'cost';
+    const formatValue = (p: ScoredPlatform) => isCostMode ? formatMoney(p.totalCost, money) : `${Math.round(p.achievableDuration).toLocaleString()} min`;
+    const key = getScoredPlatformKey(primaryRecommendation);
+    const comparedIndex = comparedPlatforms.findIndex((p: ScoredPlatform) => getScoredPlatformKey(p) === key);
+    const comparedMatch: ScoredPlatform | undefined = comparedPlatforms[comparedIndex];
+    const currentRank = sortedPlatforms.findIndex(p => getScoredPlatformKey(p) === key) + 1;
+    const winnerChanged = getScoredPlatformKey(comparedPrimary) !== key;
+
+    let deltaText = `Not available in "${compareSnapshot.name}"`;
+    if (comparedMatch) {
+        const current = isCostMode ? primaryRecommendation.totalCost : primaryRecommendation.achievableDuration;
+        const compared = isCostMode ? comparedMatch.totalCost : comparedMatch.achievableDuration;
+        const delta = compared - current;
+        const percent = current > 0 && Number.isFinite(current) ? ` (${delta >= 0 ? '+' : ''}${Math.round(delta / current * 100)}%)` : '';
+        deltaText = isCostMode
+            ? `${delta >= 0 ? '+' : '-'}${formatMoney(Math.abs(delta), money)}${percent}`
+            : `${delta >= 0 ? '+' : '-'}${Math.abs(Math.round(delta)).toLocaleString()} min${percent}`;
+    }
+
+    const Column = ({ title, snapshot, platform }: { title: string, snapshot: CatalogSnapshot, platform: ScoredPlatform }) => (
+        React.createElement('div', { className: 'p-3' },
+            React.createElement('p', { className: 'text-xs font-semibold text-slate-500 uppercase' }, title),
+            React.createElement('p', { className: 'text-xs text-slate-500 mb-1' }, `${snapshot.name} · priced as of ${snapshot.effectiveDate}`),
+            React.createElement('p', { className: 'font-semibold text-slate-800 text-sm' }, `${platform.platformName} - ${platform.planName} - ${platform.option.modelName}`),
+            React.createElement('p', { className: 'text-lg font-bold text-blue-700' }, platform.feasible ? formatValue(platform) : 'Not feasible')
+        )
+    );
+
+    return React.createElement('div', { className: "mt-5 bg-white border-2 border-slate-200 rounded-lg" },
+        React.createElement('h4', { className: "text-sm font-bold text-blue-900 p-3 pb-0" }, "Price Snapshot Comparison"),
+        React.createElement('div', { className: "grid grid-cols-2 divide-x divide-slate-200" },
+            React.createElement(Column, { title: 'Current Recommendation', snapshot: activeSnapshot, platform: primaryRecommendation }),
+            React.createElement(Column, { title: 'Recommendation With Compared Prices', snapshot: compareSnapshot, platform: comparedPrimary })
+        ),
+        React.createElement('div', { className: "border-t border-slate-200 p-3 text-sm text-slate-700 space-y-1" },
+            React.createElement('p', null, `Current pick under compared prices: `, React.createElement('span', { className: 'font-bold' }, deltaText)),
+            React.createElement('p', null, `Rank: #${currentRank} now, ${comparedMatch ? `#${comparedIndex + 1}` : 'unranked'} with compared prices`),
+            winnerChanged && React.createElement('p', { className: 'text-orange-700 font-semibold' }, "The top recommendation changes between these snapshots.")
+        )
+    );
+};
+
+const ScenarioComparisonColumn = ({ scenario, snapshots, money }: { scenario: Scenario, snapshots: CatalogSnapshot[], money: MoneySettings }) => {
+    const snapshot = snapshots.find(snap => snap.id === scenario.catalogSnapshotId);
+    const { primaryRecommendation } = useRecommendation(scenario.inputs, (snapshot || snapshots[0]).platforms);
+    const isCostMode = scenario.inputs.calcMode === 'cost';
+    const feasible = primaryRecommendation && primaryRecommendation.feasible;
+
+    const Row = ({ label, value }: { label: string, value: string }) => (
+        React.createElement('div', { className: "py-1.5 border-b border-slate-200" },
+            React.createElement('p', { className: "text-xs text-slate-500" }, label),
+            React.createElement('p', { className: "font-bold text-slate-800" }, value)
+        )
+    );
+
+    return React.createElement('div', { className: "bg-slate-50 border border-slate-200 rounded-lg p-3 min-w-0" },
+        React.createElement('p', { className: "font-bold text-blue-900 truncate", title: scenario.name }, scenario.name),
+        React.createElement('p', { className: "text-xs text-slate-500 mb-2" }, snapshot ? `${snapshot.name} (${snapshot.effectiveDate})` : 'Snapshot deleted — using current prices'),
+        React.createElement(Row, { label: "Recommendation", value: primaryRecommendation ? `${primaryRecommendation.platformName} - ${primaryRecommendation.planName} - ${primaryRecommendation.option.modelName}` : '--' }),
+        React.createElement(Row, { label: isCostMode ? "Total Cost" : "Budget Spent", value: feasible ? formatMoney(primaryRecommendation.totalCost, money) : 'Not feasible' }),
+        !isCostMode && React.createElement(Row, { label: "Achievable Duration", value: feasible ? `${Math.round(primaryRecommendation.achievableDuration)} min` : '--' }),
+        React.createElement(Row, { label: "Raw Generation Time", value: feasible ? `${Math.round(primaryRecommendation.rawGenerationTimeDays * 10) / 10} days, done ${formatDate(primaryRecommendation.completionDate)}` : '--' }),
+        React.createElement(Row, { label: "Quality Score", value: feasible ? `${primaryRecommendation.qualityScore.toFixed(1)}/10` : '--' })
+    );
+};
+
+const ScenarioPanel = ({ inputs, money, activeSnapshot, snapshots, onLoad }: { inputs: RecommendationInputs, money: MoneySettings, activeSnapshot: CatalogSnapshot, snapshots: CatalogSnapshot[], onLoad: (scenario: Scenario) => void }) => {
+    const { scenarios, saveScenario, renameScenario, duplicateScenario, deleteScenario } = useScenarios();
+    const [newName, setNewName] = useState('');
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameText, setRenameText] = useState('');
+    const [comparedIds, setComparedIds] = useState<string[]>([]);
+
+    const compared = (comparedIds as string[]).map(id => scenarios.find(scenario => scenario.id === id)).filter((scenario): scenario is Scenario => !!scenario);
+
+    const handleSave = () => {
+        saveScenario(newName.trim() || `Scenario ${scenarios.length + 1}`, inputs, activeSnapshot.id);
+        setNewName('');
+    };
+    const finishRename = () => {
+        if (renamingId && renameText.trim()) renameScenario(renamingId, renameText.trim());
+        setRenamingId(null);
+    };
+    const toggleCompared = (id: string) => setComparedIds((prev: string[]) => prev.includes(id)
+        ? prev.filter(other => other !== id)
+        : prev.length < MAX_COMPARED_SCENARIOS ? [...prev, id] : prev);
+    const handleDelete = (id: string) => {
+        deleteScenario(id);
+        setComparedIds((prev: string[]) => prev.filter(other => other !== id));
+    };
+
+    const inputClass = "flex-grow px-3 py-2 border-2 border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm";
+    const smallButtonClass = "text-xs font-semibold px-2 py-1 rounded-md transition-colors";
+
+    return React.createElement('div', { className: "bg-white rounded-lg mt-8 border border-slate-200" },
+        React.createElement('div', { className: "flex items-center p-4 bg-slate-50 text-blue-900 font-bold rounded-t-lg" },
+            React.createElement('h4', { className: 'flex items-center' }, "Saved Scenarios", React.createElement(InfoTooltip, { content: `Save the current parameters with the active price snapshot, reload them later, or tick 2 to ${MAX_COMPARED_SCENARIOS} scenarios to compare their recommendations side by side. Scenarios are stored in this browser.` }))
+        ),
+        React.createElement('div', { className: "p-4" },
+            React.createElement('div', { className: "flex gap-2 mb-4" },
+                React.createElement('input', { type: 'text', value: newName, placeholder: 'Scenario name', onChange: (e: { target: HTMLInputElement }) => setNewName(e.target.value), onKeyDown: (e: KeyboardEvent) => { if (e.key === 'Enter') handleSave(); }, className: inputClass }),
+                React.createElement('button', { type: 'button', onClick: handleSave, className: "px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 transition-colors" }, "Save Current")
+            ),
+            scenarios.length === 0 && React.createElement('p', { className: "text-sm text-slate-500" }, "No saved scenarios yet."),
+            React.createElement('ul', { className: "divide-y divide-slate-200" },
+                scenarios.map(scenario => {
+                    const snapshot = snapshots.find(snap => snap.id === scenario.catalogSnapshotId);
+                    return React.createElement('li', { key: scenario.id, className: "py-2 flex flex-wrap items-center gap-2" },
+                        React.createElement('input', { type: 'checkbox', checked: comparedIds.includes(scenario.id), onChange: () => toggleCompared(scenario.id), disabled: !comparedIds.includes(scenario.id) && comparedIds.length >= MAX_COMPARED_SCENARIOS, title: 'Compare' }),
+                        React.createElement('div', { className: "flex-grow min-w-0" },
+                            renamingId === scenario.id
+                                ? React.createElement('input', { type: 'text', value: renameText, autoFocus: true, onChange: (e: { target: HTMLInputElement }) => setRenameText(e.target.value), onBlur: finishRename, onKeyDown: (e: KeyboardEvent) => { if (e.key === 'Enter') finishRename(); if (e.key === 'Escape') setRenamingId(null); }, className: `${inputClass} w-full py-1` })
+                                : React.createElement('p', { className: "font-semibold text-slate-800 truncate" }, scenario.name),
+                            React.createElement('p', { className: "text-xs text-slate-500" }, `${new Date(scenario.createdAt).toLocaleString()} · ${snapshot ? snapshot.name : 'deleted snapshot'}`)
+                        ),
+                        React.createElement('div', { className: "flex gap-1" },
+                            React.createElement('button', { type: 'button', onClick: () => onLoad(scenario), className: `${smallButtonClass} text-blue-700 hover:bg-blue-100` }, "Load"),
+                            React.createElement('button', { type: 'button', onClick: () => { setRenamingId(scenario.id); setRenameText(scenario.name); }, className: `${smallButtonClass} text-slate-700 hover:bg-slate-200` }, "Rename"),
+                            React.createElement('button', { type: 'button', onClick: () => duplicateScenario(scenario.id), className: `${smallButtonClass} text-slate-700 hover:bg-slate-200` }, "Duplicate"),
+                            React.createElement('button', { type: 'button', onClick: () => handleDelete(scenario.id), className: `${smallButtonClass} text-red-700 hover:bg-red-100` }, "Delete")
+                        )
+                    );
+                })
+            ),
+            compared.length === 1 && React.createElement('p', { className: "text-sm text-slate-500 mt-3" }, "Select at least one more scenario to compare."),
+            compared.length >= 2 && React.createElement('div', { className: `grid grid-cols-2 ${compared.length > 2 ? 'lg:grid-cols-4' : ''} gap-3 mt-4` },
+                compared.map(scenario => React.createElement(ScenarioComparisonColumn, { key: scenario.id, scenario, snapshots, money }))
+            )
+        )
+    );
+};
+
+const PortfolioPanel = ({ inputs, money, catalog, onChange, activeHighlightId, onHighlight }: { inputs: RecommendationInputs, money: MoneySettings, catalog: Platform[], onChange: (e: { target: HTMLInputElement }) => void, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const isCostMode = inputs.calcMode === 'cost';
+    const portfolio: PortfolioPlan | null = usePortfolio(inputs, catalog, isOpen && isCostMode);
+    // A campaign's per-deliverable costs only exist in the portfolio, so it opens by itself
+    useEffect(() => {
+        if (inputs.useDeliverables) setIsOpen(true);
+    }, [inputs.useDeliverables]);
+    const formatAllocation = (allocation: PortfolioAllocation) => inputs.useShotList || inputs.useDeliverables
+        ? `${allocation.shotLabel}: ${allocation.count} × ${allocation.seconds / allocation.count}s on ${allocation.modelName}`
+        : `${Math.round(allocation.seconds / 6) / 10} min on ${allocation.modelName}`;
+
+    return React.createElement('div', { className: "bg-white rounded-lg mt-8 border border-slate-200" },
+        React.createElement('div', { className: "flex justify-between items-center p-4 bg-slate-50 text-blue-900 font-bold rounded-t-lg" },
+            React.createElement('h4', { className: 'flex items-center' }, "Portfolio Optimizer", React.createElement(InfoTooltip, { content: "Splits the project across several plans to minimize total cost, e.g. a cheap plan for bulk shots plus an audio-capable model for hero shots. Shots needing audio or a higher resolution only go to models that can deliver them. Extra subscriptions are bought when a plan needs more quota or more parallel accounts to meet the deadline, and generation, post-processing and human work all have to fit before it." })),
+            React.createElement('button', { type: 'button', onClick: () => setIsOpen(!isOpen), className: "text-blue-600 text-sm font-semibold px-3 py-1.5 rounded-full hover:bg-blue-100" }, isOpen ? "Hide" : "Optimize")
+        ),
+        isOpen && React.createElement('div', { className: "p-4" },
+            !isCostMode && React.createElement('p', { className: "text-sm text-slate-500" }, "The portfolio optimizer is only available in 'Calculate Cost' mode."),
+            isCostMode && React.createElement(InputField, { label: "Minimum Quality Score", id: "minQualityScore", type: "number", value: inputs.minQualityScore, onChange, ...INPUT_LIMITS.minQualityScore, step: 0.5, displayValue: inputs.minQualityScore > 0 ? `Only models scoring ${inputs.minQualityScore}/10 or more` : 'Any quality', tooltip: "Leave models below this quality score out of the portfolio.", highlightId: HIGHLIGHT_IDS.QUALITY_SCORE, activeHighlightId, onHighlight }),
+            isCostMode && !portfolio && React.createElement('p', { className: "text-sm text-slate-500" }, "Calculating..."),
+            portfolio && React.createElement('div', null,
+                React.createElement('div', { className: "grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4" },
+                    React.createElement(MetricCard, { label: "Portfolio Cost", value: formatMoney(portfolio.totalCost, money), highlightId: HIGHLIGHT_IDS.TOTAL_COST, activeHighlightId, onHighlight, tooltip: "Total cost of every subscription and pay-per-use charge in the purchase plan." }),
+                    React.createElement(MetricCard, { label: "Project Time (days)", value: `${Math.round(portfolio.projectDays * 10) / 10}`, detail: `Done ${formatDate(portfolio.completionDate)}`, highlightId: HIGHLIGHT_IDS.RAW_GENERATION_TIME, activeHighlightId, onHighlight, tooltip: "Plans generate in parallel, so generation takes as long as the slowest plan in the portfolio. Post-processing and human work follow it." }),
+                    React.createElement(MetricCard, { label: "vs. Single Plan", value: portfolio.singlePlanCost === null ? 'n/a' : formatMoney(portfolio.singlePlanCost - portfolio.totalCost, money), highlightId: null, activeHighlightId, onHighlight, tooltip: "Saving against the cheapest way to produce everything on one plan and model, priced the same way. 'n/a' means no single model can deliver every shot." })
+                ),
+                !portfolio.meetsDeadline && React.createElement('p', { className: "text-sm text-red-600 font-semibold mb-3" }, `No mix of plans finishes within your ${inputs.deadline}-day deadline. This is the closest one.`),
+                portfolio.totalCost > inputs.budget && React.createElement('p', { className: "text-sm text-red-600 font-semibold mb-3" }, `Over your ${formatMoney(inputs.budget, money)} budget.`),
+                portfolio.unallocatedShots.length > 0 && React.createElement('p', { className: "text-sm text-red-600 font-semibold mb-3" }, `No model meets the audio, resolution and quality requirements for: ${portfolio.unallocatedShots.join(', ')}.`),
+                inputs.useDeliverables && portfolio.deliverableCosts.length > 0 && React.createElement('div', { className: "overflow-x-auto mb-4" },
+                    React.createElement('table', { className: "w-full text-sm" },
+                        React.createElement('thead', null,
+                            React.createElement('tr', { className: "text-left text-xs text-slate-500 uppercase border-b border-slate-200" },
+                                React.createElement('th', { className: "py-2 pr-3" }, "Deliverable"),
+                                React.createElement('th', { className: "py-2 pr-3 text-right" }, "Runtime"),
+                                React.createElement('th', { className: "py-2 pr-3" }, "Produced on"),
+                                React.createElement('th', { className: "py-2 text-right" }, "Allocated Cost")
+                            )
+                        ),
+                        React.createElement('tbody', null,
+                            portfolio.deliverableCosts.map(deliverable => React.createElement('tr', { key: deliverable.name, className: "border-b border-slate-100" },
+                                React.createElement('td', { className: "py-2 pr-3 font-semibold text-slate-800" }, deliverable.name),
+                                React.createElement('td', { className: "py-2 pr-3 text-right text-slate-600" }, `${Math.round(deliverable.seconds)}s`),
+                                React.createElement('td', { className: "py-2 pr-3 text-slate-600" }, deliverable.platforms.join(', ')),
+                                React.createElement('td', { className: "py-2 text-right font-semibold text-blue-900" }, formatMoney(deliverable.cost, money))
+                            )),
+                            React.createElement('tr', null,
+                                React.createElement('td', { className: "py-2 pr-3 font-bold text-slate-800", colSpan: 3 }, "Total spend"),
+                                React.createElement('td', { className: "py-2 text-right font-bold text-blue-900" }, formatMoney(portfolio.totalCost, money))
+                            )
+                        )
+                    ),
+                    React.createElement('p', { className: "text-xs text-slate-500 mt-1" }, "Pay-per-use and post-processing are charged to the deliverable that used them; shared subscriptions are split by the quota each deliverable draws.")
+                ),
+                React.createElement('ul', { className: "divide-y divide-slate-200" },
+                    portfolio.purchases.map(purchase => React.createElement('li', { key: `${purchase.platformName}-${purchase.planName}`, className: "py-3" },
+                        React.createElement('div', { className: "flex flex-wrap justify-between gap-2" },
+                            React.createElement('span', { className: "font-semibold text-slate-800" }, `${purchase.platformName} - ${purchase.planName}`),
+                            React.createElement('span', { className: "font-bold text-blue-900" }, formatMoney(purchase.cost, money))
+                        ),
+                        React.createElement('p', { className: "text-xs text-slate-500" }, `${describePurchase(purchase.planName, purchase.spendSchedule, purchase.topUp, money)}${purchase.postProcessingCost > 0 ? ` + ${formatMoney(purchase.postProcessingCost, money)} post-processing` : ''} · ${Math.round(purchase.generationDays * 10) / 10} days${purchase.accountsNeeded > 1 ? ` · ${purchase.accountsNeeded} accounts in parallel` : ''}`),
+                        React.createElement('ul', { className: "list-disc list-inside text-sm text-slate-600 mt-1" },
+                            purchase.allocations.map(allocation => React.createElement('li', { key: `${allocation.shotLabel}-${allocation.modelName}` }, `${formatAllocation(allocation)} (${allocation.generatedClips.toLocaleString()} generations)`))
+                        )
+                    ))
+                )
+            )
+        )
+    );
+};
+
+interface TornadoRow {
+    label: string;
+    low: number;
+    high: number;
+    lowNote: string;
+    highNote: string;
+}
+
+// Horizontal bars centred on the current value: how far each swept parameter moves one metric
+const TornadoChart = ({ title, base, rows, formatMetric }: { title: string, base: number, rows: TornadoRow[], formatMetric: (value: number) => string }) => {
+    const width = 640, labelWidth = 170, valuePadding = 90, rowHeight = 34, top = 24;
+    const chartLeft = labelWidth + valuePadding, chartRight = width - valuePadding;
+    const centre = (chartLeft + chartRight) / 2;
+    const maxSwing = Math.max(...rows.map(row => Math.max(base - row.low, row.high - base)), 0);
+    const toX = (value: number) => maxSwing > 0 ? centre + (value - base) / maxSwing * (chartRight - centre) : centre;
+    const height = top + rows.length * rowHeight + 8;
+
+    return React.createElement('div', { className: "overflow-x-auto" },
+        React.createElement('svg', { viewBox: `0 0 ${width} ${height}`, width: '100%', role: 'img', 'aria-label': title, className: "min-w-[32rem]" },
+            React.createElement('text', { x: centre, y: 14, textAnchor: 'middle', fontSize: 12, fill: '#334155', fontWeight: 600 }, `${title}: ${formatMetric(base)} now`),
+            React.createElement('line', { x1: centre, x2: centre, y1: top - 4, y2: height - 4, stroke: '#94a3b8', strokeDasharray: '3 3' }),
+            rows.map((row, i) => {
+                const y = top + i * rowHeight;
+                const barY = y + 8, barHeight = rowHeight - 16;
+                const changed = row.high - row.low > 0;
+                return React.createElement('g', { key: row.label },
+                    React.createElement('text', { x: labelWidth - 8, y: y + rowHeight / 2 + 4, textAnchor: 'end', fontSize: 12, fill: '#1e3a8a' }, row.label),
+                    row.low < base && React.createElement('rect', { x: toX(row.low), y: barY, width: centre - toX(row.low), height: barHeight, fill: '#10b981', rx: 2 }),
+                    row.high > base && React.createElement('rect', { x: centre, y: barY, width: toX(row.high) - centre, height: barHeight, fill: '#ef4444', rx: 2 }),
+                    changed
+                        ? [
+                            React.createElement('text', { key: 'low', x: Math.min(toX(row.low), centre) - 4, y: y + rowHeight / 2 + 4, textAnchor: 'end', fontSize: 10, fill: '#475569' }, `${formatMetric(row.low)} ${row.lowNote}`),
+                            React.createElement('text', { key: 'high', x: Math.max(toX(row.high), centre) + 4, y: y + rowHeight / 2 + 4, textAnchor: 'start', fontSize: 10, fill: '#475569' }, `${formatMetric(row.high)} ${row.highNote}`),
+                        ]
+                        : React.createElement('text', { x: centre + 4, y: y + rowHeight / 2 + 4, fontSize: 10, fill: '#94a3b8' }, 'No change')
+                );
+            })
+        )
+    );
+};
+
+const formatSensitivityValue = (sweep: SensitivitySweep, value: number, money: MoneySettings) => {
+    switch (sweep.id) {
+        case 'budget': return formatMoney(value, money);
+        case 'deadline': return `${value} days`;
+        case 'duration': return `${value} min`;
+        case 'costQuality':
+        case 'speedCost': return `${value}/100`;
+        default: return `×${value.toFixed(2)}`;
+    }
+};
+
+// Metric ranges of the current recommendation across each sweep, widest first
+const getTornadoRows = (report: SensitivityReport, metric: 'totalCost' | 'rawGenerationTimeDays', money: MoneySettings): TornadoRow[] => {
+    const base = metric === 'totalCost' ? report.baseTotalCost : report.baseRawGenerationTimeDays;
+    return report.sweeps.map(sweep => {
+        const points = sweep.points.filter(point => Number.isFinite(point[metric]));
+        const lowPoint = points.reduce((low, point) => point[metric] < low[metric] ? point : low, points[0]);
+        const highPoint = points.reduce((high, point) => point[metric] > high[metric] ? point : high, points[0]);
+        return {
+            label: sweep.label,
+            low: lowPoint ? Math.min(base, lowPoint[metric]) : base,
+            high: highPoint ? Math.max(base, highPoint[metric]) : base,
+            lowNote: lowPoint ? `at ${formatSensitivityValue(sweep, lowPoint.value, money)}` : '',
+            highNote: highPoint ? `at ${formatSensitivityValue(sweep, highPoint.value, money)}` : '',
+        };
+    }).sort((a, b) => (b.high - b.low) - (a.high - a.low));
+};
+
+const SensitivityPanel = ({ inputs, money, catalog, platform, activeHighlightId, onHighlight }: { inputs: RecommendationInputs, money: MoneySettings, catalog: Platform[], platform: ScoredPlatform | null, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const canAnalyze = !!platform && platform.feasible;
+    const report: SensitivityReport | null = useSensitivity(inputs, catalog, isOpen && canAnalyze);
+
+    const describeFlip = (sweep: SensitivitySweep, flip: SensitivityPoint | null, direction: 'below' | 'above') => flip
+        ? `${direction === 'below' ? 'At or below' : 'At or above'} ${formatSensitivityValue(sweep, flip.value, money)}: ${flip.winnerLabel}`
+        : null;
+
+    return React.createElement('div', { className: "bg-white rounded-lg mt-8 border border-slate-200" },
+        React.createElement('div', { className: "flex justify-between items-center p-4 bg-slate-50 text-blue-900 font-bold rounded-t-lg" },
+            React.createElement('h4', { className: 'flex items-center' }, "Sensitivity Analysis", React.createElement(InfoTooltip, { content: "Moves one input or catalog value at a time and re-runs the recommendation. Inputs are swept from half to one and a half times their value (priorities by 30 points either way). Catalog values are scaled from ×0.5 to ×1.5 on the recommended plan and model only." })),
+            React.createElement('button', { type: 'button', onClick: () => setIsOpen(!isOpen), className: "text-blue-600 text-sm font-semibold px-3 py-1.5 rounded-full hover:bg-blue-100" }, isOpen ? "Hide" : "Analyze")
+        ),
+        isOpen && React.createElement('div', { className: "p-4" },
+            !canAnalyze && React.createElement('p', { className: "text-sm text-slate-500" }, "There is no feasible recommendation to analyze."),
+            canAnalyze && !report && React.createElement('p', { className: "text-sm text-slate-500" }, "Calculating..."),
+            report && React.createElement('div', null,
+                React.createElement('p', { className: "text-sm text-slate-600 mb-3" }, `Where the recommendation changes from `, React.createElement('span', { className: "font-semibold text-slate-800" }, report.baseLabel), ` within the swept range:`),
+                React.createElement('ul', { className: "divide-y divide-slate-200 text-sm mb-6" },
+                    report.sweeps.map(sweep => {
+                        const flips = [describeFlip(sweep, sweep.flipBelow, 'below'), describeFlip(sweep, sweep.flipAbove, 'above')].filter(Boolean);
+                        const first = sweep.points[0], last = sweep.points[sweep.points.length - 1];
+                        return React.createElement('li', { key: sweep.id, className: "py-2 grid grid-cols-1 sm:grid-cols-[12rem_1fr] gap-1" },
+                            React.createElement('span', { className: "font-semibold text-blue-900" }, `${sweep.label} (${formatSensitivityValue(sweep, sweep.baseValue, money)})`),
+                            flips.length > 0
+                                ? React.createElement('span', { className: "text-orange-700" }, flips.join(' · '))
+                                : React.createElement('span', { className: "text-emerald-700" }, first && last ? `Stable from ${formatSensitivityValue(sweep, first.value, money)} to ${formatSensitivityValue(sweep, last.value, money)}` : 'Stable')
+                        );
+                    })
+                ),
+                React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.TOTAL_COST, activeHighlightId },
+                    React.createElement(TornadoChart, { title: inputs.calcMode === 'cost' ? "Total Cost" : "Budget Spent", base: report.baseTotalCost, rows: getTornadoRows(report, 'totalCost', money), formatMetric: (value: number) => formatMoney(value, money) })
+                ),
+                React.createElement(HighlightWrapper, { highlightId: HIGHLIGHT_IDS.RAW_GENERATION_TIME, activeHighlightId },
+                    React.createElement(TornadoChart, { title: "Raw Generation Time", base: report.baseRawGenerationTimeDays, rows: getTornadoRows(report, 'rawGenerationTimeDays', money), formatMetric: (value: number) => `${Math.round(value * 10) / 10} days` })
+                ),
+                React.createElement('p', { className: "text-xs text-slate-500 mt-2 flex items-center" }, "Bars show the current recommendation's own cost and time, even where another option would win.",
+                    React.createElement(InfoTooltip, { content: "Green is lower than today, red is higher. Subscription prices are step functions, so cost often stays flat until a sweep forces another subscription or billing month.", highlightId: HIGHLIGHT_IDS.TOTAL_COST, onHighlight }))
+            )
+        )
+    );
+};
+
+const WeightInput = ({ label, value, onChange }: { label: string, value: number, onChange: (value: number) => void }) =>
+    React.createElement('label', { className: "flex items-center justify-between gap-2 text-xs text-slate-600" },
+        React.createElement('span', { className: "truncate", title: label }, label),
+        React.createElement('input', {
+            type: 'number', step: 0.5, min: SCORING_WEIGHT_LIMITS.min, max: SCORING_WEIGHT_LIMITS.max, value,
+            onChange: (e: { target: HTMLInputElement }) => onChange(clampNumber(e.target.value, SCORING_WEIGHT_LIMITS, 0)),
+            className: "w-20 px-2 py-1 border-2 border-slate-300 rounded-md text-right text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none",
+        })
+    );
+
+const ScoringWeightsPanel = ({ weights, catalog, platform, onChange }: { weights: ScoringWeights, catalog: Platform[], platform: ScoredPlatform | null, onChange: (weights: ScoringWeights) => void }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const { profiles, saveProfile, deleteProfile } = useScoringProfiles();
+    const [profileName, setProfileName] = useState('');
+    const [selectedProfileId, setSelectedProfileId] = useState('');
+    const selectedProfile = profiles.find(profile => profile.id === selectedProfileId);
+    const isDefault = JSON.stringify(weights) === JSON.stringify(DEFAULT_SCORING_WEIGHTS);
+
+    const updateQuality = (changes: Partial<ScoringWeights['quality']>) => onChange({ ...weights, quality: { ...weights.quality, ...changes } });
+
+    const handleSave = () => {
+        const name = profileName.trim() || `Profile ${profiles.length + 1}`;
+        saveProfile(name, weights);
+        setProfileName('');
+    };
+    const handleSelect = (id: string) => {
+        setSelectedProfileId(id);
+        const profile = profiles.find(other => other.id === id);
+        if (profile) onChange(profile.weights);
+    };
+
+    const groupClass = "bg-slate-50 p-3 rounded-lg border border-slate-200";
+    const groupTitle = (title: string) => React.createElement('p', { className: "text-sm font-semibold text-blue-900 mb-2" }, title);
+
+    return React.createElement('div', { className: "bg-white rounded-lg mt-8 border border-slate-200" },
+        React.createElement('div', { className: "flex justify-between items-center p-4 bg-slate-50 text-blue-900 font-bold rounded-t-lg" },
+            React.createElement('h4', { className: 'flex items-center' }, `Scoring Settings${isDefault ? '' : ' (customized)'}`, React.createElement(InfoTooltip, { content: "Every fixed number behind the ranking: the feasibility bonus, the penalty per extra account, the expertise fit table, audio points and the quality score tables. Changes re-rank the results straight away and are included in share links. Profiles are stored in this browser." })),
+            React.createElement('button', { type: 'button', onClick: () => setIsOpen(!isOpen), className: "text-blue-600 text-sm font-semibold px-3 py-1.5 rounded-full hover:bg-blue-100" }, isOpen ? "Hide" : "Edit")
+        ),
+        isOpen && React.createElement('div', { className: "p-4 space-y-4" },
+            React.createElement('div', { className: "flex flex-wrap items-center gap-2" },
+                React.createElement('select', { value: selectedProfile ? selectedProfile.id : '', onChange: (e: { target: HTMLSelectElement }) => handleSelect(e.target.value), className: "px-3 py-2 border-2 border-slate-300 rounded-lg text-sm bg-white" },
+                    React.createElement('option', { value: '' }, profiles.length > 0 ? 'Load a profile...' : 'No saved profiles'),
+                    profiles.map(profile => React.createElement('option', { key: profile.id, value: profile.id }, profile.name))
+                ),
+                selectedProfile && React.createElement('button', { type: 'button', onClick: () => { deleteProfile(selectedProfile.id); setSelectedProfileId(''); }, className: "text-xs font-semibold px-2 py-1 rounded-md text-red-700 hover:bg-red-100" }, "Delete"),
+                React.createElement('input', { type: 'text', value: profileName, placeholder: 'Profile name', onChange: (e: { target: HTMLInputElement }) => setProfileName(e.target.value), onKeyDown: (e: KeyboardEvent) => { if (e.key === 'Enter') handleSave(); }, className: "flex-grow px-3 py-2 border-2 border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm" }),
+                React.createElement('button', { type: 'button', onClick: handleSave, className: "px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 transition-colors" }, "Save Profile"),
+                React.createElement('button', { type: 'button', onClick: () => { onChange(DEFAULT_SCORING_WEIGHTS); setSelectedProfileId(''); }, disabled: isDefault, className: "px-4 py-2 rounded-lg text-sm font-semibold bg-slate-200 text-slate-700 hover:bg-slate-300 transition-colors disabled:opacity-50" }, "Reset to Defaults")
+            ),
+            React.createElement('p', { className: "text-sm text-slate-600" }, "Top pick with these settings: ",
+                React.createElement('span', { className: "font-semibold text-slate-800" }, platform ? `${platform.platformName} - ${platform.planName} - ${platform.option.modelName}` : '--')),
+            React.createElement('div', { className: "grid grid-cols-1 md:grid-cols-2 gap-4" },
+                React.createElement('div', { className: `${groupClass} space-y-2` },
+                    groupTitle("Score points"),
+                    React.createElement(WeightInput, { label: "Feasible bonus", value: weights.feasibilityBonus, onChange: (feasibilityBonus: number) => onChange({ ...weights, feasibilityBonus }) }),
+                    React.createElement(WeightInput, { label: "Penalty per account", value: weights.accountPenalty, onChange: (accountPenalty: number) => onChange({ ...weights, accountPenalty }) }),
+                    (['basic', 'advanced'] as const).flatMap(needs => (['match', 'miss'] as const).map(outcome => React.createElement(WeightInput, {
+                        key: `${needs}-${outcome}`,
+                        label: `${needs === 'basic' ? 'Basic' : 'Advanced'} audio, model ${outcome === 'match' ? 'has' : 'lacks'} audio`,
+                        value: weights.audio[needs][outcome],
+                        onChange: (value: number) => onChange({ ...weights, audio: { ...weights.audio, [needs]: { ...weights.audio[needs], [outcome]: value } } }),
+                    })))
+                ),
+                React.createElement('div', { className: groupClass },
+                    groupTitle("Expertise fit (your level vs platform level)"),
+                    React.createElement('div', { className: "grid grid-cols-4 gap-1 items-center text-xs" },
+                        React.createElement('span', null),
+                        TECH_LEVELS.map(level => React.createElement('span', { key: level, className: "text-slate-500 text-center" }, level)),
+                        TECH_LEVELS.flatMap(expertise => [
+                            React.createElement('span', { key: expertise, className: "text-slate-600" }, expertise),
+                            ...TECH_LEVELS.map(level => React.createElement('input', {
+                                key: `${expertise}-${level}`, type: 'number', step: 1, value: weights.expertiseMatch[expertise][level],
+                                onChange: (e: { target: HTMLInputElement }) => onChange({ ...weights, expertiseMatch: { ...weights.expertiseMatch, [expertise]: { ...weights.expertiseMatch[expertise], [level]: clampNumber(e.target.value, SCORING_WEIGHT_LIMITS, 0) } } }),
+                                className: "w-full px-2 py-1 border-2 border-slate-300 rounded-md text-right text-sm",
+                            })),
+                        ])
+                    )
+                ),
+                React.createElement('div', { className: `${groupClass} space-y-2` },
+                    groupTitle("Quality: resolution, audio and features"),
+                    (Object.keys(RESOLUTION_RANK) as Option['resolution'][]).map(resolution => React.createElement(WeightInput, { key: resolution, label: resolution, value: weights.quality.resolution[resolution], onChange: (value: number) => updateQuality({ resolution: { ...weights.quality.resolution, [resolution]: value } }) })),
+                    React.createElement(WeightInput, { label: "Generates audio", value: weights.quality.audio, onChange: (audio: number) => updateQuality({ audio }) }),
+                    OPTION_FEATURES.map(feature => React.createElement(WeightInput, { key: feature, label: feature, value: weights.quality.features[feature], onChange: (value: number) => updateQuality({ features: { ...weights.quality.features, [feature]: value } }) }))
+                ),
+                React.createElement('div', { className: `${groupClass} space-y-2` },
+                    groupTitle("Quality: platform reputation"),
+                    catalog.map(p => React.createElement(WeightInput, { key: p.platformName, label: p.platformName, value: weights.quality.platformReputation[p.platformName] || 0, onChange: (value: number) => updateQuality({ platformReputation: { ...weights.quality.platformReputation, [p.platformName]: value } }) }))
+                ),
+                React.createElement('div', { className: `${groupClass} space-y-2` },
+                    groupTitle("Quality: catalog attributes"),
+                    React.createElement(WeightInput, { label: "At 60 fps (pro rata)", value: weights.quality.frameRate, onChange: (frameRate: number) => updateQuality({ frameRate }) }),
+                    React.createElement(WeightInput, { label: "Per motion coherence point", value: weights.quality.motionCoherence, onChange: (motionCoherence: number) => updateQuality({ motionCoherence }) }),
+                    React.createElement(WeightInput, { label: "Per prompt adherence point", value: weights.quality.promptAdherence, onChange: (promptAdherence: number) => updateQuality({ promptAdherence }) }),
+                    React.createElement(WeightInput, { label: "Per extra aspect ratio", value: weights.quality.aspectRatio, onChange: (aspectRatio: number) => updateQuality({ aspectRatio }) }),
+                    React.createElement(WeightInput, { label: "Watermarked output", value: weights.quality.watermark, onChange: (watermark: number) => updateQuality({ watermark }) }),
+                    React.createElement(WeightInput, { label: "Commercial use licence", value: weights.quality.commercialUse, onChange: (commercialUse: number) => updateQuality({ commercialUse }) })
+                )
+            ),
+            React.createElement('p', { className: "text-xs text-slate-500" }, "Quality scores are capped at 10.")
+        )
+    );
+};
+
+const CalculatorSection = ({ catalog, money, snapshots, activeSnapshot, onSelectSnapshot, activeHighlightId, onHighlight }: { catalog: Platform[], money: MoneySettings, snapshots: CatalogSnapshot[], activeSnapshot: CatalogSnapshot, onSelectSnapshot: (id: string) => void, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
+    const [inputs, setInputs] = useState<RecommendationInputs>(() => decodeInputsFromQuery(window.location.search) || DEFAULT_INPUTS);
+    const [linkCopied, setLinkCopied] = useState(false);
+
+    const [compareSnapshotId, setCompareSnapshotId] = useState('');
     const parametersRef = useRef(null);
     const resultsTableRef = useRef(null);
-    const { primaryRecommendation, sortedPlatforms } = useRecommendation(inputs);
+    const paretoChartRef = useRef(null);
+    const { primaryRecommendation, sortedPlatforms } = useRecommendation(inputs, catalog);
+    const uncertainty: UncertaintyReport | null = useUncertainty(inputs, catalog);
+    // An option picked on the Pareto chart replaces the top pick until the inputs or catalog change
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    useEffect(() => { setSelectedKey(null); }, [inputs, catalog]);
+    const displayedRecommendation = (selectedKey && sortedPlatforms.find((p: ScoredPlatform) => getScoredPlatformKey(p) === selectedKey)) || primaryRecommendation;
 
     const handleExport = useCallback(async (ref, fileName) => {
         if (!ref.current) return;
@@ -957,11 +2108,35 @@ const CalculatorSection = ({ activeHighlightId, onHighlight }) => {
         } catch (error) { console.error('Export failed:', error); }
     }, []);
 
+    const getShareUrl = () => `${window.location.origin}${window.location.pathname}?${encodeInputsToQuery(inputs)}${window.location.hash}`;
+
+    useEffect(() => {
+        window.history.replaceState(null, '', getShareUrl());
+    }, [inputs]);
+
+    const handleCopyLink = useCallback(async () => {
+        try {
+            await navigator.clipboard.writeText(getShareUrl());
+            setLinkCopied(true);
+            setTimeout(() => setLinkCopied(false), 2000);
+        } catch (error) { console.error('Copy link failed:', error); }
+    }, [inputs]);
+
+    const handleLoadScenario = (scenario: Scenario) => {
+        setInputs(scenario.inputs);
+        if (snapshots.some(snap => snap.id === scenario.catalogSnapshotId)) onSelectSnapshot(scenario.catalogSnapshotId);
+    };
+
     const handleChange = (e) => {
         const { name, value, type, checked } = e.target;
         
         if (name === 'calcMode') {
-            return setInputs(prev => ({...prev, calcMode: value, enableComparison: value === 'cost' ? prev.enableComparison : false }));
+            return setInputs(prev => ({...prev, calcMode: value }));
+        }
+
+        // A shot list and a list of deliverables are two ways to describe the same footage
+        if (name === 'useShotList' || name === 'useDeliverables') {
+            return setInputs((prev: RecommendationInputs) => ({ ...prev, [name]: checked, ...(checked ? { [name === 'useShotList' ? 'useDeliverables' : 'useShotList']: false } : {}) }));
         }
 
         if (type === 'checkbox') {
@@ -971,11 +2146,25 @@ const CalculatorSection = ({ activeHighlightId, onHighlight }) => {
         setInputs(prev => ({ ...prev, [name]: type === 'number' || type === 'range' ? Number(value) : value }));
     };
 
+    // Money fields are typed in the display currency including VAT, but inputs stay in net USD
+    const handleMoneyChange = (e: { target: HTMLInputElement }) => {
+        const { name, value } = e.target;
+        setInputs((prev: RecommendationInputs) => ({ ...prev, [name]: convertToUSD(Number(value), money) }));
+    };
+    const getMoneyFieldProps = (key: 'budget' | 'traditionalCost' | 'toolingCost' | 'trainingCost') => ({
+        value: Math.round(convertFromUSD(inputs[key], money)),
+        onChange: handleMoneyChange,
+        min: Math.round(convertFromUSD(INPUT_LIMITS[key].min, money)),
+        max: Math.round(convertFromUSD(INPUT_LIMITS[key].max, money)),
+    });
+
     const getDisplayValue = (key: keyof RecommendationInputs) => {
         switch (key) {
-            case 'deadline': return `${inputs.deadline} days available`;
-            case 'duration': return `${inputs.duration} minutes of content`;
-            case 'budget': return `$${inputs.budget.toLocaleString()} maximum budget`;
+            case 'deadline': return `${inputs.deadline} days available, until ${formatDate(addDays(inputs.startDate, inputs.deadline - 1))}`;
+            case 'duration':
+                if (inputs.useDeliverables) return `${Math.round(getShotListDurationMinutes(inputs.deliverables) * 10) / 10} minutes across ${inputs.deliverables.length} deliverables`;
+                return inputs.useShotList ? `${Math.round(getShotListDurationMinutes(inputs.shots) * 10) / 10} minutes from shot list` : `${inputs.duration} minutes of content`;
+            case 'budget': return `${formatMoney(inputs.budget, money)} maximum budget`;
             case 'costQuality':
                 if (inputs.costQuality < 30) return 'Cost-focused approach';
                 if (inputs.costQuality > 70) return 'Quality-focused approach';
@@ -984,13 +2173,20 @@ const CalculatorSection = ({ activeHighlightId, onHighlight }) => {
                 if (inputs.speedCost < 30) return 'Cost-optimized timeline';
                 if (inputs.speedCost > 70) return 'Speed-optimized timeline';
                 return 'Balanced timing';
-            case 'traditionalCost': return `Cost: $${inputs.traditionalCost.toLocaleString()}`;
+            case 'takesPerClip': return inputs.takesPerClip > 1 ? `${inputs.takesPerClip} generations per usable clip` : 'Every generation is usable';
+            case 'traditionalCost': return `Cost: ${formatMoney(inputs.traditionalCost, money)}`;
             case 'traditionalTime': return `Time: ${inputs.traditionalTime} days`;
+            case 'traditionalDuration': return `Cost and time above buy ${inputs.traditionalDuration} finished minutes`;
+            case 'roiHorizonMonths': return `${inputs.projectsPerMonth * inputs.roiHorizonMonths} projects in total`;
+            case 'toolingCost': case 'trainingCost': return `One-off: ${formatMoney(inputs[key], money)}`;
             default: return '';
         }
     };
     
     const isCostMode = inputs.calcMode === 'cost';
+    const compareSnapshot = snapshots.find(snap => snap.id === compareSnapshotId && snap.id !== activeSnapshot.id);
+    const runnerUp = displayedRecommendation ? sortedPlatforms[sortedPlatforms.indexOf(displayedRecommendation) + 1] || null : null;
+    const isManualPick = !!displayedRecommendation && displayedRecommendation !== primaryRecommendation;
     const mainTitle = isCostMode ? "Optimal Platform Recommendation" : "Maximum Content for your Budget";
 
     return React.createElement('div', null,
@@ -998,7 +2194,10 @@ const CalculatorSection = ({ activeHighlightId, onHighlight }) => {
             React.createElement('div', { ref: parametersRef, className: "lg:col-span-2 bg-white/70 backdrop-blur-sm border border-slate-200 shadow-lg rounded-xl p-6 h-fit" },
                 React.createElement('div', { className: "flex justify-between items-start mb-4" },
                     React.createElement('h3', { className: "text-2xl font-bold text-blue-900" }, "Project Parameters"),
-                     React.createElement('button', { onClick: () => handleExport(parametersRef, 'project-parameters'), title: "Export Parameters", className: "text-blue-600 p-2 rounded-full hover:bg-blue-100" }, React.createElement(DownloadIcon, null))
+                    React.createElement('div', { className: "flex items-center gap-1" },
+                        React.createElement('button', { onClick: handleCopyLink, title: "Copy a link to this calculation", className: "text-blue-600 text-sm font-semibold px-3 py-1.5 rounded-full hover:bg-blue-100" }, linkCopied ? "Link copied!" : "Copy Link"),
+                        React.createElement('button', { onClick: () => handleExport(parametersRef, 'project-parameters'), title: "Export Parameters", className: "text-blue-600 p-2 rounded-full hover:bg-blue-100" }, React.createElement(DownloadIcon, null))
+                    )
                 ),
                  React.createElement(HighlightWrapper, {highlightId: HIGHLIGHT_IDS.CALC_MODE, activeHighlightId},
                     React.createElement('div', { className: "mb-6"},
@@ -1012,25 +2211,61 @@ const CalculatorSection = ({ activeHighlightId, onHighlight }) => {
                         )
                     )
                 ),
-                React.createElement(InputField, { label: "Project Deadline (Days)", id: "deadline", type: "number", value: inputs.deadline, onChange: handleChange, min: 1, max: 365, displayValue: getDisplayValue('deadline'), tooltip: "Enter the total number of days you have to complete the project. This impacts feasibility and the need for parallel processing.", highlightId: HIGHLIGHT_IDS.DEADLINE, activeHighlightId, onHighlight }),
-                React.createElement(InputField, { label: "Total Content Duration (Minutes)", id: "duration", type: "number", value: inputs.duration, onChange: handleChange, min: 1, max: 300, displayValue: getDisplayValue('duration'), disabled: !isCostMode, tooltip: "The total length of the final video. Disabled in 'Calculate Duration' mode.", highlightId: HIGHLIGHT_IDS.DURATION, activeHighlightId, onHighlight }),
-                React.createElement(InputField, { label: "Budget Limit ($)", id: "budget", type: "number", value: inputs.budget, onChange: handleChange, min: 50, max: 20000, displayValue: getDisplayValue('budget'), tooltip: "Your maximum total budget in USD.", highlightId: HIGHLIGHT_IDS.BUDGET, activeHighlightId, onHighlight }),
+                React.createElement(InputField, { label: "Project Deadline (Days)", id: "deadline", type: "number", value: inputs.deadline, onChange: handleChange, ...INPUT_LIMITS.deadline, displayValue: getDisplayValue('deadline'), tooltip: "Enter the total number of calendar days you have to complete the project, counted from the start date. This impacts feasibility and the need for parallel processing.", highlightId: HIGHLIGHT_IDS.DEADLINE, activeHighlightId, onHighlight }),
+                React.createElement(InputField, { label: "Start Date", id: "startDate", type: "date", value: inputs.startDate, onChange: (e: { target: HTMLInputElement }) => isIsoDate(e.target.value) && handleChange(e), tooltip: "The day generation starts. The deadline and the projected completion dates count calendar days from here.", highlightId: HIGHLIGHT_IDS.CALENDAR, activeHighlightId, onHighlight }),
+                React.createElement(WorkingCalendarEditor, { calendar: inputs.calendar, onChange: (calendar: WorkingCalendar) => setInputs((prev: RecommendationInputs) => ({ ...prev, calendar })), activeHighlightId, onHighlight }),
+                React.createElement(InputField, { label: "Total Content Duration (Minutes)", id: "duration", type: "number", value: inputs.duration, onChange: handleChange, ...INPUT_LIMITS.duration, displayValue: getDisplayValue('duration'), disabled: !isCostMode || inputs.useShotList || inputs.useDeliverables, tooltip: "The total length of the final video. Disabled in 'Calculate Duration' mode, and when a shot list or deliverables are used.", highlightId: HIGHLIGHT_IDS.DURATION, activeHighlightId, onHighlight }),
+                React.createElement(HighlightWrapper, {highlightId: HIGHLIGHT_IDS.SHOT_LIST, activeHighlightId},
+                    React.createElement('div', { className: `flex items-center mb-4 bg-slate-50 p-3 rounded-lg border border-slate-200 ${!isCostMode ? 'opacity-50' : ''}` },
+                        React.createElement('input', { type: "checkbox", id: "useShotList", name: "useShotList", checked: isCostMode && inputs.useShotList, onChange: handleChange, disabled: !isCostMode }),
+                        React.createElement('label', { htmlFor: "useShotList", className: "ml-3 block text-sm font-medium text-slate-700" }, "Use Shot List"),
+                        React.createElement(InfoTooltip, { content: "Describe the project as a list of shots instead of a single runtime. Only available in 'Calculate Cost' mode.", highlightId: HIGHLIGHT_IDS.SHOT_LIST, onHighlight })
+                    )
+                ),
+                (isCostMode && inputs.useShotList) && React.createElement(ShotListEditor, { shots: inputs.shots, onChange: (shots: Shot[]) => setInputs((prev: RecommendationInputs) => ({ ...prev, shots })), activeHighlightId, onHighlight }),
+                React.createElement(HighlightWrapper, {highlightId: HIGHLIGHT_IDS.DELIVERABLES, activeHighlightId},
+                    React.createElement('div', { className: `flex items-center mb-4 bg-slate-50 p-3 rounded-lg border border-slate-200 ${!isCostMode ? 'opacity-50' : ''}` },
+                        React.createElement('input', { type: "checkbox", id: "useDeliverables", name: "useDeliverables", checked: isCostMode && inputs.useDeliverables, onChange: handleChange, disabled: !isCostMode }),
+                        React.createElement('label', { htmlFor: "useDeliverables", className: "ml-3 block text-sm font-medium text-slate-700" }, "Multiple Deliverables"),
+                        React.createElement(InfoTooltip, { content: "Plan a campaign of several deliverables against one budget and deadline. Subscriptions are shared between them and the multi-plan portfolio shows what each deliverable costs. Only available in 'Calculate Cost' mode.", highlightId: HIGHLIGHT_IDS.DELIVERABLES, onHighlight })
+                    )
+                ),
+                (isCostMode && inputs.useDeliverables) && React.createElement(DeliverablesEditor, { deliverables: inputs.deliverables, onChange: (deliverables: Deliverable[]) => setInputs((prev: RecommendationInputs) => ({ ...prev, deliverables })), activeHighlightId, onHighlight }),
+                React.createElement(InputField, { label: `Budget Limit (${getCurrencySymbol(money)})`, id: "budget", type: "number", ...getMoneyFieldProps('budget'), displayValue: getDisplayValue('budget'), tooltip: `Your maximum total budget in ${money.currency}${money.vatPercent > 0 ? `, including ${money.vatPercent}% VAT` : ''}.`, highlightId: HIGHLIGHT_IDS.BUDGET, activeHighlightId, onHighlight }),
                 React.createElement(SliderField, { label: "Cost vs Quality Priority", id: "costQuality", value: inputs.costQuality, onChange: handleChange, labels: ['Min Cost', 'Balanced', 'Max Quality'], displayValue: getDisplayValue('costQuality'), tooltip: "'Min Cost' prioritizes the cheapest options. 'Max Quality' prioritizes the best-looking output (e.g., 4K).", highlightId: HIGHLIGHT_IDS.COST_QUALITY, activeHighlightId, onHighlight }),
                 React.createElement(SliderField, { label: "Speed vs Cost Priority", id: "speedCost", value: inputs.speedCost, onChange: handleChange, labels: ['Lowest Cost', 'Balanced', 'Fastest'], displayValue: getDisplayValue('speedCost'), tooltip: "'Lowest Cost' favors cheaper, slower options. 'Fastest' prioritizes options with high parallel processing, which may increase cost.", highlightId: HIGHLIGHT_IDS.SPEED_COST, activeHighlightId, onHighlight }),
                 React.createElement(SelectField, { label: "Audio Requirements", id: "audioNeeds", value: inputs.audioNeeds, onChange: handleChange, options: [{ value: 'none', label: 'No audio needed' }, { value: 'basic', label: 'Basic audio overlay' }, { value: 'advanced', label: 'Integrated audio generation' }], tooltip: "Specify your audio needs. 'Integrated' prioritizes platforms that can generate audio along with the video.", highlightId: HIGHLIGHT_IDS.AUDIO, activeHighlightId, onHighlight }),
                 React.createElement(SelectField, { label: "Technical Expertise Level", id: "expertise", value: inputs.expertise, onChange: handleChange, options: [{ value: 'beginner', label: 'Beginner (GUI only)' }, { value: 'intermediate', label: 'Intermediate (Some API)' }, { value: 'expert', label: 'Expert (Full technical)' }], tooltip: "Your comfort level with technical tools. 'Expert' will favor API-driven platforms for maximum speed and control.", highlightId: HIGHLIGHT_IDS.EXPERTISE, activeHighlightId, onHighlight }),
-                React.createElement('div', { className: `my-6 pt-6 border-t-2 border-slate-200/80 transition-opacity ${!isCostMode ? 'opacity-50 pointer-events-none' : ''}` },
+                React.createElement(ConstraintFiltersEditor, { constraints: inputs.constraints, catalog, onChange: (constraints: ConstraintFilters) => setInputs((prev: RecommendationInputs) => ({ ...prev, constraints })), activeHighlightId, onHighlight }),
+                React.createElement(DeliverySpecEditor, { spec: inputs.deliverySpec, money, isCostMode: inputs.calcMode === 'cost', onChange: (deliverySpec: DeliverySpec) => setInputs((prev: RecommendationInputs) => ({ ...prev, deliverySpec })), activeHighlightId, onHighlight }),
+                React.createElement(InputField, { label: "Takes per Usable Clip", id: "takesPerClip", type: "number", value: inputs.takesPerClip, onChange: handleChange, ...INPUT_LIMITS.takesPerClip, step: 0.5, displayValue: getDisplayValue('takesPerClip'), tooltip: "How many generations you typically burn before a clip is good enough to keep. Multiplies clip counts, credit usage, cost and generation time. Add overrides below for platforms or models with a better or worse hit rate.", highlightId: HIGHLIGHT_IDS.TAKE_RATE, activeHighlightId, onHighlight }),
+                React.createElement(TakeRateOverridesEditor, { overrides: inputs.takeRateOverrides, catalog, onChange: (takeRateOverrides: TakeRateOverride[]) => setInputs((prev: RecommendationInputs) => ({ ...prev, takeRateOverrides })), activeHighlightId }),
+                React.createElement(HighlightWrapper, {highlightId: HIGHLIGHT_IDS.UNCERTAINTY, activeHighlightId},
+                    React.createElement('div', { className: "flex items-center mb-4 bg-slate-50 p-3 rounded-lg border border-slate-200" },
+                        React.createElement('input', { type: "checkbox", id: "simulateUncertainty", name: "simulateUncertainty", checked: inputs.simulateUncertainty, onChange: handleChange }),
+                        React.createElement('label', { htmlFor: "simulateUncertainty", className: "ml-3 block text-sm font-medium text-slate-700" }, "Simulate Uncertainty"),
+                        React.createElement(InfoTooltip, { content: `Runs ${MONTE_CARLO_TRIALS} simulated projects instead of one expected case. Cost ranges in the catalog are sampled instead of averaged, time per clip varies from ×${TIME_PER_CLIP_SPREAD.min} to ×${TIME_PER_CLIP_SPREAD.max} and the take rate from ×${TAKE_RATE_SPREAD.min} to ×${TAKE_RATE_SPREAD.max}. Shows P10/P50/P90 cost and time, and the chance of meeting the budget and deadline.`, highlightId: HIGHLIGHT_IDS.UNCERTAINTY, onHighlight })
+                    )
+                ),
+                React.createElement(LaborEditor, { labor: inputs.labor, money, disabled: !isCostMode, onChange: (labor: LaborInputs) => setInputs((prev: RecommendationInputs) => ({ ...prev, labor })), activeHighlightId, onHighlight }),
+                React.createElement('div', { className: "my-6 pt-6 border-t-2 border-slate-200/80" },
                   React.createElement(HighlightWrapper, {highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId},
                     React.createElement('div', { className: "flex items-center mb-4 bg-slate-50 p-3 rounded-lg border border-slate-200" },
-                         React.createElement('input', { type: "checkbox", id: "enableComparison", name: "enableComparison", checked: isCostMode && inputs.enableComparison, onChange: handleChange, disabled: !isCostMode }),
+                         React.createElement('input', { type: "checkbox", id: "enableComparison", name: "enableComparison", checked: inputs.enableComparison, onChange: handleChange }),
                         React.createElement('label', { htmlFor: "enableComparison", className: "ml-3 block text-sm font-medium text-slate-700" }, "Enable Comparison"),
-                        React.createElement(InfoTooltip, { content: isCostMode ? "Enable this to compare the AI recommendation against a traditional workflow to quantify the return on investment (ROI)." : "Comparison is only available in 'Calculate Cost' mode as it requires a fixed project scope for an accurate ROI calculation.", highlightId: HIGHLIGHT_IDS.ROI, onHighlight })
+                        React.createElement(InfoTooltip, { content: "Enable this to compare the AI recommendation against a traditional workflow to quantify the return on investment (ROI), for one project and for a recurring programme of them.", highlightId: HIGHLIGHT_IDS.ROI, onHighlight })
                     )
                   ),
-                    (isCostMode && inputs.enableComparison) && React.createElement('div', { className: "space-y-4 pl-2 border-l-2 border-blue-200 ml-2 mt-4" },
-                        React.createElement(InputField, { label: "Traditional Cost ($)", id: "traditionalCost", type: "number", value: inputs.traditionalCost, onChange: handleChange, min: 0, max: 100000, displayValue: getDisplayValue('traditionalCost'), highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId, onHighlight, disabled: !isCostMode }),
-                        React.createElement(InputField, { label: "Traditional Time (Days)", id: "traditionalTime", type: "number", value: inputs.traditionalTime, onChange: handleChange, min: 0, max: 365, displayValue: getDisplayValue('traditionalTime'), highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId, onHighlight, disabled: !isCostMode }),
-                        React.createElement(ROIAnalysisSummary, { platform: primaryRecommendation, inputs })
+                    inputs.enableComparison && React.createElement('div', { className: "space-y-4 pl-2 border-l-2 border-blue-200 ml-2 mt-4" },
+                        React.createElement(InputField, { label: `Traditional Cost (${getCurrencySymbol(money)})`, id: "traditionalCost", type: "number", ...getMoneyFieldProps('traditionalCost'), displayValue: getDisplayValue('traditionalCost'), highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId, onHighlight }),
+                        React.createElement(InputField, { label: "Traditional Time (Days)", id: "traditionalTime", type: "number", value: inputs.traditionalTime, onChange: handleChange, ...INPUT_LIMITS.traditionalTime, displayValue: getDisplayValue('traditionalTime'), highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId, onHighlight }),
+                        !isCostMode && React.createElement(InputField, { label: "Traditional Runtime (Minutes)", id: "traditionalDuration", type: "number", value: inputs.traditionalDuration, onChange: handleChange, ...INPUT_LIMITS.traditionalDuration, displayValue: getDisplayValue('traditionalDuration'), tooltip: "The finished runtime the traditional cost and time above produce. They are scaled per minute to the runtime the budget buys with AI.", highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId, onHighlight }),
+                        React.createElement(InputField, { label: "Projects per Month", id: "projectsPerMonth", type: "number", value: inputs.projectsPerMonth, onChange: handleChange, ...INPUT_LIMITS.projectsPerMonth, tooltip: "How many projects like this one you produce each month.", highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId, onHighlight }),
+                        React.createElement(InputField, { label: "Horizon (Months)", id: "roiHorizonMonths", type: "number", value: inputs.roiHorizonMonths, onChange: handleChange, ...INPUT_LIMITS.roiHorizonMonths, displayValue: getDisplayValue('roiHorizonMonths'), highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId, onHighlight }),
+                        React.createElement(InputField, { label: `Tooling Cost (${getCurrencySymbol(money)})`, id: "toolingCost", type: "number", ...getMoneyFieldProps('toolingCost'), displayValue: getDisplayValue('toolingCost'), tooltip: "One-off spend on software, hardware or integrations before the first project.", highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId, onHighlight }),
+                        React.createElement(InputField, { label: `Training Cost (${getCurrencySymbol(money)})`, id: "trainingCost", type: "number", ...getMoneyFieldProps('trainingCost'), displayValue: getDisplayValue('trainingCost'), tooltip: "One-off cost of getting the team up to speed. The platform's setup days are added at the prompting rate when labor is costed.", highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId, onHighlight }),
+                        React.createElement(InputField, { label: "Discount Rate (%/Year)", id: "discountRatePercent", type: "number", value: inputs.discountRatePercent, onChange: handleChange, ...INPUT_LIMITS.discountRatePercent, tooltip: "Used to discount future monthly savings for the net present value.", highlightId: HIGHLIGHT_IDS.ROI, activeHighlightId, onHighlight }),
+                        React.createElement(ROIAnalysisSummary, { platform: displayedRecommendation, inputs, money })
                     )
                 )
             ),
@@ -1041,21 +2276,41 @@ const CalculatorSection = ({ activeHighlightId, onHighlight }) => {
                     ),
                     React.createElement(InfoTooltip, { content: "This is the top-ranked suitable option based on your parameters. See the table below for other alternatives.", highlightId: isCostMode ? HIGHLIGHT_IDS.TOTAL_COST : HIGHLIGHT_IDS.DURATION, onHighlight })
                 ),
-                React.createElement(PrimaryRecommendation, { platform: primaryRecommendation, inputs: inputs, activeHighlightId, onHighlight }),
-                React.createElement(ProjectMetrics, { platform: primaryRecommendation, inputs: inputs, activeHighlightId, onHighlight })
+                isManualPick && React.createElement('div', { className: "flex justify-between items-center gap-2 mb-3 px-3 py-2 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-900" },
+                    React.createElement('span', null, `Showing an option picked on the chart (rank #${sortedPlatforms.indexOf(displayedRecommendation) + 1}).`),
+                    React.createElement('button', { type: 'button', onClick: () => setSelectedKey(null), className: "font-semibold text-blue-700 hover:text-blue-900 whitespace-nowrap" }, "Back to top pick")
+                ),
+                React.createElement(PrimaryRecommendation, { platform: displayedRecommendation, runnerUp, inputs: inputs, money, activeHighlightId, onHighlight }),
+                React.createElement(ProjectMetrics, { platform: displayedRecommendation, inputs: inputs, money, uncertainty: uncertainty && displayedRecommendation ? uncertainty.estimates[getScoredPlatformKey(displayedRecommendation)] || null : null, uncertaintyPending: inputs.simulateUncertainty && !uncertainty, activeHighlightId, onHighlight }),
+                snapshots.length > 1 && React.createElement('div', { className: "mt-5" },
+                    React.createElement(SelectField, { label: "Compare With Price Snapshot", id: "compareSnapshot", value: compareSnapshotId, onChange: (e: { target: HTMLSelectElement }) => setCompareSnapshotId(e.target.value),
+                        options: [{ value: '', label: 'No comparison' }, ...snapshots.filter(snap => snap.id !== activeSnapshot.id).map(snap => ({ value: snap.id, label: `${snap.name} (${snap.effectiveDate})` }))],
+                        tooltip: "Re-run the current inputs against another price snapshot to see how the cost and ranking of the recommendation would change.", highlightId: null, activeHighlightId, onHighlight }),
+                    compareSnapshot && React.createElement(SnapshotComparison, { inputs, money, primaryRecommendation, sortedPlatforms, activeSnapshot, compareSnapshot })
+                )
             )
         ),
+         React.createElement('div', { ref: paretoChartRef, className: "bg-white rounded-lg overflow-hidden mt-8 border border-slate-200" },
+             React.createElement('div', { className: "flex justify-between items-center p-4 bg-slate-50 text-blue-900 font-bold" },
+                React.createElement('h4', { className: 'flex items-center' }, "Cost vs Quality Trade-offs", React.createElement(InfoTooltip, { content: "Every scored option, not just the top 15. Pareto-optimal options are the ones no other feasible option beats on cost, quality and generation time at once. Click a point to show it as the recommendation above.", onHighlight, highlightId: null })),
+                React.createElement('button', { onClick: () => handleExport(paretoChartRef, 'pareto-chart'), title: "Export Chart", className: "text-blue-600 p-2 rounded-full hover:bg-slate-200" }, React.createElement(DownloadIcon, null))
+             ),
+             React.createElement(ParetoChart, { key: inputs.calcMode, platforms: sortedPlatforms, calcMode: inputs.calcMode, money, selectedKey: displayedRecommendation ? getScoredPlatformKey(displayedRecommendation) : null, onSelect: setSelectedKey })
+         ),
          React.createElement('div', { ref: resultsTableRef, className: "bg-white rounded-lg overflow-hidden mt-8 border border-slate-200" },
              React.createElement('div', { className: "flex justify-between items-center p-4 bg-slate-50 text-blue-900 font-bold" },
                 React.createElement('h4', {className: 'flex items-center'}, "Detailed Platform Comparison", React.createElement(InfoTooltip, {content: "A ranked list of the top 15 most suitable options. Options marked in gray were not feasible within your constraints.", onHighlight, highlightId: null})),
                 React.createElement('button', { onClick: () => handleExport(resultsTableRef, 'project-results-table'), title: "Export Table", className: "text-blue-600 p-2 rounded-full hover:bg-slate-200" }, React.createElement(DownloadIcon, null))
              ),
-             React.createElement(ResultsTable, { platforms: sortedPlatforms, calcMode: inputs.calcMode, activeHighlightId, onHighlight })
-         )
+             React.createElement(ResultsTable, { platforms: sortedPlatforms, calcMode: inputs.calcMode, money, uncertainty, activeHighlightId, onHighlight })
+         ),
+         React.createElement(PortfolioPanel, { inputs, money, catalog, onChange: handleChange, activeHighlightId, onHighlight }),
+         React.createElement(SensitivityPanel, { inputs, money, catalog, platform: primaryRecommendation, activeHighlightId, onHighlight }),
+         React.createElement(ScoringWeightsPanel, { weights: inputs.scoringWeights, catalog, platform: primaryRecommendation, onChange: (scoringWeights: ScoringWeights) => setInputs((prev: RecommendationInputs) => ({ ...prev, scoringWeights })) }),
+         React.createElement(ScenarioPanel, { inputs, money, activeSnapshot, snapshots, onLoad: handleLoadScenario })
     );
 };
 
-const getAverage = (value) => (Array.isArray(value) ? (value[0] + value[1]) / 2 : value);
 const Table = ({ children }) => React.createElement('div', { className: "overflow-x-auto rounded-lg border border-slate-200/80 shadow-md my-6" }, React.createElement('table', { className: "w-full text-sm text-left text-slate-600 responsive-table" }, children));
 const TableHeader = ({ headers, onHighlight, activeHighlightId }) => (
     React.createElement('thead', null,
@@ -1075,7 +2330,23 @@ const Tag = ({ text, color, icon = null }) => {
     );
 };
 
-const PlatformCostAnalysisTable = ({ activeHighlightId, onHighlight }) => {
+const ExtraQuotaSummary = ({ plan, money }: { plan: Plan, money: MoneySettings }) => {
+    if (plan.quotaUnit === 'unlimited' || plan.quota <= 0) return React.createElement('span', { className: "text-slate-400" }, "N/A");
+    const perThousand = (rate: number) => `${formatMoney(rate * 1000, money, 2)}/1k`;
+    const subscriptionRate = plan.monthlyCost / plan.quota;
+    const topUps = [
+        ...(plan.overageCost ? [{ label: 'Overage', rate: plan.overageCost.perUnit }] : []),
+        ...(plan.creditPacks || []).map(pack => ({ label: `${pack.units.toLocaleString()} for ${formatMoney(pack.price, money, 2)}`, rate: pack.price / pack.units })),
+    ];
+    if (topUps.length === 0) return React.createElement('span', { className: "text-xs" }, `Subscription only (${perThousand(subscriptionRate)})`);
+    const best = topUps.reduce((a, b) => b.rate < a.rate ? b : a);
+    return React.createElement('div', { className: "text-xs" },
+        best.rate < subscriptionRate ? React.createElement(Tag, { text: "Top-up cheaper", color: 'green' }) : React.createElement(Tag, { text: "Subscription cheaper", color: 'gray' }),
+        React.createElement('span', { className: "block mt-1" }, `${best.label}: ${perThousand(best.rate)} vs ${perThousand(subscriptionRate)}`)
+    );
+};
+
+const PlatformCostAnalysisTable = ({ catalog, money, activeHighlightId, onHighlight }: { catalog: Platform[], money: MoneySettings, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
     const headers = [
         {title: 'Platform', tooltip: "The video generation platform."},
         {title: 'Example Plan', tooltip: "A representative subscription plan for comparison.", highlightId: HIGHLIGHT_IDS.PLAN_COST},
@@ -1083,37 +2354,56 @@ const PlatformCostAnalysisTable = ({ activeHighlightId, onHighlight }) => {
         {title: 'Max Clip Length', tooltip: "The maximum duration of a single generated video clip in seconds.", highlightId: HIGHLIGHT_IDS.DURATION},
         {title: 'Top Quality', tooltip: "The highest resolution available on the platform.", highlightId: HIGHLIGHT_IDS.QUALITY_SCORE},
         {title: 'Audio Support', tooltip: "Whether the platform can generate or integrate audio.", highlightId: HIGHLIGHT_IDS.AUDIO},
-        {title: 'Parallel Processing', tooltip: "The platform's ability to process multiple jobs simultaneously, via GUI or API.", highlightId: HIGHLIGHT_IDS.PARALLEL}
+        {title: 'Parallel Processing', tooltip: "The platform's ability to process multiple jobs simultaneously, via GUI or API.", highlightId: HIGHLIGHT_IDS.PARALLEL},
+        {title: 'Extra Quota', tooltip: "The cheapest way to buy quota beyond the example plan's allowance: a credit pack, overage, or another subscription. Prices are per 1,000 units.", highlightId: HIGHLIGHT_IDS.PLAN_COST}
     ];
     
     return React.createElement(Table, null,
         React.createElement(TableHeader, { headers, onHighlight, activeHighlightId }),
         React.createElement('tbody', { className: "bg-white" },
-            DETAILED_PLATFORM_DATA.map(p => {
+            catalog.map(p => {
                 const examplePlan = p.plans.find(plan => plan.planName.includes("Pro")) || p.plans[p.plans.length - 1];
                 if (!examplePlan) return null;
                 const allCosts = examplePlan.options.map(o => getAverage(o.cost));
                 return React.createElement('tr', { key: p.platformName },
                     React.createElement('td', { 'data-label': 'Platform', className: "p-3 font-bold text-slate-800" }, p.platformName),
-                    React.createElement('td', { 'data-label': 'Example Plan', className: "p-3" }, `${examplePlan.planName} (${examplePlan.monthlyCost > 0 ? `$${examplePlan.monthlyCost}` : 'Pay-per-use'})`),
+                    React.createElement('td', { 'data-label': 'Example Plan', className: "p-3" }, `${examplePlan.planName} (${examplePlan.monthlyCost > 0 ? formatMoney(examplePlan.monthlyCost, money, 2) : 'Pay-per-use'})`),
                     React.createElement('td', { 'data-label': 'Example Cost per Clip*', className: "p-3 font-semibold text-emerald-700" }, `${Math.min(...allCosts)}-${Math.max(...allCosts)} ${examplePlan.options[0]?.costUnit || 'units'}`),
                     React.createElement('td', { 'data-label': 'Max Clip Length', className: "p-3" }, `${Math.max(...p.plans.flatMap(plan => plan.options.map(o => o.maxDurationSec)))}s`),
                     React.createElement('td', { 'data-label': 'Top Quality', className: "p-3" }, React.createElement(Tag, {text: p.plans.some(plan => plan.options.some(o => o.resolution === "4K")) ? "4K" : "1080p+", color: 'blue'})),
                     React.createElement('td', { 'data-label': 'Audio Support', className: "p-3" }, p.plans.some(plan => plan.options.some(o => o.audio)) ? React.createElement(Tag, {text: "Yes", color: "green", icon: '🎵'}) : React.createElement(Tag, {text: "No", color: "gray"})),
-                    React.createElement('td', { 'data-label': 'Parallel Processing', className: "p-3" }, p.apiAvailable === 'Yes' ? 'GUI & API' : 'GUI Only')
+                    React.createElement('td', { 'data-label': 'Parallel Processing', className: "p-3" }, p.apiAvailable === 'Yes' ? 'GUI & API' : 'GUI Only'),
+                    React.createElement('td', { 'data-label': 'Extra Quota', className: "p-3" }, React.createElement(ExtraQuotaSummary, { plan: examplePlan, money }))
                 )
             })
         )
     );
 };
 
-const TimeBatchingAnalysis = ({ activeHighlightId, onHighlight }) => {
+const THROUGHPUT_LABELS: Record<ThroughputConstraint, string> = {
+    parallel: 'Parallel job limit',
+    concurrency: 'Concurrent job cap',
+    requestsPerMinute: 'Requests per minute',
+    dailyUnitCap: 'Daily unit cap',
+};
+
+// e.g. "10 req/min · 20 concurrent"
+const describeRateLimits = (limits: RateLimits | undefined) => limits ? [
+    limits.requestsPerMinute && `${limits.requestsPerMinute} req/min`,
+    limits.concurrentJobs && `${limits.concurrentJobs} concurrent`,
+    limits.dailyUnitCap && `${limits.dailyUnitCap.toLocaleString()} units/day`,
+    limits.queueWaitMin && `${limits.queueWaitMin} min queue`,
+].filter(Boolean).join(' · ') : '';
+
+const TimeBatchingAnalysis = ({ catalog, activeHighlightId, onHighlight }: { catalog: Platform[], activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
     const timeTooltipContent = React.createElement('div', {className: 'text-left text-xs leading-relaxed'},
-        React.createElement('p', {className: 'mb-2'}, "An estimate of the pure machine time required to generate all clips in an ideal, non-stop scenario."),
+        React.createElement('p', {className: 'mb-2'}, "An estimate of the machine time required to generate all clips, in calendar days from the start date."),
         React.createElement('p', {className: 'font-bold'}, "Includes:"),
         React.createElement('ul', {className: 'list-disc list-inside pl-1 mb-2'},
             React.createElement('li', null, "Platform's processing speed."),
-            React.createElement('li', null, "Parallel work capabilities (via GUI or API).")
+            React.createElement('li', null, "Parallel work capabilities (via GUI or API)."),
+            React.createElement('li', null, "Rate limits and daily usage caps."),
+            React.createElement('li', null, "Working hours, weekends and holidays from the working calendar.")
         ),
         React.createElement('p', {className: 'font-bold'}, "Excludes:"),
         React.createElement('ul', {className: 'list-disc list-inside pl-1 mb-3'},
@@ -1129,18 +2419,20 @@ const TimeBatchingAnalysis = ({ activeHighlightId, onHighlight }) => {
         {title: 'Avg. Time / Clip', tooltip: "Estimated real-world time to generate and review one clip.", highlightId: HIGHLIGHT_IDS.RAW_GENERATION_TIME},
         {title: 'Max Parallel Jobs', tooltip: "Maximum number of simultaneous generation jobs. Higher is faster for large projects.", highlightId: HIGHLIGHT_IDS.PARALLEL},
         {title: 'Speed-up Strategy', tooltip: "The best method to accelerate production: using the API for batching or creating multiple accounts for parallel GUI work.", highlightId: HIGHLIGHT_IDS.ACCOUNTS_NEEDED},
+        {title: 'Rate Limits', tooltip: "Per-account limits on requests, concurrent jobs, daily quota spend and queueing. The calculator paces generation by whichever limit is tightest.", highlightId: HIGHLIGHT_IDS.PARALLEL},
     ];
     return React.createElement(React.Fragment, null,
         React.createElement(Table, null,
             React.createElement(TableHeader, { headers, onHighlight, activeHighlightId }),
             React.createElement('tbody', { className: "bg-white" },
-                 DETAILED_PLATFORM_DATA.map(p => {
+                 catalog.map(p => {
                     const representativePlan = p.plans.find(plan => plan.planName.includes('Pro')) || p.plans.find(p => p.maxParallelAPI) || p.plans[0];
                     return React.createElement('tr', { key: p.platformName },
                         React.createElement('td', { 'data-label': 'Platform', className: "p-3 font-bold text-slate-800" }, p.platformName),
                         React.createElement('td', { 'data-label': 'Avg. Time / Clip', className: "p-3" }, `${representativePlan.avgTimePerClipMin} min`),
                         React.createElement('td', { 'data-label': 'Max Parallel Jobs', className: "p-3" }, p.apiAvailable === 'Yes' && representativePlan.maxParallelAPI ? `${representativePlan.maxParallel} (GUI) / ${representativePlan.maxParallelAPI} (API)`: representativePlan.maxParallel),
-                        React.createElement('td', { 'data-label': 'Speed-up Strategy', className: "p-3" }, p.apiAvailable === 'Yes' ? 'API Batching' : 'Multiple Accounts')
+                        React.createElement('td', { 'data-label': 'Speed-up Strategy', className: "p-3" }, p.apiAvailable === 'Yes' ? 'API Batching' : 'Multiple Accounts'),
+                        React.createElement('td', { 'data-label': 'Rate Limits', className: "p-3" }, describeRateLimits(p.plans.find(plan => plan.rateLimits)?.rateLimits) || p.rateLimit || 'None known')
                     )
                  })
              )
@@ -1148,7 +2440,7 @@ const TimeBatchingAnalysis = ({ activeHighlightId, onHighlight }) => {
     );
 };
 
-const DetailedPlatformBreakdowns = ({ activeHighlightId, onHighlight }) => {
+const DetailedPlatformBreakdowns = ({ catalog, money, activeHighlightId, onHighlight }: { catalog: Platform[], money: MoneySettings, activeHighlightId: HighlightId, onHighlight: (id: HighlightId) => void }) => {
     const isMobile = useMediaQuery('(max-width: 960px)');
 
     const headers = [
@@ -1157,12 +2449,12 @@ const DetailedPlatformBreakdowns = ({ activeHighlightId, onHighlight }) => {
         {title: 'Max Duration', tooltip: "Max seconds per clip.", highlightId: HIGHLIGHT_IDS.DURATION},
         {title: 'Resolution', tooltip: "Output video resolution.", highlightId: HIGHLIGHT_IDS.QUALITY_SCORE},
         {title: 'Audio', tooltip: "Audio generation capability.", highlightId: HIGHLIGHT_IDS.AUDIO},
-        {title: 'Cost Per Clip', tooltip: "This is the cost as defined by the platform. The calculator uses this number, along with the plan's subscription price, to determine the final, real-world cost in USD.", highlightId: HIGHLIGHT_IDS.COST_PER_SEC},
+        {title: 'Cost Per Clip', tooltip: "This is the cost as defined by the platform. The calculator uses this number, along with the plan's subscription price, to determine the final, real-world cost in your display currency.", highlightId: HIGHLIGHT_IDS.COST_PER_SEC},
     ];
 
     if (isMobile) {
         return React.createElement('div', null,
-            DETAILED_PLATFORM_DATA.map(platform => (
+            catalog.map(platform => (
                 React.createElement('div', { key: platform.platformName, className: "mb-8" },
                     React.createElement('h4', { className: "text-xl font-bold text-blue-800 mb-2 border-b-2 border-blue-200 pb-1" }, platform.platformName),
                     React.createElement(Table, null,
@@ -1171,7 +2463,9 @@ const DetailedPlatformBreakdowns = ({ activeHighlightId, onHighlight }) => {
                             platform.plans.flatMap((plan) =>
                                 plan.options.map((option) => (
                                     React.createElement('tr', { key: option.modelId },
-                                        React.createElement('td', { 'data-label': "Plan", className: "p-3 font-semibold align-top" }, `${plan.planName} (${plan.monthlyCost > 0 ? `$${plan.monthlyCost}/mo` : 'Pay-per-use'}) ${plan.quota > 0 ? `- ${plan.quota.toLocaleString()} ${plan.quotaUnit}` : ''}`),
+                                        React.createElement('td', { 'data-label': "Plan", className: "p-3 font-semibold align-top" }, `${plan.planName} (${plan.monthlyCost > 0 ? `${formatMoney(plan.monthlyCost, money, 2)}/mo${plan.billingCycle === 'annual' ? ', billed annually' : ''}` : 'Pay-per-use'}) ${plan.quota > 0 ? `- ${plan.quota.toLocaleString()} ${plan.quotaUnit}` : ''}`,
+                                            plan.sourceNote && React.createElement('span', { className: "block text-xs font-normal text-slate-500" }, `Source: ${plan.sourceNote}`)
+                                        ),
                                         React.createElement('td', { 'data-label': "Model Name", className: "p-3" }, option.modelName),
                                         React.createElement('td', { 'data-label': "Max Duration", className: "p-3" }, `${option.maxDurationSec}s`),
                                         React.createElement('td', { 'data-label': "Resolution", className: "p-3" }, React.createElement(Tag, {text: option.resolution, color: 'blue'})),
@@ -1189,7 +2483,7 @@ const DetailedPlatformBreakdowns = ({ activeHighlightId, onHighlight }) => {
     
     // Desktop view
     return React.createElement('div', null,
-        DETAILED_PLATFORM_DATA.map(platform => (
+        catalog.map(platform => (
             React.createElement('div', { key: platform.platformName, className: "mb-8" },
                 React.createElement('h4', { className: "text-xl font-bold text-blue-800 mb-2 border-b-2 border-blue-200 pb-1" }, platform.platformName),
                 React.createElement(Table, null,
@@ -1199,7 +2493,8 @@ const DetailedPlatformBreakdowns = ({ activeHighlightId, onHighlight }) => {
                            plan.options.map((option, optionIndex) => (
                                 React.createElement('tr', { key: option.modelId },
                                     optionIndex === 0 && React.createElement('td', { rowSpan: plan.options.length, className: "p-3 font-semibold align-top border-r border-slate-200/80" },
-                                        `${plan.planName} (${plan.monthlyCost > 0 ? `$${plan.monthlyCost}/mo` : 'Pay-per-use'}) ${plan.quota > 0 ? `- ${plan.quota.toLocaleString()} ${plan.quotaUnit}` : ''}`
+                                        `${plan.planName} (${plan.monthlyCost > 0 ? `${formatMoney(plan.monthlyCost, money, 2)}/mo${plan.billingCycle === 'annual' ? ', billed annually' : ''}` : 'Pay-per-use'}) ${plan.quota > 0 ? `- ${plan.quota.toLocaleString()} ${plan.quotaUnit}` : ''}`,
+                                        plan.sourceNote && React.createElement('span', { className: "block text-xs font-normal text-slate-500" }, `Source: ${plan.sourceNote}`)
                                     ),
                                     React.createElement('td', { className: "p-3" }, option.modelName),
                                     React.createElement('td', { className: "p-3" }, `${option.maxDurationSec}s`),
@@ -1216,6 +2511,443 @@ const DetailedPlatformBreakdowns = ({ activeHighlightId, onHighlight }) => {
     );
 };
 
+const createOptionQuality = (): OptionQuality => ({ frameRate: 24, motionCoherence: 3, promptAdherence: 3, aspectRatios: ['16:9'], watermark: false, commercialUse: true });
+const createCatalogOption = (): Option => ({ modelId: createId('model'), modelName: 'New Model', maxDurationSec: 5, resolution: '1080p', audio: false, costUnit: 'credits', cost: 10, quality: createOptionQuality() });
+const createCatalogPlan = (): Plan => ({ planName: 'New Plan', monthlyCost: 10, quota: 1000, quotaUnit: 'credits', maxParallel: 1, avgTimePerClipMin: 1.5, options: [createCatalogOption()] });
+const createCatalogPlatform = (): Platform => ({ platformName: 'New Platform', apiAvailable: 'No', setupDays: 0.5, techLevel: 'beginner', plans: [createCatalogPlan()] });
+
+const formatCost = (cost: Option['cost']) => Array.isArray(cost) ? `${cost[0]}-${cost[1]}` : String(cost);
+const parseCost = (text: string): Option['cost'] => {
+    const range = text.match(/^\s*(-?[\d.]+)\s*-\s*(-?[\d.]+)\s*$/);
+    return range ? [Number(range[1]), Number(range[2])] : Number(text);
+};
+
+const formatCreditPacks = (packs: Plan['creditPacks']) => (packs || []).map(pack => `${pack.units}@${pack.price}`).join(', ');
+const parseCreditPacks = (text: string): Plan['creditPacks'] => {
+    const entries = text.split(',').map(entry => entry.trim()).filter(Boolean);
+    return entries.length > 0 ? entries.map(entry => {
+        const [units, price] = entry.split('@');
+        return { units: Number(units), price: Number(price) };
+    }) : undefined;
+};
+const CatalogInput = ({ label, value, onChange, type = 'text', options = null, error = null }: { label: string, value: string | number, onChange: (value: string) => void, type?: string, options?: string[] | null, error?: string | null }) => {
+    const inputClass = `w-full px-2 py-1.5 border-2 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm bg-white ${error ? 'border-red-400' : 'border-slate-300'}`;
+    return React.createElement('label', { className: "block text-xs text-slate-600" }, label,
+        options
+            ? React.createElement('select', { value, onChange: (e: { target: HTMLSelectElement }) => onChange(e.target.value), className: inputClass },
+                options.map(opt => React.createElement('option', { key: opt, value: opt }, opt)))
+            : React.createElement('input', { type, value, onChange: (e: { target: HTMLInputElement }) => onChange(e.target.value), className: inputClass }),
+        error && React.createElement('span', { className: "block text-red-600 mt-0.5" }, error)
+    );
+};
+
+// Quality attributes are optional in the catalog; an unrated model can be given them here
+const OptionQualityInput = ({ quality, onChange, errorFor }: { quality: OptionQuality | undefined, onChange: (quality: OptionQuality | undefined) => void, errorFor: (key: string) => string | null }) => {
+    if (!quality) {
+        return React.createElement('div', { className: "flex items-center gap-2 mt-2 text-xs text-slate-500" }, "No quality data: scored on resolution, audio and features only.",
+            React.createElement('button', { type: 'button', onClick: () => onChange(createOptionQuality()), className: "text-xs font-semibold px-2 py-1 rounded-md text-blue-700 hover:bg-blue-100" }, "+ Add Quality Data"));
+    }
+    const update = (changes: Partial<OptionQuality>) => onChange({ ...quality, ...changes });
+    const ratios = [...new Set([...ASPECT_RATIOS, ...quality.aspectRatios])];
+    const error = errorFor('') || ['frameRate', 'motionCoherence', 'promptAdherence', 'aspectRatios', 'watermark', 'commercialUse'].map(errorFor).find(Boolean) || null;
+    return React.createElement('div', { className: "mt-2 pt-2 border-t border-slate-200" },
+        React.createElement('div', { className: "grid grid-cols-2 md:grid-cols-4 gap-2 items-start" },
+            React.createElement(CatalogInput, { label: "Frame Rate (fps)", type: 'number', value: quality.frameRate, onChange: (v: string) => update({ frameRate: Number(v) }), error: errorFor('frameRate') }),
+            React.createElement(CatalogInput, { label: "Motion Coherence (1-5)", type: 'number', value: quality.motionCoherence, onChange: (v: string) => update({ motionCoherence: Number(v) }), error: errorFor('motionCoherence') }),
+            React.createElement(CatalogInput, { label: "Prompt Adherence (1-5)", type: 'number', value: quality.promptAdherence, onChange: (v: string) => update({ promptAdherence: Number(v) }), error: errorFor('promptAdherence') }),
+            React.createElement('div', { className: "flex flex-col gap-1 text-xs text-slate-600 pt-4" },
+                React.createElement('label', { className: "flex items-center gap-2" },
+                    React.createElement('input', { type: 'checkbox', checked: quality.watermark, onChange: (e: { target: HTMLInputElement }) => update({ watermark: e.target.checked }) }), "Watermarked"),
+                React.createElement('label', { className: "flex items-center gap-2" },
+                    React.createElement('input', { type: 'checkbox', checked: quality.commercialUse, onChange: (e: { target: HTMLInputElement }) => update({ commercialUse: e.target.checked }) }), "Commercial use")
+            )
+        ),
+        React.createElement('div', { className: "flex flex-wrap gap-3 items-center mt-2" },
+            React.createElement('span', { className: "text-xs text-slate-600" }, "Aspect ratios:"),
+            ratios.map(ratio => React.createElement('label', { key: ratio, className: "flex items-center gap-1 text-xs text-slate-600" },
+                React.createElement('input', { type: 'checkbox', checked: quality.aspectRatios.includes(ratio), onChange: (e: { target: HTMLInputElement }) => update({ aspectRatios: e.target.checked ? [...quality.aspectRatios, ratio] : quality.aspectRatios.filter(r => r !== ratio) }) }),
+                ratio
+            )),
+            React.createElement('button', { type: 'button', onClick: () => onChange(undefined), className: "text-xs font-semibold px-2 py-1 rounded-md text-red-700 hover:bg-red-100 ml-auto" }, "Remove Quality Data")
+        ),
+        error && React.createElement('p', { className: "text-xs text-red-600 mt-1" }, error)
+    );
+};
+
+const RATE_LIMIT_FIELDS: { key: keyof RateLimits, label: string }[] = [
+    { key: 'requestsPerMinute', label: "Requests / Min" },
+    { key: 'concurrentJobs', label: "Concurrent Jobs" },
+    { key: 'dailyUnitCap', label: "Daily Unit Cap" },
+    { key: 'queueWaitMin', label: "Queue Wait (Min)" },
+];
+
+// Clearing the last limit drops the object, so plans without limits stay clean in exported JSON
+const updateRateLimits = (limits: RateLimits | undefined, key: keyof RateLimits, value: string): RateLimits | undefined => {
+    const next: RateLimits = { ...limits };
+    if (value === '') delete next[key];
+    else next[key] = Number(value);
+    return Object.keys(next).length > 0 ? next : undefined;
+};
+
+// Keeps the raw text while typing so a half-entered range like "10-" isn't parsed away.
+const CostInput = ({ cost, onChange, error }: { cost: Option['cost'], onChange: (cost: Option['cost']) => void, error: string | null }) => {
+    const [text, setText] = useState(formatCost(cost));
+    useEffect(() => { setText(formatCost(cost)); }, [cost]);
+    return React.createElement('div', { onBlur: () => onChange(parseCost(text)) },
+        React.createElement(CatalogInput, { label: "Cost (e.g. 10 or 10-20)", value: text, onChange: setText, error })
+    );
+};
+
+const CreditPacksInput = ({ packs, onChange, error }: { packs: Plan['creditPacks'], onChange: (packs: Plan['creditPacks']) => void, error: string | null }) => {
+    const [text, setText] = useState(formatCreditPacks(packs));
+    useEffect(() => { setText(formatCreditPacks(packs)); }, [packs]);
+    return React.createElement('div', { onBlur: () => onChange(parseCreditPacks(text)) },
+        React.createElement(CatalogInput, { label: "Credit Packs (units@price, ...)", value: text, onChange: setText, error })
+    );
+};
+
+interface CatalogEditorProps {
+    snapshots: CatalogSnapshot[];
+    activeSnapshot: CatalogSnapshot;
+    onSave: (platforms: Platform[]) => void;
+    onReset: () => void;
+    onSelectSnapshot: (id: string) => void;
+    onAddSnapshot: (snapshot: Omit<CatalogSnapshot, 'id'>) => void;
+    onUpdateSnapshot: (id: string, changes: Partial<Omit<CatalogSnapshot, 'id'>>) => void;
+    onDeleteSnapshot: (id: string) => void;
+}
+
+const CatalogEditor = ({ snapshots, activeSnapshot, onSave, onReset, onSelectSnapshot, onAddSnapshot, onUpdateSnapshot, onDeleteSnapshot }: CatalogEditorProps) => {
+    const catalog = activeSnapshot.platforms;
+    const [draft, setDraft] = useState<Platform[]>(catalog);
+    const [errors, setErrors] = useState<CatalogValidationError[]>([]);
+    const [status, setStatus] = useState<string | null>(null);
+    const [expandedPlatform, setExpandedPlatform] = useState<number | null>(null);
+    const fileInputRef = useRef(null);
+
+    useEffect(() => { setDraft(catalog); }, [catalog]);
+
+    const updateDraft = (fn: (platforms: Platform[]) => Platform[]) => {
+        setDraft(fn);
+        setStatus('Unsaved changes');
+    };
+    const updatePlatform = (pi: number, changes: Partial<Platform>) => updateDraft(platforms => platforms.map((p, i) => i === pi ? { ...p, ...changes } : p));
+    const updatePlans = (pi: number, fn: (plans: Plan[]) => Plan[]) => updateDraft(platforms => platforms.map((p, i) => i === pi ? { ...p, plans: fn(p.plans) } : p));
+    const updatePlan = (pi: number, qi: number, changes: Partial<Plan>) => updatePlans(pi, plans => plans.map((q, j) => j === qi ? { ...q, ...changes } : q));
+    const updateOptions = (pi: number, qi: number, fn: (options: Option[]) => Option[]) => updatePlans(pi, plans => plans.map((q, j) => j === qi ? { ...q, options: fn(q.options) } : q));
+    const updateOption = (pi: number, qi: number, oi: number, changes: Partial<Option>) => updateOptions(pi, qi, options => options.map((o, k) => k === oi ? { ...o, ...changes } : o));
+
+    const errorFor = (path: string) => errors.filter((e: CatalogValidationError) => e.path === path).map((e: CatalogValidationError) => e.message).join('; ') || null;
+
+    const handleSave = () => {
+        const { platforms, errors: validationErrors } = validateCatalog(draft);
+        setErrors(validationErrors);
+        if (!platforms) return setStatus(`Not saved: ${validationErrors.length} validation error${validationErrors.length === 1 ? '' : 's'}`);
+        onSave(platforms);
+        setStatus('Catalog saved');
+    };
+
+    const handleExport = () => {
+        const { name, effectiveDate, platforms } = activeSnapshot;
+        const blob = new Blob([JSON.stringify({ name, effectiveDate, platforms }, null, 2)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.download = `platform-catalog-${effectiveDate}.json`;
+        link.href = URL.createObjectURL(blob);
+        link.click();
+        URL.revokeObjectURL(link.href);
+    };
+
+    const handleImport = async (e: { target: HTMLInputElement }) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        let data: unknown;
+        try {
+            data = JSON.parse(await file.text());
+        } catch (error) {
+            setErrors([{ path: '', message: `Invalid JSON: ${(error as Error).message}` }]);
+            return setStatus(`Import of ${file.name} failed`);
+        }
+        const { snapshot, errors: validationErrors } = validateCatalogSnapshot(data);
+        setErrors(validationErrors);
+        if (!snapshot) return setStatus(`Import of ${file.name} rejected: ${validationErrors.length} validation error${validationErrors.length === 1 ? '' : 's'}`);
+        onAddSnapshot(Array.isArray(data) ? { ...snapshot, name: file.name.replace(/\.json$/i, '') } : snapshot);
+        setStatus(`Imported ${snapshot.platforms.length} platforms from ${file.name} as a new snapshot`);
+    };
+
+    const handleDuplicateSnapshot = () => {
+        onAddSnapshot({ name: `${activeSnapshot.name} (copy)`, effectiveDate: new Date().toISOString().slice(0, 10), platforms: draft });
+        setErrors([]);
+        setStatus('Created a new snapshot from the current catalog');
+    };
+
+    const handleReset = () => {
+        onReset();
+        setErrors([]);
+        setStatus('Catalog reset to built-in defaults');
+    };
+
+    const buttonClass = "px-3 py-2 rounded-lg text-sm font-semibold transition-colors";
+    const smallButtonClass = "text-xs font-semibold px-2 py-1 rounded-md transition-colors";
+
+    return React.createElement('div', null,
+        React.createElement('div', { className: "grid grid-cols-1 sm:grid-cols-3 gap-2 mb-3 p-3 bg-blue-50 border border-blue-200 rounded-lg" },
+            React.createElement('label', { className: "block text-xs text-slate-600" }, "Active Snapshot",
+                React.createElement('select', { value: activeSnapshot.id, onChange: (e: { target: HTMLSelectElement }) => onSelectSnapshot(e.target.value), className: "w-full px-2 py-1.5 border-2 border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm bg-white" },
+                    snapshots.map(snap => React.createElement('option', { key: snap.id, value: snap.id }, `${snap.name} (${snap.effectiveDate})`))
+                )
+            ),
+            React.createElement(CatalogInput, { label: "Snapshot Name", value: activeSnapshot.name, onChange: (v: string) => onUpdateSnapshot(activeSnapshot.id, { name: v }) }),
+            React.createElement(CatalogInput, { label: "Priced As Of", type: 'date', value: activeSnapshot.effectiveDate, onChange: (v: string) => v && onUpdateSnapshot(activeSnapshot.id, { effectiveDate: v }) })
+        ),
+        React.createElement('div', { className: "flex flex-wrap gap-2 mb-4" },
+            React.createElement('button', { type: 'button', onClick: handleSave, className: `${buttonClass} bg-blue-600 text-white hover:bg-blue-700` }, "Save Catalog"),
+            React.createElement('button', { type: 'button', onClick: handleDuplicateSnapshot, className: `${buttonClass} bg-slate-200 text-slate-800 hover:bg-slate-300` }, "New Snapshot"),
+            React.createElement('button', { type: 'button', onClick: handleExport, className: `${buttonClass} bg-slate-200 text-slate-800 hover:bg-slate-300` }, "Export JSON"),
+            React.createElement('button', { type: 'button', onClick: () => fileInputRef.current?.click(), className: `${buttonClass} bg-slate-200 text-slate-800 hover:bg-slate-300` }, "Import JSON"),
+            React.createElement('input', { ref: fileInputRef, type: 'file', accept: 'application/json,.json', onChange: handleImport, className: 'hidden' }),
+            React.createElement('button', { type: 'button', onClick: handleReset, className: `${buttonClass} text-red-700 hover:bg-red-100` }, "Reset to Defaults"),
+            React.createElement('button', { type: 'button', onClick: () => onDeleteSnapshot(activeSnapshot.id), disabled: snapshots.length <= 1, className: `${buttonClass} text-red-700 hover:bg-red-100 disabled:opacity-50` }, "Delete Snapshot")
+        ),
+        status && React.createElement('p', { className: `text-sm font-medium mb-3 ${errors.length > 0 ? 'text-red-700' : 'text-slate-600'}` }, status),
+        errors.length > 0 && React.createElement('ul', { className: "mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-800 space-y-1 max-h-48 overflow-y-auto" },
+            errors.map((error: CatalogValidationError, i: number) => React.createElement('li', { key: i }, React.createElement('code', { className: 'font-semibold' }, error.path || '(root)'), `: ${error.message}`))
+        ),
+        draft.map((platform: Platform, pi: number) => React.createElement('div', { key: pi, className: "mb-3 border border-slate-200 rounded-lg" },
+            React.createElement('div', { className: "flex justify-between items-center p-3 bg-slate-50 rounded-t-lg cursor-pointer", onClick: () => setExpandedPlatform(expandedPlatform === pi ? null : pi) },
+                React.createElement('span', { className: "font-bold text-blue-900" }, `${platform.platformName || '(unnamed)'} · ${platform.plans.length} plans`),
+                React.createElement('div', { className: "flex gap-2 items-center" },
+                    React.createElement('button', { type: 'button', onClick: (e: MouseEvent) => { e.stopPropagation(); updateDraft(platforms => platforms.filter((_, i) => i !== pi)); }, className: `${smallButtonClass} text-red-700 hover:bg-red-100` }, "Remove"),
+                    React.createElement('span', { className: `transform transition-transform ${expandedPlatform === pi ? 'rotate-180' : ''}` }, '▼')
+                )
+            ),
+            expandedPlatform === pi && React.createElement('div', { className: "p-3 space-y-4" },
+                React.createElement('div', { className: "grid grid-cols-2 md:grid-cols-5 gap-2" },
+                    React.createElement(CatalogInput, { label: "Platform Name", value: platform.platformName, onChange: (v: string) => updatePlatform(pi, { platformName: v }), error: errorFor(`[${pi}].platformName`) }),
+                    React.createElement(CatalogInput, { label: "API Available", value: platform.apiAvailable, options: API_AVAILABILITY, onChange: (v: string) => updatePlatform(pi, { apiAvailable: v as Platform['apiAvailable'] }), error: errorFor(`[${pi}].apiAvailable`) }),
+                    React.createElement(CatalogInput, { label: "Rate Limit", value: platform.rateLimit ?? '', onChange: (v: string) => updatePlatform(pi, { rateLimit: v || undefined }), error: errorFor(`[${pi}].rateLimit`) }),
+                    React.createElement(CatalogInput, { label: "Setup Days", type: 'number', value: platform.setupDays, onChange: (v: string) => updatePlatform(pi, { setupDays: Number(v) }), error: errorFor(`[${pi}].setupDays`) }),
+                    React.createElement(CatalogInput, { label: "Tech Level", value: platform.techLevel, options: TECH_LEVELS, onChange: (v: string) => updatePlatform(pi, { techLevel: v as Platform['techLevel'] }), error: errorFor(`[${pi}].techLevel`) })
+                ),
+                platform.plans.map((plan, qi) => {
+                    const planPath = `[${pi}].plans[${qi}]`;
+                    return React.createElement('div', { key: qi, className: "border-l-4 border-blue-200 pl-3" },
+                        React.createElement('div', { className: "flex justify-between items-center mb-2" },
+                            React.createElement('span', { className: "font-semibold text-slate-800" }, plan.planName || '(unnamed plan)'),
+                            React.createElement('button', { type: 'button', onClick: () => updatePlans(pi, plans => plans.filter((_, j) => j !== qi)), className: `${smallButtonClass} text-red-700 hover:bg-red-100` }, "Remove Plan")
+                        ),
+                        React.createElement('div', { className: "grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-2 mb-2" },
+                            React.createElement(CatalogInput, { label: "Plan Name", value: plan.planName, onChange: (v: string) => updatePlan(pi, qi, { planName: v }), error: errorFor(`${planPath}.planName`) }),
+                            React.createElement(CatalogInput, { label: "Monthly Cost (USD)", type: 'number', value: plan.monthlyCost, onChange: (v: string) => updatePlan(pi, qi, { monthlyCost: Number(v) }), error: errorFor(`${planPath}.monthlyCost`) }),
+                            React.createElement(CatalogInput, { label: "Quota", type: 'number', value: plan.quota, onChange: (v: string) => updatePlan(pi, qi, { quota: Number(v) }), error: errorFor(`${planPath}.quota`) }),
+                            React.createElement(CatalogInput, { label: "Quota Unit", value: plan.quotaUnit, options: QUOTA_UNITS, onChange: (v: string) => updatePlan(pi, qi, { quotaUnit: v as Plan['quotaUnit'] }), error: errorFor(`${planPath}.quotaUnit`) }),
+                            React.createElement(CatalogInput, { label: "Max Parallel (GUI)", type: 'number', value: plan.maxParallel, onChange: (v: string) => updatePlan(pi, qi, { maxParallel: Number(v) }), error: errorFor(`${planPath}.maxParallel`) }),
+                            React.createElement(CatalogInput, { label: "Max Parallel (API)", type: 'number', value: plan.maxParallelAPI ?? '', onChange: (v: string) => updatePlan(pi, qi, { maxParallelAPI: v === '' ? undefined : Number(v) }), error: errorFor(`${planPath}.maxParallelAPI`) }),
+                            React.createElement(CatalogInput, { label: "Avg. Min / Clip", type: 'number', value: plan.avgTimePerClipMin, onChange: (v: string) => updatePlan(pi, qi, { avgTimePerClipMin: Number(v) }), error: errorFor(`${planPath}.avgTimePerClipMin`) })
+                        ),
+                        React.createElement('div', { className: "grid grid-cols-2 md:grid-cols-4 gap-2 mb-2" },
+                            React.createElement(CatalogInput, { label: "Billing", value: plan.billingCycle ?? 'monthly', options: BILLING_CYCLES, onChange: (v: string) => updatePlan(pi, qi, { billingCycle: v === 'annual' ? 'annual' : undefined }), error: errorFor(`${planPath}.billingCycle`) }),
+                            React.createElement(CatalogInput, { label: "Overage (USD / unit)", type: 'number', value: plan.overageCost?.perUnit ?? '', onChange: (v: string) => updatePlan(pi, qi, { overageCost: v === '' ? undefined : { perUnit: Number(v), unit: plan.quotaUnit } }), error: errorFor(`${planPath}.overageCost.perUnit`) }),
+                            React.createElement(CreditPacksInput, { packs: plan.creditPacks, onChange: (creditPacks: Plan['creditPacks']) => updatePlan(pi, qi, { creditPacks }), error: errorFor(`${planPath}.creditPacks`) || (plan.creditPacks || []).map((_, ki) => errorFor(`${planPath}.creditPacks[${ki}].units`) || errorFor(`${planPath}.creditPacks[${ki}].price`)).find(Boolean) || null }),
+                            React.createElement(CatalogInput, { label: "Price Source", value: plan.sourceNote ?? '', onChange: (v: string) => updatePlan(pi, qi, { sourceNote: v || undefined }), error: errorFor(`${planPath}.sourceNote`) })
+                        ),
+                        React.createElement('div', { className: "grid grid-cols-2 md:grid-cols-4 gap-2 mb-2" },
+                            RATE_LIMIT_FIELDS.map(({ key, label }) => React.createElement(CatalogInput, { key, label, type: 'number', value: plan.rateLimits?.[key] ?? '', onChange: (v: string) => updatePlan(pi, qi, { rateLimits: updateRateLimits(plan.rateLimits, key, v) }), error: errorFor(`${planPath}.rateLimits.${key}`) }))
+                        ),
+                        errorFor(`${planPath}.options`) && React.createElement('p', { className: "text-xs text-red-600 mb-2" }, errorFor(`${planPath}.options`)),
+                        plan.options.map((option, oi) => {
+                            const optionPath = `${planPath}.options[${oi}]`;
+                            return React.createElement('div', { key: oi, className: "bg-slate-50 border border-slate-200 rounded-md p-2 mb-2" },
+                                React.createElement('div', { className: "grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-2 items-start" },
+                                    React.createElement(CatalogInput, { label: "Model ID", value: option.modelId, onChange: (v: string) => updateOption(pi, qi, oi, { modelId: v }), error: errorFor(`${optionPath}.modelId`) }),
+                                    React.createElement(CatalogInput, { label: "Model Name", value: option.modelName, onChange: (v: string) => updateOption(pi, qi, oi, { modelName: v }), error: errorFor(`${optionPath}.modelName`) }),
+                                    React.createElement(CatalogInput, { label: "Max Duration (s)", type: 'number', value: option.maxDurationSec, onChange: (v: string) => updateOption(pi, qi, oi, { maxDurationSec: Number(v) }), error: errorFor(`${optionPath}.maxDurationSec`) }),
+                                    React.createElement(CatalogInput, { label: "Resolution", value: option.resolution, options: Object.keys(RESOLUTION_RANK), onChange: (v: string) => updateOption(pi, qi, oi, { resolution: v as Option['resolution'] }), error: errorFor(`${optionPath}.resolution`) }),
+                                    React.createElement(CatalogInput, { label: "Cost Unit", value: option.costUnit, options: COST_UNITS, onChange: (v: string) => updateOption(pi, qi, oi, { costUnit: v as Option['costUnit'] }), error: errorFor(`${optionPath}.costUnit`) }),
+                                    React.createElement(CostInput, { cost: option.cost, onChange: (cost: Option['cost']) => updateOption(pi, qi, oi, { cost }), error: errorFor(`${optionPath}.cost`) }),
+                                    React.createElement('label', { className: "flex items-center gap-2 text-xs text-slate-600 pt-5" },
+                                        React.createElement('input', { type: 'checkbox', checked: option.audio, onChange: (e: { target: HTMLInputElement }) => updateOption(pi, qi, oi, { audio: e.target.checked }) }),
+                                        "Audio"
+                                    )
+                                ),
+                                React.createElement('div', { className: "flex flex-wrap gap-3 items-center mt-2" },
+                                    OPTION_FEATURES.map(feature => React.createElement('label', { key: feature, className: "flex items-center gap-1 text-xs text-slate-600" },
+                                        React.createElement('input', { type: 'checkbox', checked: !!option.features?.includes(feature), onChange: (e: { target: HTMLInputElement }) => {
+                                            const features = e.target.checked ? [...(option.features ?? []), feature] : (option.features ?? []).filter(f => f !== feature);
+                                            updateOption(pi, qi, oi, { features: features.length > 0 ? features : undefined });
+                                        } }),
+                                        feature
+                                    )),
+                                    React.createElement('button', { type: 'button', onClick: () => updateOptions(pi, qi, options => options.filter((_, k) => k !== oi)), className: `${smallButtonClass} text-red-700 hover:bg-red-100 ml-auto` }, "Remove Model")
+                                ),
+                                React.createElement(OptionQualityInput, { quality: option.quality, onChange: (quality: OptionQuality | undefined) => updateOption(pi, qi, oi, { quality }), errorFor: (key: string) => errorFor(`${optionPath}.quality${key ? `.${key}` : ''}`) })
+                            );
+                        }),
+                        React.createElement('button', { type: 'button', onClick: () => updateOptions(pi, qi, options => [...options, createCatalogOption()]), className: `${smallButtonClass} text-blue-700 hover:bg-blue-100` }, "+ Add Model")
+                    );
+                }),
+                React.createElement('button', { type: 'button', onClick: () => updatePlans(pi, plans => [...plans, createCatalogPlan()]), className: "w-full py-2 border-2 border-dashed border-blue-300 text-blue-700 text-sm font-semibold rounded-lg hover:bg-blue-50 transition-colors" }, "+ Add Plan")
+            )
+        )),
+        React.createElement('button', { type: 'button', onClick: () => { updateDraft(platforms => [...platforms, createCatalogPlatform()]); setExpandedPlatform(draft.length); }, className: "w-full py-2 border-2 border-dashed border-blue-300 text-blue-700 text-sm font-semibold rounded-lg hover:bg-blue-50 transition-colors" }, "+ Add Platform")
+    );
+};
+
+const CatalogChangesTable = ({ changes }: { changes: CatalogChange[] }) => {
+    const formatValue = (field: CatalogChange['field'], value: CatalogChange['before']) => {
+        if (field === 'overageCost') {
+            const overage = value as Plan['overageCost'];
+            return overage ? `$${overage.perUnit} per ${overage.unit}` : 'None';
+        }
+        if (field === 'creditPacks') {
+            const packs = value as CreditPack[];
+            return packs.length > 0 ? packs.map(pack => `${pack.units.toLocaleString()} for $${pack.price}`).join(', ') : 'None';
+        }
+        if (field === 'billingCycle') return value as string;
+        if (value === undefined) return '';
+        const amount = value as number | [number, number];
+        if (field === 'monthlyCost') return `$${amount}`;
+        if (field === 'maxDurationSec') return `${amount}s`;
+        return Array.isArray(amount) ? formatCost(amount) : amount.toLocaleString();
+    };
+    const kindColors = { added: 'green', removed: 'red', changed: 'blue' };
+
+    return React.createElement(Table, null,
+        React.createElement('thead', null,
+            React.createElement('tr', { className: "bg-gradient-to-r from-blue-800 to-blue-500 text-white text-xs uppercase" },
+                ['Platform', 'Plan', 'Model', 'Change', 'Before', 'After'].map(title => React.createElement('th', { key: title, className: "p-3 font-semibold tracking-wider" }, title))
+            )
+        ),
+        React.createElement('tbody', { className: "bg-white" },
+            changes.map((change, i) => React.createElement('tr', { key: i },
+                React.createElement('td', { 'data-label': 'Platform', className: "p-3 font-semibold text-slate-800" }, change.platformName),
+                React.createElement('td', { 'data-label': 'Plan', className: "p-3" }, change.planName),
+                React.createElement('td', { 'data-label': 'Model', className: "p-3" }, change.modelId || '—'),
+                React.createElement('td', { 'data-label': 'Change', className: "p-3" }, React.createElement(Tag, { text: change.field ? `${change.field} changed` : change.kind, color: kindColors[change.kind] })),
+                React.createElement('td', { 'data-label': 'Before', className: "p-3" }, formatValue(change.field, change.before)),
+                React.createElement('td', { 'data-label': 'After', className: "p-3 font-semibold" }, formatValue(change.field, change.after))
+            ))
+        )
+    );
+};
+
+const CatalogDiffView = ({ snapshots, activeSnapshot }: { snapshots: CatalogSnapshot[], activeSnapshot: CatalogSnapshot }) => {
+    const activeIndex = snapshots.findIndex(snap => snap.id === activeSnapshot.id);
+    const [beforeId, setBeforeId] = useState(snapshots[Math.max(0, activeIndex - 1)].id);
+    const [afterId, setAfterId] = useState(activeSnapshot.id);
+    const before = snapshots.find(snap => snap.id === beforeId) || snapshots[0];
+    const after = snapshots.find(snap => snap.id === afterId) || activeSnapshot;
+    const changes = diffCatalogs(before.platforms, after.platforms);
+
+    const selectClass = "w-full px-2 py-1.5 border-2 border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm bg-white";
+    const snapshotSelect = (label: string, value: string, onChange: (id: string) => void) => React.createElement('label', { className: "block text-xs text-slate-600" }, label,
+        React.createElement('select', { value, onChange: (e: { target: HTMLSelectElement }) => onChange(e.target.value), className: selectClass },
+            snapshots.map(snap => React.createElement('option', { key: snap.id, value: snap.id }, `${snap.name} (${snap.effectiveDate})`))
+        )
+    );
+
+    if (snapshots.length < 2) {
+        return React.createElement('p', { className: "text-sm text-slate-600" }, "Only one price snapshot exists. Create or import another snapshot in the Platform Catalog to compare prices over time.");
+    }
+
+    return React.createElement('div', null,
+        React.createElement('div', { className: "grid grid-cols-1 sm:grid-cols-2 gap-3" },
+            snapshotSelect("From Snapshot", before.id, setBeforeId),
+            snapshotSelect("To Snapshot", after.id, setAfterId)
+        ),
+        changes.length === 0
+            ? React.createElement('p', { className: "text-sm text-slate-600 mt-4" }, "No plan or model changes between these snapshots.")
+            : React.createElement(CatalogChangesTable, { changes })
+    );
+};
+
+const loadStoredPriceFeedUrl = () => {
+    try {
+        return window.localStorage.getItem(PRICE_FEED_URL_STORAGE_KEY) || '';
+    } catch { return ''; }
+};
+
+// Reads a price feed into a pending snapshot and shows what it would change against the active snapshot.
+// Nothing is stored until the update is accepted, which adds it as a new snapshot so the old prices stay comparable.
+const PriceUpdatePanel = ({ activeSnapshot, onAccept }: { activeSnapshot: CatalogSnapshot, onAccept: (snapshot: Omit<CatalogSnapshot, 'id'>) => void }) => {
+    const [feedUrl, setFeedUrl] = useState(loadStoredPriceFeedUrl);
+    const [pending, setPending] = useState<{ source: PriceSource; snapshot: Omit<CatalogSnapshot, 'id'> } | null>(null);
+    const [errors, setErrors] = useState<CatalogValidationError[]>([]);
+    const [status, setStatus] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const fileInputRef = useRef(null);
+
+    useEffect(() => {
+        try {
+            window.localStorage.setItem(PRICE_FEED_URL_STORAGE_KEY, feedUrl);
+        } catch (error) { console.error('Failed to persist price feed URL:', error); }
+    }, [feedUrl]);
+
+    const loadSource = async (source: PriceSource) => {
+        setIsLoading(true);
+        setPending(null);
+        setErrors([]);
+        setStatus(`Loading ${source.label}...`);
+        try {
+            const data = await source.load();
+            const { snapshot, errors: validationErrors } = validateCatalogSnapshot(data);
+            setErrors(validationErrors);
+            if (!snapshot) return setStatus(`${source.label} rejected: ${validationErrors.length} validation error${validationErrors.length === 1 ? '' : 's'}`);
+            setPending({ source, snapshot: Array.isArray(data) ? { ...snapshot, name: source.label.replace(/\.json$/i, '') } : snapshot });
+            setStatus(null);
+        } catch (error) {
+            setStatus((error as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleFile = (e: { target: HTMLInputElement }) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) loadSource(createFilePriceSource(file));
+    };
+
+    const handleAccept = () => {
+        if (!pending) return;
+        onAccept(pending.snapshot);
+        setStatus(`Added ${pending.snapshot.name} (${pending.snapshot.effectiveDate}) as the active snapshot`);
+        setPending(null);
+    };
+
+    const changes = pending ? diffCatalogs(activeSnapshot.platforms, pending.snapshot.platforms) : [];
+    const countChanges = (kind: CatalogChange['kind']) => changes.filter(change => change.kind === kind).length;
+    const buttonClass = "px-3 py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50";
+    const secondaryButtonClass = `${buttonClass} bg-slate-200 text-slate-800 hover:bg-slate-300`;
+
+    return React.createElement('div', null,
+        React.createElement('div', { className: "flex flex-wrap gap-2 mb-3" },
+            React.createElement('button', { type: 'button', disabled: isLoading, onClick: () => loadSource(createBundledPriceSource(BUILT_IN_SNAPSHOT)), className: secondaryButtonClass }, "Load Bundled Prices"),
+            React.createElement('button', { type: 'button', disabled: isLoading, onClick: () => fileInputRef.current?.click(), className: secondaryButtonClass }, "Load File"),
+            React.createElement('input', { ref: fileInputRef, type: 'file', accept: 'application/json,.json', onChange: handleFile, className: 'hidden' })
+        ),
+        React.createElement('div', { className: "flex flex-wrap gap-2 mb-3" },
+            React.createElement('input', { type: 'url', value: feedUrl, placeholder: "https://prices.example.internal/catalog.json", 'aria-label': "Price feed URL", onChange: (e: { target: HTMLInputElement }) => setFeedUrl(e.target.value.trim()), className: "flex-1 min-w-[16rem] px-2 py-1.5 border-2 border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm" }),
+            React.createElement('button', { type: 'button', disabled: isLoading || !feedUrl, onClick: () => loadSource(createHttpPriceSource(feedUrl)), className: `${buttonClass} bg-blue-600 text-white hover:bg-blue-700` }, "Fetch Prices")
+        ),
+        status && React.createElement('p', { className: `text-sm font-medium mb-3 ${errors.length > 0 ? 'text-red-700' : 'text-slate-600'}` }, status),
+        errors.length > 0 && React.createElement('ul', { className: "mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-800 space-y-1 max-h-48 overflow-y-auto" },
+            errors.map((error: CatalogValidationError, i: number) => React.createElement('li', { key: i }, React.createElement('code', { className: 'font-semibold' }, error.path || '(root)'), `: ${error.message}`))
+        ),
+        pending && React.createElement('div', { className: "p-3 bg-blue-50 border border-blue-200 rounded-lg" },
+            React.createElement('p', { className: "font-semibold text-blue-900" }, `${pending.snapshot.name} (${pending.snapshot.effectiveDate}) from ${pending.source.label}`),
+            React.createElement('p', { className: "text-sm text-slate-600" }, changes.length === 0
+                ? `Same plans and prices as ${activeSnapshot.name}.`
+                : `Against ${activeSnapshot.name}: ${countChanges('added')} added, ${countChanges('removed')} removed, ${countChanges('changed')} changed.`),
+            changes.length > 0 && React.createElement(CatalogChangesTable, { changes }),
+            React.createElement('div', { className: "flex flex-wrap gap-2 mt-3" },
+                React.createElement('button', { type: 'button', onClick: handleAccept, disabled: changes.length === 0, className: `${buttonClass} bg-blue-600 text-white hover:bg-blue-700` }, "Accept as New Snapshot"),
+                React.createElement('button', { type: 'button', onClick: () => setPending(null), className: `${buttonClass} text-red-700 hover:bg-red-100` }, "Discard")
+            )
+        )
+    );
+};
+
 const Header = () => {
     return React.createElement('header', { className: "bg-gradient-to-br from-blue-900 to-blue-600 text-white p-6 md:p-10 rounded-xl shadow-2xl mb-8 relative overflow-hidden" },
         React.createElement('div', { className: "absolute inset-0 bg-grid-pattern opacity-10" }),
@@ -1227,8 +2959,37 @@ const Header = () => {
     )
 };
 
+// Display currency, exchange rates and VAT. Only changes how amounts are shown; the catalog stays in USD.
+const MoneySettingsBar = ({ money, onChange }: { money: MoneySettings, onChange: (money: MoneySettings) => void }) => {
+    const inputClass = "px-2 py-1 border-2 border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white";
+    const setRate = (code: CurrencyCode, value: string) => {
+        if (value.trim() === '' || !(Number(value) > 0)) return;
+        onChange({ ...money, rates: { ...money.rates, [code]: Math.min(MONEY_LIMITS.rate.max, Math.max(MONEY_LIMITS.rate.min, Number(value))) } });
+    };
+
+    return React.createElement('div', { className: "bg-white/70 backdrop-blur-sm border border-slate-200 shadow rounded-xl px-4 py-3 mb-8 flex flex-wrap items-center gap-x-6 gap-y-3 text-sm" },
+        React.createElement('label', { className: "flex items-center gap-2 font-semibold text-blue-900" }, "Currency",
+            React.createElement('select', { value: money.currency, onChange: (e: { target: HTMLSelectElement }) => onChange({ ...money, currency: e.target.value as CurrencyCode }), className: inputClass },
+                CURRENCIES.map(code => React.createElement('option', { key: code, value: code }, code))
+            )
+        ),
+        CURRENCIES.filter(code => code !== 'USD').map(code => React.createElement('label', { key: code, className: "flex items-center gap-2 text-slate-600" }, `1 USD =`,
+            React.createElement('input', { type: 'number', min: MONEY_LIMITS.rate.min, step: 0.01, defaultValue: money.rates[code], onChange: (e: { target: HTMLInputElement }) => setRate(code, e.target.value), className: `${inputClass} w-24` }),
+            code
+        )),
+        React.createElement('label', { className: "flex items-center gap-2 text-slate-600" }, "VAT / sales tax",
+            React.createElement('input', { type: 'number', ...MONEY_LIMITS.vatPercent, step: 0.5, value: money.vatPercent, onChange: (e: { target: HTMLInputElement }) => onChange({ ...money, vatPercent: clampNumber(e.target.value, MONEY_LIMITS.vatPercent, 0) }), className: `${inputClass} w-20` }),
+            "%"
+        ),
+        React.createElement('span', { className: "text-xs text-slate-500 flex items-center" }, `Catalog prices are in USD${money.vatPercent > 0 ? ' excluding tax' : ''}`,
+            React.createElement(InfoTooltip, { content: "Amounts are converted with the rates above and shown with VAT added. Exchange rates are not fetched; edit them to match your bank or card rate. Platform catalog prices stay in USD." }))
+    );
+};
+
 const App = () => {
   const [activeHighlightId, setActiveHighlightId] = useState<HighlightId>(null);
+  const { money, setMoney } = useMoneySettings();
+  const { snapshots, activeSnapshot, catalog, saveCatalog, resetCatalog, selectSnapshot, addSnapshot, updateSnapshot, deleteSnapshot } = useCatalog();
   
   const handleHighlight = useCallback((id: HighlightId) => {
     setActiveHighlightId(prevId => prevId === id ? null : id);
@@ -1241,25 +3002,26 @@ const App = () => {
       'main',
       { className: "max-w-7xl mx-auto p-4 md:p-8" },
       React.createElement(Header, null),
+      React.createElement(MoneySettingsBar, { money, onChange: setMoney }),
       React.createElement(CollapsibleSection, {
         title: "Interactive Cost & Time Calculator", icon: "🧮", badgeText: "Decision Tool", defaultOpen: true,
         tooltip: "This is the main tool. Set your project parameters here to get a tailored recommendation.",
         highlightId: null,
         activeHighlightId,
         onHighlight: handleHighlight,
-        children: React.createElement(CalculatorSection, { activeHighlightId, onHighlight: handleHighlight })
+        children: React.createElement(CalculatorSection, { catalog, money, snapshots, activeSnapshot, onSelectSnapshot: selectSnapshot, activeHighlightId, onHighlight: handleHighlight })
       }),
       React.createElement(CollapsibleSection, {
         title: "High-Level Cost Analysis", icon: "📊", badgeText: "Quick Comparison", exportFileName: "cost-analysis-table",
         tooltip: "A quick overview of the costs and capabilities of different platforms to get a feel for the market.",
         highlightId: HIGHLIGHT_IDS.COST_PER_SEC, activeHighlightId, onHighlight: handleHighlight,
-        children: React.createElement(PlatformCostAnalysisTable, { activeHighlightId, onHighlight: handleHighlight })
+        children: React.createElement(PlatformCostAnalysisTable, { catalog, money, activeHighlightId, onHighlight: handleHighlight })
       }),
       React.createElement(CollapsibleSection, {
         title: "Time & Batching Analysis", icon: "⏱️", badgeText: "For Tight Deadlines", exportFileName: "time-batching-table",
         tooltip: "Analyzes how different platforms handle speed and large volumes of work, crucial for projects with tight deadlines.",
         highlightId: HIGHLIGHT_IDS.RAW_GENERATION_TIME, activeHighlightId, onHighlight: handleHighlight,
-        children: React.createElement(TimeBatchingAnalysis, { activeHighlightId, onHighlight: handleHighlight })
+        children: React.createElement(TimeBatchingAnalysis, { catalog, activeHighlightId, onHighlight: handleHighlight })
       }),
       React.createElement(CollapsibleSection, {
         title: "Detailed Platform & Model Breakdowns", icon: "📋", badgeText: "Full Data", exportFileName: "detailed-breakdown-table",
@@ -1267,7 +3029,31 @@ const App = () => {
         highlightId: null,
         activeHighlightId,
         onHighlight: handleHighlight,
-        children: React.createElement(DetailedPlatformBreakdowns, { activeHighlightId, onHighlight: handleHighlight })
+        children: React.createElement(DetailedPlatformBreakdowns, { catalog, money, activeHighlightId, onHighlight: handleHighlight })
+      }),
+      React.createElement(CollapsibleSection, {
+        title: "Platform Catalog", icon: "🗂️", badgeText: "Editable Data",
+        tooltip: "Edit the platforms, plans and models the calculator and tables use, or import/export the catalog as JSON. Changes are validated before they are saved and stay in this browser.",
+        highlightId: null,
+        activeHighlightId,
+        onHighlight: handleHighlight,
+        children: React.createElement(CatalogEditor, { snapshots, activeSnapshot, onSave: saveCatalog, onReset: resetCatalog, onSelectSnapshot: selectSnapshot, onAddSnapshot: addSnapshot, onUpdateSnapshot: updateSnapshot, onDeleteSnapshot: deleteSnapshot })
+      }),
+      React.createElement(CollapsibleSection, {
+        title: "Price Updates", icon: "🔄", badgeText: "Reconcile",
+        tooltip: "Load new prices from the prices bundled with the app, a JSON file or a price feed URL, and review the added and removed plans and changed prices before accepting them as a new snapshot. The bundled and file sources work offline.",
+        highlightId: null,
+        activeHighlightId,
+        onHighlight: handleHighlight,
+        children: React.createElement(PriceUpdatePanel, { activeSnapshot, onAccept: addSnapshot })
+      }),
+      React.createElement(CollapsibleSection, {
+        title: "Price History", icon: "🕑", badgeText: "Snapshot Diff", exportFileName: "price-history-diff",
+        tooltip: "Lists which plans and models changed monthly cost, quota, per-clip cost or max clip length between two price snapshots.",
+        highlightId: null,
+        activeHighlightId,
+        onHighlight: handleHighlight,
+        children: React.createElement(CatalogDiffView, { key: activeSnapshot.id, snapshots, activeSnapshot })
       })
     )
   );
@@ -0,0 +1,48 @@
+import type { LaborEstimate, LaborInputs, LaborTaskId, Platform, PostProcessingEstimate, RecommendationInputs } from './types';
+import { PROMPT_EFFORT_BY_TECH_LEVEL } from './constants';
+import { countWorkingDays, getElapsedDays } from './workingCalendar';
+
+
+// --- LABOR COSTING ---
+// Human work around generation: writing prompts for every usable clip, reviewing every take and editing the
+// finished minutes together. Each role is one person on the working calendar, and roles work in parallel.
+
+export const estimateLabor = (
+    labor: LaborInputs,
+    platform: Platform,
+    workload: { usableClips: number; generatedClips: number; finishedMinutes: number },
+    hoursPerDay: number,
+): LaborEstimate => {
+    const hoursByTask: Record<LaborTaskId, number> = {
+        prompting: workload.usableClips * labor.promptMinutesPerClip * PROMPT_EFFORT_BY_TECH_LEVEL[platform.techLevel] / 60,
+        review: workload.generatedClips * labor.reviewMinutesPerClip / 60,
+        editing: workload.finishedMinutes * labor.editingHoursPerMinute,
+    };
+    const tasks = (Object.keys(hoursByTask) as LaborTaskId[]).map(id => ({
+        id,
+        role: labor.roles[id].role,
+        hours: hoursByTask[id],
+        cost: hoursByTask[id] * labor.roles[id].hourlyRate,
+    }));
+
+    const hoursByRole = new Map<string, number>();
+    tasks.forEach(task => hoursByRole.set(task.role, (hoursByRole.get(task.role) || 0) + task.hours));
+    return {
+        tasks,
+        hours: tasks.reduce((sum, task) => sum + task.hours, 0),
+        cost: tasks.reduce((sum, task) => sum + task.cost, 0),
+        workingDays: Math.max(0, ...hoursByRole.values()) / hoursPerDay,
+    };
+};
+
+// Calendar days until `workingDaysAfter` days of work that start once generation is done are finished.
+// That work follows the working calendar even when the generation itself ran unattended.
+export const getDaysWithWorkAfter = (generationDays: number, workingDaysAfter: number, schedule: Pick<RecommendationInputs, 'startDate' | 'calendar'>) => {
+    if (workingDaysAfter <= 0) return generationDays;
+    const { calendar, startDate } = schedule;
+    return getElapsedDays(countWorkingDays(generationDays, calendar, startDate) + workingDaysAfter, calendar, startDate);
+};
+
+// Calendar days until the project is done. Post-processing and then human work are planned after generation.
+export const getProjectDays = (generationDays: number, labor: LaborEstimate | null, schedule: Pick<RecommendationInputs, 'startDate' | 'calendar'>, postProcessing: PostProcessingEstimate | null = null) =>
+    getDaysWithWorkAfter(generationDays, (labor ? labor.workingDays : 0) + (postProcessing ? postProcessing.workingDays : 0), schedule);
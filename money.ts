@@ -0,0 +1,20 @@
+import type { MoneySettings } from './types';
+import { CURRENCY_LOCALES } from './constants';
+
+
+// --- MONEY ---
+// Prices are stored and calculated in USD without tax. Everything below is display-side: amounts are
+// converted into the chosen currency and grossed up by VAT on the way out, and back again for money inputs.
+
+const getDisplayFactor = (money: MoneySettings) => money.rates[money.currency] * (1 + money.vatPercent / 100);
+
+export const convertFromUSD = (usd: number, money: MoneySettings) => usd * getDisplayFactor(money);
+
+export const convertToUSD = (amount: number, money: MoneySettings) => amount / getDisplayFactor(money);
+
+export const formatMoney = (usd: number, money: MoneySettings, fractionDigits = 0) =>
+    new Intl.NumberFormat(CURRENCY_LOCALES[money.currency], { style: 'currency', currency: money.currency, minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits })
+        .format(convertFromUSD(usd, money));
+
+export const getCurrencySymbol = (money: MoneySettings) =>
+    new Intl.NumberFormat(CURRENCY_LOCALES[money.currency], { style: 'currency', currency: money.currency }).formatToParts(0).find(part => part.type === 'currency')?.value ?? money.currency;
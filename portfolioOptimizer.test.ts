@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { Option, Plan, Platform, RecommendationInputs } from './types';
+import { DEFAULT_INPUTS } from './constants';
+import { optimizePortfolio } from './portfolioOptimizer';
+
+
+const plan = (planName: string, monthlyCost: number, modelId: string, resolution: Option['resolution']): Plan => ({
+    planName, monthlyCost, quota: 1000, quotaUnit: 'clips', maxParallel: 2, avgTimePerClipMin: 2,
+    options: [{ modelId, modelName: modelId, maxDurationSec: 5, resolution, audio: false, costUnit: 'clips', cost: 1 }],
+});
+
+// The budget plan only generates 720p, which takes a day and a half of upscaling for two minutes of footage
+const CATALOG: Platform[] = [{
+    platformName: 'Fixture', apiAvailable: 'No', setupDays: 0, techLevel: 'beginner',
+    plans: [plan('Budget', 10, 'sd-model', '720p'), plan('Premium', 40, 'hd-model', '1080p')],
+}];
+
+const optimize = (overrides: Partial<RecommendationInputs>) => optimizePortfolio({
+    ...DEFAULT_INPUTS,
+    calcMode: 'cost',
+    duration: 2,
+    startDate: '2025-07-07',
+    calendar: { ...DEFAULT_INPUTS.calendar, workdays: [0, 1, 2, 3, 4, 5, 6] },
+    deliverySpec: { ...DEFAULT_INPUTS.deliverySpec, resolution: '1080p', allowUpscaling: true, upscaleCostPerMinute: 1, upscaleHoursPerMinute: 6 },
+    ...overrides,
+}, CATALOG);
+
+describe('optimizePortfolio', () => {
+    it('takes the cheapest plan when its post-processing fits the deadline', () => {
+        const portfolio = optimize({ deadline: 7 });
+        expect(portfolio?.purchases.map(p => p.planName)).toEqual(['Budget']);
+        expect(portfolio?.totalCost).toBeCloseTo(12, 6);
+        expect(portfolio?.projectDays).toBeGreaterThan(1.5);
+        expect(portfolio?.meetsDeadline).toBe(true);
+    });
+
+    it('pays for a faster mix when post-processing would run past the deadline', () => {
+        const portfolio = optimize({ deadline: 1 });
+        expect(portfolio?.purchases.map(p => p.planName)).toEqual(['Premium']);
+        expect(portfolio?.totalCost).toBeCloseTo(40, 6);
+        expect(portfolio?.projectDays).toBeLessThanOrEqual(1);
+        expect(portfolio?.meetsDeadline).toBe(true);
+        expect(portfolio?.singlePlanCost).toBeCloseTo(40, 6);
+    });
+
+    it('counts human work against the deadline and reports when nothing fits', () => {
+        const portfolio = optimize({ deadline: 1, labor: { ...DEFAULT_INPUTS.labor, enabled: true, editingHoursPerMinute: 8 } });
+        expect(portfolio?.meetsDeadline).toBe(false);
+        expect(portfolio?.projectDays).toBeGreaterThan(1);
+        expect(portfolio?.singlePlanCost).toBeNull();
+    });
+});
@@ -0,0 +1,373 @@
+import type { DeliverableCost, MonthlySpend, Option, Plan, Platform, PortfolioAllocation, PortfolioPlan, PortfolioPurchase, RecommendationInputs } from './types';
+import { RESOLUTION_RANK } from './constants';
+import { getAverage, getQualityScore, getConstraintViolations, getSingleAccountDays, getCalendarDays, getAvailableDays, calculateTimeRequirement, calculateCostPerSecondUSD, resolveTakesPerClip, splitEvenly, planSubscriptions, getUsageSchedule, getScheduleTotal } from './scoringEngine';
+import { getCompletionDate } from './workingCalendar';
+import { estimateLabor, getDaysWithWorkAfter } from './laborCosting';
+import { getDeliveryViolations, estimatePostProcessing } from './deliverySpec';
+
+
+// --- PORTFOLIO OPTIMIZER ---
+// Splits one project across several subscriptions, e.g. a cheap plan for bulk B-roll plus an audio-capable
+// model for hero shots. Each shot is split into a few chunks that can go to different plans. A campaign's
+// deliverables are planned the same way, drawing on shared subscriptions, and each is charged its share.
+// The deadline is a hard constraint: generation, post-processing and human work all have to fit before it.
+
+const MAX_CHUNKS_PER_SHOT = 4;
+const MAX_SEARCH_PASSES = 10;
+
+interface WorkItem {
+    shotLabel: string;
+    lengthSec: number;
+    count: number;
+    audio: boolean;
+    resolution: Option['resolution'];
+    minQualityScore: number;
+}
+
+interface Candidate {
+    platform: Platform;
+    plan: Plan;
+    option: Option;
+    planKey: string;
+    takesPerClip: number;
+    qualityScore: number;
+}
+
+const splitIntoChunks = (count: number) => splitEvenly(count, Math.min(count, MAX_CHUNKS_PER_SHOT));
+
+// '720p' is the lowest resolution, so it stands for "no resolution requirement"
+const getWorkItems = (inputs: RecommendationInputs): WorkItem[] => {
+    if (inputs.useDeliverables) {
+        return inputs.deliverables.flatMap(deliverable => deliverable.lengthSec > 0 && deliverable.count > 0
+            ? splitIntoChunks(deliverable.count).map(count => ({ shotLabel: deliverable.name, lengthSec: deliverable.lengthSec, count, audio: deliverable.audio, resolution: '720p' as const, minQualityScore: deliverable.minQualityScore }))
+            : []);
+    }
+    if (!inputs.useShotList) {
+        const chunkSec = inputs.duration * 60 / MAX_CHUNKS_PER_SHOT;
+        return Array.from({ length: MAX_CHUNKS_PER_SHOT }, () => ({ shotLabel: 'Footage', lengthSec: chunkSec, count: 1, audio: inputs.audioNeeds === 'advanced', resolution: '720p', minQualityScore: 0 }));
+    }
+    return inputs.shots.flatMap((shot, i) => shot.lengthSec > 0 && shot.count > 0
+        ? splitIntoChunks(shot.count).map(count => ({ shotLabel: `Shot ${i + 1}`, lengthSec: shot.lengthSec, count, audio: shot.audio, resolution: shot.resolution, minQualityScore: 0 }))
+        : []);
+};
+
+const canDeliver = (candidate: Candidate, item: WorkItem) =>
+    (candidate.option.audio || !item.audio) && RESOLUTION_RANK[candidate.option.resolution] >= RESOLUTION_RANK[item.resolution] && candidate.qualityScore >= item.minQualityScore;
+
+const getGeneratedClips = (candidate: Candidate, item: WorkItem) => Math.ceil(Math.ceil(item.lengthSec / candidate.option.maxDurationSec) * item.count * candidate.takesPerClip);
+
+// What one chunk adds to the plan it goes to, and the work it adds once generation is done
+interface ChunkLoad {
+    generatedClips: number;
+    quotaUnits: number;
+    payPerUseCost: number;
+    postProcessingCost: number;
+    postProcessingHours: number;
+    laborHours: Map<string, number>; // By role
+}
+
+// Running totals of the chunks assigned to one plan during the search
+interface PlanLoad {
+    platform: Platform;
+    plan: Plan;
+    planKey: string;
+    chunks: number;
+    quotaChunks: number; // Chunks on models that draw quota; a plan without any is pure pay-per-use
+    generatedClips: number;
+    quotaUnits: number;
+    payPerUseCost: number;
+    postProcessingCost: number;
+    cost: number;
+    generationDays: number;
+    prices: Map<number, Map<number, { subscriptionCost: number; generationDays: number }>>; // Priced totals for this plan, shared by every seed
+}
+
+// Running totals of one candidate portfolio during the search
+interface SearchState {
+    loads: Map<string, PlanLoad>;
+    laborHours: Map<string, number>;
+    postProcessingHours: number;
+    totalCost: number;
+    overrunDays: number;
+}
+
+const getChunkLoad = (candidate: Candidate, item: WorkItem, inputs: RecommendationInputs): ChunkLoad => {
+    const generatedClips = getGeneratedClips(candidate, item);
+    const generatedSeconds = item.lengthSec * item.count * candidate.takesPerClip;
+    const finishedMinutes = item.lengthSec * item.count / 60;
+    const postProcessing = estimatePostProcessing(candidate.option, inputs.deliverySpec, finishedMinutes, inputs.calendar.hoursPerDay);
+    const laborHours = new Map<string, number>();
+    if (inputs.labor.enabled) {
+        const usableClips = Math.ceil(item.lengthSec / candidate.option.maxDurationSec) * item.count;
+        estimateLabor(inputs.labor, candidate.platform, { usableClips, generatedClips, finishedMinutes }, inputs.calendar.hoursPerDay).tasks
+            .forEach(task => laborHours.set(task.role, (laborHours.get(task.role) || 0) + task.hours));
+    }
+    const { costUnit, cost } = candidate.option;
+    return {
+        generatedClips,
+        quotaUnits: costUnit === 'per_second' ? 0 : (costUnit === 'ratio' ? generatedSeconds : generatedClips) * getAverage(cost),
+        payPerUseCost: costUnit === 'per_second' ? generatedSeconds * getAverage(cost) : 0,
+        postProcessingCost: postProcessing ? postProcessing.cost : 0,
+        postProcessingHours: postProcessing ? postProcessing.hours : 0,
+        laborHours,
+    };
+};
+
+// Post-processing and then human work start once the slowest plan is done. One team works through the footage
+// of every plan, so its hours add up per role.
+const getPortfolioProjectDays = (generationDays: number, laborHours: Map<string, number>, postProcessingHours: number, inputs: RecommendationInputs) =>
+    getDaysWithWorkAfter(generationDays, (Math.max(0, ...laborHours.values()) + postProcessingHours) / inputs.calendar.hoursPerDay, inputs);
+
+// Portfolios that meet the deadline come first, then the cheapest. When none can, the one missing it by the least wins.
+const isBetter = (a: Pick<SearchState, 'overrunDays' | 'totalCost'>, b: Pick<SearchState, 'overrunDays' | 'totalCost'>) =>
+    a.overrunDays < b.overrunDays - 1e-9 || (a.overrunDays <= b.overrunDays + 1e-9 && a.totalCost < b.totalCost - 0.005);
+
+// Subscriptions a plan needs for its share of the work, with the same billing-cycle model as single options.
+// Pay-per-use charges come on top and are left to the caller.
+const planPurchase = (plan: Plan, platform: Platform, generatedClips: number, quotaUnits: number, isPayPerUse: boolean, inputs: RecommendationInputs) => {
+    const unitsPerClip = generatedClips > 0 ? quotaUnits / generatedClips : 0;
+    const { timeDays, accountsNeeded } = calculateTimeRequirement(generatedClips, plan, platform, inputs, unitsPerClip);
+    if (isPayPerUse) return { spendSchedule: [] as MonthlySpend[], topUp: null, subscriptions: 0, accountsNeeded, generationDays: timeDays };
+
+    const singleAccountDays = getSingleAccountDays(generatedClips, plan, platform, inputs, unitsPerClip);
+    const billing = planSubscriptions(plan, quotaUnits, singleAccountDays, inputs.deadline, accountsNeeded, days => getAvailableDays(days, plan, platform, inputs));
+    return {
+        spendSchedule: billing.schedule,
+        topUp: billing.topUp,
+        subscriptions: billing.accounts,
+        accountsNeeded: billing.accounts,
+        generationDays: getCalendarDays(singleAccountDays / billing.accounts, plan, platform, inputs),
+    };
+};
+
+// Prices every plan that has work assigned. Per-second usage on a plan is billed on top of any subscription
+// it needs, and so is bringing its footage up to the delivery spec.
+const evaluatePortfolio = (items: WorkItem[], candidates: Candidate[], assignment: number[], inputs: RecommendationInputs) => {
+    const byPlan = new Map<string, { candidate: Candidate; item: WorkItem }[]>();
+    assignment.forEach((candidateIndex, itemIndex) => {
+        if (candidateIndex < 0) return;
+        const candidate = candidates[candidateIndex];
+        byPlan.set(candidate.planKey, [...(byPlan.get(candidate.planKey) || []), { candidate, item: items[itemIndex] }]);
+    });
+
+    const purchases: PortfolioPurchase[] = [];
+    const laborHours = new Map<string, number>();
+    let postProcessingHours = 0;
+    byPlan.forEach(work => {
+        const { platform, plan } = work[0].candidate;
+        let generatedClips = 0;
+        let quotaUnits = 0;
+        let payPerUseCost = 0;
+        let postProcessingCost = 0;
+        const allocations: PortfolioAllocation[] = [];
+        // Quota units each allocation draws, for sharing out the subscriptions
+        const allocationUnits = new Map<PortfolioAllocation, number>();
+
+        for (const { candidate, item } of work) {
+            const load = getChunkLoad(candidate, item, inputs);
+            generatedClips += load.generatedClips;
+            quotaUnits += load.quotaUnits;
+            payPerUseCost += load.payPerUseCost;
+            postProcessingCost += load.postProcessingCost;
+            postProcessingHours += load.postProcessingHours;
+            load.laborHours.forEach((hours, role) => laborHours.set(role, (laborHours.get(role) || 0) + hours));
+
+            let allocation = allocations.find(a => a.shotLabel === item.shotLabel && a.modelName === candidate.option.modelName);
+            if (!allocation) {
+                allocation = { shotLabel: item.shotLabel, modelName: candidate.option.modelName, count: 0, seconds: 0, generatedClips: 0, cost: 0 };
+                allocations.push(allocation);
+            }
+            allocation.count += item.count;
+            allocation.seconds += item.lengthSec * item.count;
+            allocation.generatedClips += load.generatedClips;
+            allocation.cost += load.payPerUseCost + load.postProcessingCost;
+            allocationUnits.set(allocation, (allocationUnits.get(allocation) || 0) + load.quotaUnits);
+        }
+
+        const isPayPerUse = plan.quotaUnit === 'unlimited' && work.every(({ candidate }) => candidate.option.costUnit === 'per_second');
+        const { spendSchedule, topUp, subscriptions, accountsNeeded, generationDays } = planPurchase(plan, platform, generatedClips, quotaUnits, isPayPerUse, inputs);
+        getUsageSchedule(payPerUseCost, generationDays).forEach(usage => {
+            const month = spendSchedule.find(m => m.month === usage.month);
+            if (month) month.cost += usage.cost;
+            else spendSchedule.push(usage);
+        });
+
+        // Flat-fee plans have no quota to share out by, so their subscriptions follow the generations
+        const subscriptionCost = getScheduleTotal(spendSchedule) - payPerUseCost;
+        allocations.forEach(allocation => {
+            const share = quotaUnits > 0 ? (allocationUnits.get(allocation) || 0) / quotaUnits : (generatedClips > 0 ? allocation.generatedClips / generatedClips : 0);
+            allocation.cost += subscriptionCost * share;
+        });
+
+        purchases.push({
+            platformName: platform.platformName,
+            planName: plan.planName,
+            subscriptions,
+            accountsNeeded,
+            cost: getScheduleTotal(spendSchedule) + postProcessingCost,
+            postProcessingCost,
+            generationDays,
+            spendSchedule,
+            topUp,
+            allocations,
+        });
+    });
+
+    const generationDays = purchases.reduce((max, purchase) => Math.max(max, purchase.generationDays), 0);
+    const projectDays = getPortfolioProjectDays(generationDays, laborHours, postProcessingHours, inputs);
+    const deliverableCosts: DeliverableCost[] = [];
+    purchases.forEach(purchase => purchase.allocations.forEach(allocation => {
+        const purchaseName = `${purchase.platformName} - ${purchase.planName}`;
+        const entry = deliverableCosts.find(d => d.name === allocation.shotLabel);
+        if (!entry) {
+            deliverableCosts.push({ name: allocation.shotLabel, seconds: allocation.seconds, cost: allocation.cost, platforms: [purchaseName] });
+            return;
+        }
+        entry.seconds += allocation.seconds;
+        entry.cost += allocation.cost;
+        if (!entry.platforms.includes(purchaseName)) entry.platforms.push(purchaseName);
+    }));
+    return {
+        purchases: purchases.sort((a, b) => b.cost - a.cost),
+        totalCost: purchases.reduce((sum, purchase) => sum + purchase.cost, 0),
+        generationDays,
+        projectDays,
+        meetsDeadline: projectDays <= inputs.deadline,
+        completionDate: getCompletionDate(inputs.startDate, projectDays),
+        // In the order the shots or deliverables were listed
+        deliverableCosts: deliverableCosts.sort((a, b) => items.findIndex(item => item.shotLabel === a.name) - items.findIndex(item => item.shotLabel === b.name)),
+    };
+};
+
+// Minimizes total cost for the current cost-mode inputs within the deadline. Subscription prices are step
+// functions, so the search starts once from every candidate (everything it can deliver goes there) and then moves
+// chunks one at a time while that makes the portfolio better. When no mix of plans fits the deadline, the result
+// is the one closest to it and `meetsDeadline` is false. Returns null when there is nothing to plan.
+export const optimizePortfolio = (inputs: RecommendationInputs, catalog: Platform[]): PortfolioPlan | null => {
+    if (inputs.calcMode !== 'cost') return null;
+    const items = getWorkItems(inputs);
+    if (items.length === 0) return null;
+
+    const candidates: Candidate[] = [];
+    for (const platform of catalog) {
+        for (const plan of platform.plans) {
+            if (plan.quotaUnit !== 'unlimited' && plan.quota <= 0) continue;
+            for (const option of plan.options) {
+                const qualityScore = getQualityScore(option, platform, inputs.scoringWeights.quality);
+                if (qualityScore < inputs.minQualityScore) continue;
+                if (getConstraintViolations(option, platform, inputs.constraints).length > 0 || getDeliveryViolations(option, inputs.deliverySpec).length > 0) continue;
+                candidates.push({ platform, plan, option, planKey: `${platform.platformName}|${plan.planName}`, takesPerClip: resolveTakesPerClip(inputs, platform.platformName, option.modelName), qualityScore });
+            }
+        }
+    }
+
+    const eligible = items.map(item => candidates.map((_, i) => i).filter(i => canDeliver(candidates[i], item)));
+    const fallback = eligible.map(options => options.length === 0 ? -1 : options.reduce((best, i) => {
+        const cost = calculateCostPerSecondUSD(candidates[i].option, candidates[i].plan, candidates[i].takesPerClip);
+        const bestCost = calculateCostPerSecondUSD(candidates[best].option, candidates[best].plan, candidates[best].takesPerClip);
+        return cost < bestCost ? i : best;
+    }));
+    const chunkLoads = items.map((item, itemIndex) => new Map(eligible[itemIndex].map(i => [i, getChunkLoad(candidates[i], item, inputs)])));
+
+    // Prices a plan's running totals. The same totals come up again and again during the search, so each is
+    // priced once: per plan, by generated clips (negative for pay-per-use) and then by quota in millionths of
+    // a unit, as moving chunks in and out makes the float sum drift.
+    const pricesByPlan = new Map<string, PlanLoad['prices']>();
+    const pricePlan = (load: PlanLoad) => {
+        if (load.chunks === 0) return { subscriptionCost: 0, generationDays: 0 };
+        const isPayPerUse = load.plan.quotaUnit === 'unlimited' && load.quotaChunks === 0;
+        const clipKey = isPayPerUse ? -1 - load.generatedClips : load.generatedClips;
+        const quotaMicros = Math.round(load.quotaUnits * 1e6);
+        let pricesByQuota = load.prices.get(clipKey);
+        if (!pricesByQuota) {
+            pricesByQuota = new Map();
+            load.prices.set(clipKey, pricesByQuota);
+        }
+        let price = pricesByQuota.get(quotaMicros);
+        if (!price) {
+            const purchase = planPurchase(load.plan, load.platform, load.generatedClips, quotaMicros / 1e6, isPayPerUse, inputs);
+            price = { subscriptionCost: getScheduleTotal(purchase.spendSchedule), generationDays: purchase.generationDays };
+            pricesByQuota.set(quotaMicros, price);
+        }
+        return price;
+    };
+
+    // Adds a chunk to the portfolio's running totals, or takes it off again with `sign` -1, and returns how much
+    // its plan's cost changed. A move only re-prices the two plans it touches.
+    const applyChunk = (state: SearchState, itemIndex: number, candidateIndex: number, sign: 1 | -1) => {
+        if (candidateIndex < 0) return 0;
+        const { platform, plan, option, planKey } = candidates[candidateIndex];
+        const chunk = chunkLoads[itemIndex].get(candidateIndex) as ChunkLoad;
+        let load = state.loads.get(planKey);
+        if (!load) {
+            const prices = pricesByPlan.get(planKey) || new Map();
+            pricesByPlan.set(planKey, prices);
+            load = { platform, plan, planKey, chunks: 0, quotaChunks: 0, generatedClips: 0, quotaUnits: 0, payPerUseCost: 0, postProcessingCost: 0, cost: 0, generationDays: 0, prices };
+            state.loads.set(planKey, load);
+        }
+        const previousCost = load.cost;
+        load.chunks += sign;
+        if (option.costUnit !== 'per_second') load.quotaChunks += sign;
+        load.generatedClips += sign * chunk.generatedClips;
+        load.quotaUnits += sign * chunk.quotaUnits;
+        load.payPerUseCost += sign * chunk.payPerUseCost;
+        load.postProcessingCost += sign * chunk.postProcessingCost;
+        const { subscriptionCost, generationDays } = pricePlan(load);
+        load.cost = load.chunks === 0 ? 0 : subscriptionCost + load.payPerUseCost + load.postProcessingCost;
+        load.generationDays = generationDays;
+
+        state.postProcessingHours += sign * chunk.postProcessingHours;
+        chunk.laborHours.forEach((hours, role) => state.laborHours.set(role, (state.laborHours.get(role) || 0) + sign * hours));
+        return load.cost - previousCost;
+    };
+
+    const getOverrunDays = (state: SearchState) => {
+        let generationDays = 0;
+        state.loads.forEach(load => { generationDays = Math.max(generationDays, load.generationDays); });
+        return Math.max(0, getPortfolioProjectDays(generationDays, state.laborHours, state.postProcessingHours, inputs) - inputs.deadline);
+    };
+
+    let best: { assignment: number[]; totalCost: number; overrunDays: number } | null = null;
+    let singlePlanCost: number | null = null;
+
+    for (let seed = 0; seed < candidates.length; seed++) {
+        const assignment = items.map((_, itemIndex) => eligible[itemIndex].includes(seed) ? seed : fallback[itemIndex]);
+        const state: SearchState = { loads: new Map(), laborHours: new Map(), postProcessingHours: 0, totalCost: 0, overrunDays: 0 };
+        state.totalCost = assignment.reduce((sum, candidateIndex, itemIndex) => sum + applyChunk(state, itemIndex, candidateIndex, 1), 0);
+        state.overrunDays = getOverrunDays(state);
+        if (assignment.every(candidateIndex => candidateIndex === seed) && state.overrunDays === 0 && (singlePlanCost === null || state.totalCost < singlePlanCost)) singlePlanCost = state.totalCost;
+
+        for (let pass = 0, improved = true; improved && pass < MAX_SEARCH_PASSES; pass++) {
+            improved = false;
+            items.forEach((_, itemIndex) => {
+                for (const candidateIndex of eligible[itemIndex]) {
+                    const previous = assignment[itemIndex];
+                    if (candidateIndex === previous) continue;
+                    const change = applyChunk(state, itemIndex, previous, -1) + applyChunk(state, itemIndex, candidateIndex, 1);
+                    // Within the deadline only a cheaper portfolio can be better, which spares working out the days
+                    if (change < -0.005 || state.overrunDays > 0) {
+                        const moved = { totalCost: state.totalCost + change, overrunDays: getOverrunDays(state) };
+                        if (isBetter(moved, state)) {
+                            assignment[itemIndex] = candidateIndex;
+                            state.totalCost = moved.totalCost;
+                            state.overrunDays = moved.overrunDays;
+                            improved = true;
+                            continue;
+                        }
+                    }
+                    applyChunk(state, itemIndex, candidateIndex, -1);
+                    applyChunk(state, itemIndex, previous, 1);
+                }
+            });
+        }
+
+        if (!best || isBetter(state, best)) best = { assignment, totalCost: state.totalCost, overrunDays: state.overrunDays };
+    }
+
+    const finalAssignment = best ? best.assignment : fallback;
+    return {
+        ...evaluatePortfolio(items, candidates, finalAssignment, inputs),
+        singlePlanCost,
+        unallocatedShots: [...new Set(items.filter((_, i) => finalAssignment[i] < 0).map(item => item.shotLabel))],
+    };
+};
@@ -0,0 +1,85 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { CatalogSnapshot } from './types';
+import { DETAILED_PLATFORM_DATA } from './constants';
+import { createBundledPriceSource, createFilePriceSource, createHttpPriceSource } from './priceSources';
+
+
+const FEED: Omit<CatalogSnapshot, 'id'> = { name: 'Hosted prices', effectiveDate: '2025-08-01', platforms: DETAILED_PLATFORM_DATA };
+
+// Stands in for the price feed we host: one route per way a feed can answer
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+    server = createServer((request, response) => {
+        if (request.url === '/catalog.json') {
+            response.setHeader('Content-Type', 'application/json');
+            response.end(JSON.stringify(FEED));
+        } else if (request.url === '/malformed.json') {
+            response.end('{"platforms": [');
+        } else if (request.url === '/slow.json') {
+            // Never answers; the connection is dropped when the server closes
+        } else {
+            response.statusCode = 404;
+            response.end();
+        }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+});
+
+describe('createHttpPriceSource', () => {
+    it('loads the feed', async () => {
+        const source = createHttpPriceSource(`${baseUrl}/catalog.json`);
+        expect(source.kind).toBe('http');
+        expect(source.label).toBe(`${baseUrl}/catalog.json`);
+        await expect(source.load()).resolves.toEqual(JSON.parse(JSON.stringify(FEED)));
+    });
+
+    it('rejects a non-2xx answer', async () => {
+        await expect(createHttpPriceSource(`${baseUrl}/missing.json`).load()).rejects.toThrow(`${baseUrl}/missing.json answered 404 Not Found`);
+    });
+
+    it('rejects malformed JSON', async () => {
+        await expect(createHttpPriceSource(`${baseUrl}/malformed.json`).load()).rejects.toThrow(`${baseUrl}/malformed.json is not valid JSON`);
+    });
+
+    it('gives up after the timeout', async () => {
+        await expect(createHttpPriceSource(`${baseUrl}/slow.json`, 100).load()).rejects.toThrow(`${baseUrl}/slow.json did not answer within 0.1s`);
+    });
+
+    it('reports a server that cannot be reached', async () => {
+        const closed = createServer();
+        await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+        const url = `http://127.0.0.1:${(closed.address() as AddressInfo).port}/catalog.json`;
+        await new Promise(resolve => closed.close(resolve));
+        await expect(createHttpPriceSource(url).load()).rejects.toThrow(`Could not reach ${url}`);
+    });
+});
+
+describe('createFilePriceSource', () => {
+    it('reads the file', async () => {
+        const source = createFilePriceSource({ name: 'prices.json', text: async () => JSON.stringify(FEED) });
+        expect(source).toMatchObject({ kind: 'file', label: 'prices.json' });
+        await expect(source.load()).resolves.toMatchObject({ name: 'Hosted prices', effectiveDate: '2025-08-01' });
+    });
+
+    it('rejects malformed JSON', async () => {
+        await expect(createFilePriceSource({ name: 'prices.json', text: async () => 'not json' }).load()).rejects.toThrow('prices.json is not valid JSON');
+    });
+});
+
+describe('createBundledPriceSource', () => {
+    it('returns a copy of the bundled catalog', async () => {
+        const data = await createBundledPriceSource(FEED).load() as CatalogSnapshot;
+        expect(data).toEqual(JSON.parse(JSON.stringify(FEED)));
+        expect(data.platforms).not.toBe(DETAILED_PLATFORM_DATA);
+    });
+});
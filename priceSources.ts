@@ -0,0 +1,52 @@
+import type { CatalogSnapshot, PriceSource } from './types';
+import { PRICE_FEED_TIMEOUT_MS } from './constants';
+
+
+// --- PRICE SOURCES ---
+// Adapters that read a price feed for the catalog. Every source resolves to the raw JSON in the same shapes the
+// catalog import accepts, so one validator covers them all. Only the HTTP source needs the network: the bundled
+// and file sources work offline.
+
+const parseFeed = (text: string, label: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new Error(`${label} is not valid JSON: ${(error as Error).message}`);
+    }
+};
+
+// The prices shipped with the app. Stored snapshots keep whatever prices they were saved with, so this is how
+// a browser picks up the catalog of a newer release.
+export const createBundledPriceSource = (snapshot: Omit<CatalogSnapshot, 'id'>): PriceSource => ({
+    kind: 'bundled',
+    label: `${snapshot.name} (bundled)`,
+    // A copy, so accepting the update never shares objects with the built-in catalog
+    load: async () => parseFeed(JSON.stringify(snapshot), snapshot.name),
+});
+
+export const createFilePriceSource = (file: Pick<File, 'name' | 'text'>): PriceSource => ({
+    kind: 'file',
+    label: file.name,
+    load: async () => parseFeed(await file.text(), file.name),
+});
+
+// A feed we host ourselves, e.g. `https://prices.example.internal/catalog.json` or a mock server on localhost
+export const createHttpPriceSource = (url: string, timeoutMs = PRICE_FEED_TIMEOUT_MS): PriceSource => ({
+    kind: 'http',
+    label: url,
+    load: async () => {
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) throw new Error(`Offline, so ${url} cannot be reached. Load a file or the bundled prices instead.`);
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+            const response = await fetch(url, { headers: { Accept: 'application/json' }, cache: 'no-store', signal: controller.signal });
+            if (!response.ok) throw new Error(`${url} answered ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`);
+            return parseFeed(await response.text(), url);
+        } catch (error) {
+            if (controller.signal.aborted) throw new Error(`${url} did not answer within ${timeoutMs / 1000}s`);
+            throw error instanceof TypeError ? new Error(`Could not reach ${url}: ${error.message}`) : error;
+        } finally {
+            clearTimeout(timer);
+        }
+    },
+});
@@ -0,0 +1,47 @@
+import type { RecommendationInputs, RoiMonth, RoiReport, ScoredPlatform } from './types';
+
+
+// --- ROI ANALYSIS ---
+// Compares an option against the traditional workflow over a recurring programme: `projectsPerMonth` projects
+// like this one for `roiHorizonMonths`, after one-off setup costs. The traditional cost and time are priced per
+// finished minute, so in duration mode they are scaled to whatever runtime the budget buys.
+
+export const analyzeRoi = (platform: ScoredPlatform, inputs: RecommendationInputs): RoiReport => {
+    const finishedMinutes = platform.achievableDuration;
+    // In cost mode the traditional figures describe this very project
+    const traditionalMinutes = inputs.calcMode === 'cost' ? finishedMinutes : inputs.traditionalDuration;
+    const scale = traditionalMinutes > 0 ? finishedMinutes / traditionalMinutes : 0;
+    const traditionalProjectCost = inputs.traditionalCost * scale;
+
+    // Setup days are staff time when labor is costed, priced at the prompting rate
+    const setupRate = platform.labor ? inputs.labor.roles.prompting.hourlyRate : 0;
+    const setupCost = inputs.toolingCost + inputs.trainingCost + (platform.setupDays || 0) * inputs.calendar.hoursPerDay * setupRate;
+
+    const monthlySavings = inputs.projectsPerMonth * (traditionalProjectCost - platform.totalCost);
+    const monthlyDiscount = Math.pow(1 + inputs.discountRatePercent / 100, 1 / 12) - 1;
+    const months: RoiMonth[] = [{ month: 0, savings: -setupCost, cumulativeSavings: -setupCost }];
+    let netPresentValue = -setupCost;
+    for (let month = 1; month <= inputs.roiHorizonMonths; month++) {
+        months.push({ month, savings: monthlySavings, cumulativeSavings: months[month - 1].cumulativeSavings + monthlySavings });
+        netPresentValue += monthlySavings / Math.pow(1 + monthlyDiscount, month);
+    }
+
+    let breakEvenMonth: number | null = null;
+    if (setupCost <= 0 && monthlySavings >= 0) breakEvenMonth = 0;
+    else if (monthlySavings > 0 && setupCost / monthlySavings <= inputs.roiHorizonMonths) breakEvenMonth = setupCost / monthlySavings;
+
+    return {
+        finishedMinutes,
+        aiCostPerMinute: finishedMinutes > 0 ? platform.totalCost / finishedMinutes : Infinity,
+        traditionalCostPerMinute: traditionalMinutes > 0 ? inputs.traditionalCost / traditionalMinutes : Infinity,
+        aiProjectCost: platform.totalCost,
+        traditionalProjectCost,
+        aiProjectDays: platform.projectDays,
+        traditionalProjectDays: inputs.traditionalTime * scale,
+        setupCost,
+        months,
+        breakEvenMonth,
+        totalSavings: months[months.length - 1].cumulativeSavings,
+        netPresentValue,
+    };
+};
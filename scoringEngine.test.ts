@@ -0,0 +1,250 @@
+import { describe, expect, it } from 'vitest';
+import type { Option, Plan, Platform, RecommendationInputs, ScoredPlatform } from './types';
+import { DEFAULT_INPUTS } from './constants';
+import { calculateCostPerSecondUSD, planSubscriptions, scorePlatforms } from './scoringEngine';
+
+
+// One plan per quota unit, each with a model billed in a matching cost unit. Expected values were taken from the
+// scoring loop as it was before it moved out of the React hook, unless a case says otherwise.
+const option = (modelId: string, costUnit: Option['costUnit'], cost: Option['cost'], maxDurationSec = 5): Option => ({
+    modelId, modelName: modelId, maxDurationSec, resolution: '1080p', audio: false, costUnit, cost,
+});
+const plan = (planName: string, quotaUnit: Plan['quotaUnit'], monthlyCost: number, quota: number, options: Option[]): Plan => ({
+    planName, monthlyCost, quota, quotaUnit, maxParallel: 2, avgTimePerClipMin: 2, options,
+});
+
+const CATALOG: Platform[] = [{
+    platformName: 'Fixture', apiAvailable: 'No', setupDays: 0, techLevel: 'beginner',
+    plans: [
+        plan('Credits', 'credits', 100, 1000, [option('credits-model', 'credits', 10)]),
+        plan('Tokens', 'tokens', 50, 2000, [option('tokens-model', 'tokens', [10, 30], 10)]),
+        plan('Compute', 'compute_seconds', 30, 600, [option('ratio-model', 'ratio', 4)]),
+        plan('Clips', 'clips', 20, 100, [option('clips-model', 'clips', 1)]),
+        plan('Flat Fee', 'unlimited', 200, 0, [option('unlimited-clips-model', 'clips', 1, 10)]),
+        plan('Pay Per Use', 'unlimited', 0, 0, [option('per-second-model', 'per_second', 0.5, 8)]),
+    ],
+}];
+
+// Every day is a working day, so generation days match the old eight-hours-a-day model
+const score = (overrides: Partial<RecommendationInputs>) => {
+    const inputs: RecommendationInputs = { ...DEFAULT_INPUTS, startDate: '2025-07-07', calendar: { ...DEFAULT_INPUTS.calendar, workdays: [0, 1, 2, 3, 4, 5, 6] }, ...overrides };
+    const results = scorePlatforms(inputs, CATALOG);
+    return (modelId: string) => results.find(p => p.option.modelId === modelId) as ScoredPlatform;
+};
+
+const getTotal = (schedule: { cost: number }[]) => schedule.reduce((sum, month) => sum + month.cost, 0);
+
+describe('calculateCostPerSecondUSD', () => {
+    const [platform] = CATALOG;
+    it.each([
+        ['Credits', 0.2],
+        ['Tokens', 0.05],
+        ['Compute', 0.2],
+        ['Clips', 0.04],
+        ['Flat Fee', Infinity],
+        ['Pay Per Use', 0.5],
+    ])('prices the %s plan', (planName, expected) => {
+        const p = platform.plans.find(q => q.planName === planName) as Plan;
+        expect(calculateCostPerSecondUSD(p.options[0], p, 1)).toBeCloseTo(expected, 6);
+    });
+
+    it('multiplies by the takes per usable clip', () => {
+        const p = platform.plans[0];
+        expect(calculateCostPerSecondUSD(p.options[0], p, 3)).toBeCloseTo(0.6, 6);
+    });
+});
+
+describe('scorePlatforms in cost mode', () => {
+    const get = score({ calcMode: 'cost', duration: 1, deadline: 7 });
+
+    it.each([
+        ['credits-model', 100, 0.025, 12],
+        ['tokens-model', 50, 0.0125, 6],
+        ['ratio-model', 30, 0.025, 12],
+        ['clips-model', 20, 0.025, 12],
+        ['unlimited-clips-model', 200, 0.0125, 6],
+        ['per-second-model', 30, 1 / 60, 8],
+    ])('costs one minute on %s', (modelId, totalCost, days, clips) => {
+        const p = get(modelId);
+        expect(p.totalCost).toBeCloseTo(totalCost, 6);
+        expect(p.rawGenerationTimeDays).toBeCloseTo(days, 6);
+        expect(p.generatedClips).toBe(clips);
+        expect(p.accountsNeeded).toBe(1);
+        expect(p.achievableDuration).toBe(1);
+        expect(p.feasible).toBe(true);
+    });
+
+    // Since billing cycles were modelled, the extra subscriptions bought for quota also generate in parallel.
+    // The old loop bought the same subscriptions but ran them as one account.
+    it.each([
+        ['credits-model', 500, 5, 0.2],
+        ['tokens-model', 150, 3, 1 / 6],
+        ['ratio-model', 480, 16, 0.0625],
+        ['clips-model', 100, 5, 0.2],
+        ['unlimited-clips-model', 200, 1, 0.5],
+        ['per-second-model', 1200, 1, 0.625],
+    ])('buys enough quota for twenty minutes at two takes on %s', (modelId, totalCost, accounts, days) => {
+        const p = score({ calcMode: 'cost', duration: 20, deadline: 7, takesPerClip: 2 })(modelId);
+        expect(p.totalCost).toBeCloseTo(totalCost, 6);
+        expect(p.accountsNeeded).toBe(accounts);
+        expect(p.rawGenerationTimeDays).toBeCloseTo(days, 6);
+    });
+
+    it('marks pay-per-use over budget as infeasible', () => {
+        const p = score({ calcMode: 'cost', duration: 20, deadline: 7, takesPerClip: 2 })('per-second-model');
+        expect(p.feasible).toBe(false);
+        expect(p.reasons).toEqual(['Over budget']);
+    });
+
+    it('applies a take-rate override to its model only', () => {
+        const get = score({ calcMode: 'cost', duration: 1, deadline: 7, takesPerClip: 2, takeRateOverrides: [{ id: 'o', platformName: 'Fixture', modelName: 'credits-model', takes: 4 }] });
+        expect(get('credits-model')).toMatchObject({ takesPerClip: 4, generatedClips: 48, costPerSecondUSD: 0.8 });
+        expect(get('ratio-model')).toMatchObject({ takesPerClip: 2, generatedClips: 24, costPerSecondUSD: 0.4 });
+        expect(get('per-second-model').totalCost).toBeCloseTo(60, 6);
+    });
+
+    it('ranks the options as before', () => {
+        const ranked = scorePlatforms({ ...DEFAULT_INPUTS, calcMode: 'cost', duration: 1, deadline: 7 }, CATALOG).map(p => p.option.modelId);
+        expect(ranked).toEqual(['unlimited-clips-model', 'clips-model', 'tokens-model', 'credits-model', 'ratio-model', 'per-second-model']);
+    });
+});
+
+describe('scorePlatforms with a shot list', () => {
+    const get = score({
+        calcMode: 'cost', deadline: 7, useShotList: true,
+        shots: [{ id: 'a', lengthSec: 7, count: 3, audio: false, resolution: '720p' }, { id: 'b', lengthSec: 3, count: 10, audio: false, resolution: '1080p' }],
+    });
+
+    it.each([
+        ['credits-model', 100, 16],
+        ['unlimited-clips-model', 200, 13],
+        ['per-second-model', 25.5, 13],
+    ])('splits each shot into clips on %s', (modelId, totalCost, clips) => {
+        const p = get(modelId);
+        expect(p.totalCost).toBeCloseTo(totalCost, 6);
+        expect(p.generatedClips).toBe(clips);
+        expect(p.achievableDuration).toBeCloseTo(0.85, 6);
+    });
+
+    it('rejects a shot list without footage', () => {
+        const shots = [{ id: 'a', lengthSec: 5, count: 0, audio: false, resolution: '720p' as const }];
+        for (const p of scorePlatforms({ ...DEFAULT_INPUTS, calcMode: 'cost', useShotList: true, shots }, CATALOG)) {
+            expect(p.feasible).toBe(false);
+            expect(p.reasons).toContain('Shot list has no footage');
+        }
+        expect(scorePlatforms({ ...DEFAULT_INPUTS, calcMode: 'cost', useShotList: true, shots: [] }, CATALOG).some(p => p.feasible)).toBe(false);
+    });
+});
+
+describe('scorePlatforms feasibility', () => {
+    it('does not mistake a deliverable name for the accounts reason', () => {
+        const deliverables = [{ id: 'promo', name: 'Key accounts promo', lengthSec: 15, count: 1, audio: true, minQualityScore: 0 }];
+        const p = score({ calcMode: 'cost', useDeliverables: true, deliverables })('credits-model');
+        expect(p.reasons).toEqual(['No audio for Key accounts promo']);
+        expect(p.feasible).toBe(false);
+    });
+
+    it('rejects deliverables without footage', () => {
+        const deliverables = [{ id: 'promo', name: 'Promo', lengthSec: 15, count: 0, audio: false, minQualityScore: 0 }];
+        const p = score({ calcMode: 'cost', useDeliverables: true, deliverables })('credits-model');
+        expect(p.reasons).toEqual(['Deliverables have no footage']);
+        expect(p.feasible).toBe(false);
+    });
+});
+
+describe('scorePlatforms score breakdown', () => {
+    it('returns the cost rate in USD for the display to format', () => {
+        const get = score({ calcMode: 'cost', duration: 1, deadline: 7 });
+        expect(get('credits-model').scoreBreakdown.find(c => c.id === 'cost')?.costRate).toEqual({ usdPerSecond: 0.2, scaleUsdPerSecond: 5 });
+        const flatFee = get('unlimited-clips-model').scoreBreakdown.find(c => c.id === 'cost');
+        expect(flatFee?.detail).toBe('No per-second cost');
+        expect(flatFee?.costRate).toBeUndefined();
+    });
+});
+
+describe('scorePlatforms in duration mode', () => {
+    const get = score({ calcMode: 'duration', budget: 300, deadline: 7 });
+
+    it.each([
+        ['credits-model', 25, 300, 0.625],
+        ['tokens-model', 100, 300, 1.25],
+        ['ratio-model', 25, 300, 0.625],
+        ['clips-model', 125, 300, 3.125],
+        ['unlimited-clips-model', 560, 200, 7],
+        ['per-second-model', 10, 300, 0.15625],
+    ])('stretches the budget on %s', (modelId, minutes, totalCost, days) => {
+        const p = get(modelId);
+        expect(p.achievableDuration).toBeCloseTo(minutes, 6);
+        expect(p.totalCost).toBeCloseTo(totalCost, 6);
+        expect(p.rawGenerationTimeDays).toBeCloseTo(days, 6);
+        expect(p.accountsNeeded).toBe(1);
+    });
+
+    describe('with post-processing', () => {
+        // The fixture's models all generate 1080p, so a 4K delivery upscales every finished minute
+        const upscaled = (upscaleCostPerMinute: number, upscaleHoursPerMinute: number) => score({
+            calcMode: 'duration', budget: 300, deadline: 7,
+            deliverySpec: { ...DEFAULT_INPUTS.deliverySpec, resolution: '4K', allowUpscaling: true, upscaleCostPerMinute, upscaleHoursPerMinute },
+        });
+
+        it('pays for upscaling out of the budget', () => {
+            // $30 of generation and $5 of upscaling per finished minute
+            const p = upscaled(5, 0)('per-second-model');
+            expect(p.achievableDuration).toBeCloseTo(300 / 35, 6);
+            expect(p.machineCost).toBeCloseTo(300 * 30 / 35, 4);
+            expect(p.postProcessing?.cost).toBeCloseTo(300 * 5 / 35, 4);
+            expect(p.totalCost).toBeCloseTo(300, 4);
+        });
+
+        it('leaves room before the deadline for upscaling', () => {
+            // Half a day of upscaling per finished minute, after 0.025 days of generation each
+            const p = upscaled(0, 4)('credits-model');
+            expect(p.achievableDuration).toBeCloseTo(7 / 0.525, 4);
+            expect(p.postProcessing?.workingDays).toBeCloseTo(3.5 / 0.525, 4);
+            expect(p.projectDays).toBeCloseTo(7, 4);
+            expect(p.totalCost).toBeCloseTo(300, 6);
+            expect(p.feasible).toBe(true);
+        });
+    });
+});
+
+describe('planSubscriptions', () => {
+    const [platform] = CATALOG;
+    const credits = platform.plans[0];
+    const flatFee = platform.plans[4];
+
+    it('buys one subscription per quota shortfall within a month', () => {
+        const billing = planSubscriptions(credits, 2500, 1, 7, 1);
+        expect(billing.accounts).toBe(3);
+        expect(getTotal(billing.schedule)).toBe(300);
+        expect(billing.topUp).toBeNull();
+    });
+
+    it('spreads quota over billing cycles when the deadline allows', () => {
+        const billing = planSubscriptions(credits, 2500, 1, 90, 1);
+        expect(billing.accounts).toBe(1);
+        expect(billing.schedule.map(month => month.cost)).toEqual([100, 100, 100]);
+    });
+
+    it('covers the last stretch of quota with overage', () => {
+        const billing = planSubscriptions({ ...credits, overageCost: { perUnit: 0.05, unit: 'credits' } }, 1200, 1, 7, 1);
+        expect(billing.accounts).toBe(1);
+        expect(billing.topUp).toMatchObject({ units: 200, overageUnits: 200, cost: 10 });
+        expect(getTotal(billing.schedule)).toBe(110);
+    });
+
+    it('only adds unlimited subscriptions for time', () => {
+        expect(planSubscriptions(flatFee, 0, 10, 7, 1).accounts).toBe(1);
+        const rushed = planSubscriptions(flatFee, 0, 45, 30, 1);
+        expect(rushed.accounts).toBe(2);
+        expect(getTotal(rushed.schedule)).toBe(400);
+        const relaxed = planSubscriptions(flatFee, 0, 45, 60, 1);
+        expect(relaxed.accounts).toBe(1);
+        expect(relaxed.schedule).toHaveLength(2);
+    });
+
+    it('charges annual plans up front', () => {
+        const billing = planSubscriptions({ ...credits, billingCycle: 'annual' }, 500, 1, 7, 1);
+        expect(billing.schedule).toEqual([{ month: 1, subscriptions: 1, cost: 1200 }]);
+    });
+});
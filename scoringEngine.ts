@@ -0,0 +1,556 @@
+import type { ConstraintFilters, LaborEstimate, MonthlySpend, PostProcessingEstimate, Option, ParetoCostMetric, Plan, Platform, QualityContribution, QualityWeights, RecommendationInputs, ScoreContribution, ScoredPlatform, Shot, ThroughputConstraint, TopUp } from './types';
+import { RESOLUTION_RANK, TECH_LEVEL_RANK, DEFAULT_SCORING_WEIGHTS, BILLING_CYCLE_DAYS, ANNUAL_COMMITMENT_MONTHS, COST_EFFICIENCY_SCALE_USD } from './constants';
+import { countWorkingDays, getElapsedDays, getCompletionDate } from './workingCalendar';
+import { estimateLabor, getDaysWithWorkAfter, getProjectDays } from './laborCosting';
+import { getDeliveryViolations, estimatePostProcessing } from './deliverySpec';
+
+
+// --- SCORING ENGINE ---
+// Framework-free: everything here is a pure function of the inputs and the catalog, so it can run in
+// the React hooks, in scripts or in a worker.
+
+// Points per quality attribute of an option. Catalog options without quality data get nothing for the rated
+// attributes, and the breakdown says so instead of hiding it.
+export const getQualityBreakdown = (option: Option, platform: Platform, weights: QualityWeights = DEFAULT_SCORING_WEIGHTS.quality): QualityContribution[] => {
+    const quality = option.quality;
+    const notRated = 'Not rated in the catalog';
+    const maxOf = (values: number[]) => Math.max(0, ...values);
+    const featureWeights = Object.values(weights.features);
+    const extraRatios = quality ? Math.max(0, quality.aspectRatios.length - 1) : 0;
+    const fullRatios = Math.max(2, extraRatios); // Landscape, portrait and square earn full marks
+
+    return [
+        { id: 'resolution', label: 'Resolution', points: weights.resolution[option.resolution] || 0, maxPoints: maxOf(Object.values(weights.resolution)), detail: option.resolution },
+        { id: 'frameRate', label: 'Frame rate', points: quality ? weights.frameRate * Math.min(1, quality.frameRate / 60) : 0, maxPoints: maxOf([weights.frameRate]), detail: quality ? `${quality.frameRate} fps` : notRated },
+        { id: 'motionCoherence', label: 'Motion coherence', points: quality ? weights.motionCoherence * quality.motionCoherence : 0, maxPoints: maxOf([weights.motionCoherence * 5]), detail: quality ? `${quality.motionCoherence}/5` : notRated },
+        { id: 'promptAdherence', label: 'Prompt adherence', points: quality ? weights.promptAdherence * quality.promptAdherence : 0, maxPoints: maxOf([weights.promptAdherence * 5]), detail: quality ? `${quality.promptAdherence}/5` : notRated },
+        { id: 'aspectRatios', label: 'Aspect ratios', points: weights.aspectRatio * extraRatios, maxPoints: maxOf([weights.aspectRatio * fullRatios]), detail: quality ? quality.aspectRatios.join(', ') || 'None listed' : notRated },
+        { id: 'watermark', label: 'Watermark', points: quality?.watermark ? weights.watermark : 0, maxPoints: maxOf([weights.watermark]), detail: quality ? (quality.watermark ? 'Visible watermark' : 'No watermark') : notRated },
+        { id: 'commercialUse', label: 'Commercial use', points: quality?.commercialUse ? weights.commercialUse : 0, maxPoints: maxOf([weights.commercialUse]), detail: quality ? (quality.commercialUse ? 'Licensed' : 'Personal use only') : notRated },
+        { id: 'audio', label: 'Audio', points: option.audio ? weights.audio : 0, maxPoints: maxOf([weights.audio]), detail: option.audio ? 'Generates audio' : 'Silent' },
+        { id: 'features', label: 'Features', points: (option.features || []).reduce((sum, feature) => sum + (weights.features[feature] || 0), 0), maxPoints: featureWeights.reduce((sum, points) => sum + Math.max(0, points), 0), detail: option.features?.join(', ') || 'None' },
+        { id: 'reputation', label: 'Platform reputation', points: weights.platformReputation[platform.platformName] || 0, maxPoints: maxOf(Object.values(weights.platformReputation)), detail: platform.platformName },
+    ];
+};
+
+export const getQualityScore = (option: Option, platform: Platform, weights: QualityWeights = DEFAULT_SCORING_WEIGHTS.quality) =>
+    Math.min(10, getQualityBreakdown(option, platform, weights).reduce((sum, attribute) => sum + attribute.points, 0));
+
+export const getAverage = (value: number | [number, number]) => {
+    return Array.isArray(value) ? (value[0] + value[1]) / 2 : value;
+};
+
+// Clips to generate and seconds of video to bill. With a shot list every shot is rounded up to
+// whole clips on its own, so a 3s shot still costs a full 5s clip.
+export const getWorkload = (durationMinutes: number, shots: Pick<Shot, 'lengthSec' | 'count'>[] | null, option: Option) => {
+    if (!shots) {
+        return { clipsNeeded: Math.ceil(durationMinutes * 60 / option.maxDurationSec), videoSeconds: durationMinutes * 60 };
+    }
+    return shots.reduce((workload, shot) => ({
+        clipsNeeded: workload.clipsNeeded + Math.ceil(shot.lengthSec / option.maxDurationSec) * shot.count,
+        videoSeconds: workload.videoSeconds + shot.lengthSec * shot.count,
+    }), { clipsNeeded: 0, videoSeconds: 0 });
+};
+
+// Quota units one generation draws, which is what daily unit caps count. Flat-fee and pay-per-use plans have none.
+export const getUnitsPerClip = (option: Option, plan: Plan, secondsPerClip: number) =>
+    plan.quotaUnit === 'unlimited' ? 0 : getAverage(option.cost) * (option.costUnit === 'ratio' ? secondsPerClip : 1);
+
+// Hard constraints the option breaks, worded for `reasons`
+export const getConstraintViolations = (option: Option, platform: Platform, constraints: ConstraintFilters): string[] => {
+    const violations: string[] = [];
+    if (constraints.platforms.length > 0 && constraints.platforms.includes(platform.platformName) !== (constraints.platformMode === 'include')) {
+        violations.push(constraints.platformMode === 'include' ? 'Platform not in the allowed list' : 'Platform excluded');
+    }
+    if (constraints.minResolution && RESOLUTION_RANK[option.resolution] < RESOLUTION_RANK[constraints.minResolution]) violations.push(`Below ${constraints.minResolution} minimum`);
+    const missingFeatures = constraints.requiredFeatures.filter(feature => !(option.features || []).includes(feature));
+    if (missingFeatures.length > 0) violations.push(`Missing ${missingFeatures.join(', ')}`);
+    if (constraints.requireApi && platform.apiAvailable === 'No') violations.push('No API access');
+    if (constraints.maxTechLevel && TECH_LEVEL_RANK[platform.techLevel] > TECH_LEVEL_RANK[constraints.maxTechLevel]) violations.push(`Too technical (${platform.techLevel} platform)`);
+    return violations;
+};
+
+// The inputs that turn generation work into calendar time
+type ProjectSchedule = Pick<RecommendationInputs, 'deadline' | 'expertise' | 'startDate' | 'calendar'>;
+
+const canUseAPI = (platform: Platform, expertise: RecommendationInputs['expertise']) =>
+    (platform.apiAvailable === 'Yes' || platform.apiAvailable === 'Limited' || platform.apiAvailable === 'Enterprise') && (expertise === 'expert' || expertise === 'intermediate');
+
+// API batch jobs can keep running outside office hours; GUI work follows the working calendar
+export const runsUnattended = (plan: Plan, platform: Platform, schedule: ProjectSchedule) =>
+    schedule.calendar.unattendedApi && !!plan.maxParallelAPI && canUseAPI(platform, schedule.expertise);
+
+// Clips one account can finish per working day, and which limit sets that pace. Every clip is one request,
+// and queue wait keeps a job slot busy before generation starts.
+export const getThroughput = (plan: Plan, platform: Platform, schedule: ProjectSchedule, unitsPerClip = 0): { clipsPerDay: number; constraint: ThroughputConstraint } => {
+    const effectiveMaxParallel = canUseAPI(platform, schedule.expertise) && plan.maxParallelAPI ? plan.maxParallelAPI : plan.maxParallel;
+    const hoursPerDay = runsUnattended(plan, platform, schedule) ? 24 : schedule.calendar.hoursPerDay;
+    const limits = plan.rateLimits || {};
+    const jobSlots = Math.min(effectiveMaxParallel, limits.concurrentJobs || Infinity);
+    const jobMinutes = plan.avgTimePerClipMin + (limits.queueWaitMin || 0);
+
+    const paces: { clipsPerDay: number; constraint: ThroughputConstraint }[] = [
+        { clipsPerDay: jobSlots * hoursPerDay * 60 / jobMinutes, constraint: jobSlots < effectiveMaxParallel ? 'concurrency' : 'parallel' },
+        ...(limits.requestsPerMinute ? [{ clipsPerDay: limits.requestsPerMinute * hoursPerDay * 60, constraint: 'requestsPerMinute' as const }] : []),
+        ...(limits.dailyUnitCap && unitsPerClip > 0 ? [{ clipsPerDay: limits.dailyUnitCap / unitsPerClip, constraint: 'dailyUnitCap' as const }] : []),
+    ];
+    return paces.reduce((slowest, pace) => pace.clipsPerDay < slowest.clipsPerDay ? pace : slowest);
+};
+
+// Working days one account needs to generate `clipsNeeded` clips, including platform setup
+export const getSingleAccountDays = (clipsNeeded: number, plan: Plan, platform: Platform, schedule: ProjectSchedule, unitsPerClip = 0) => {
+    if (clipsNeeded <= 0) return 0;
+    return clipsNeeded / getThroughput(plan, platform, schedule, unitsPerClip).clipsPerDay + platform.setupDays;
+};
+
+// Calendar days from the start date that `workingDays` of generation on this plan take
+export const getCalendarDays = (workingDays: number, plan: Plan, platform: Platform, schedule: ProjectSchedule) =>
+    getElapsedDays(workingDays, schedule.calendar, schedule.startDate, runsUnattended(plan, platform, schedule));
+
+// Working days this plan can generate on in the first `calendarDays` days of the project
+export const getAvailableDays = (calendarDays: number, plan: Plan, platform: Platform, schedule: ProjectSchedule) =>
+    countWorkingDays(calendarDays, schedule.calendar, schedule.startDate, runsUnattended(plan, platform, schedule));
+
+export const calculateTimeRequirement = (clipsNeeded: number, plan: Plan, platform: Platform, schedule: ProjectSchedule, unitsPerClip = 0) => {
+    if (clipsNeeded <= 0) return { timeDays: 0, accountsNeeded: 1 };
+
+    const singleAccountTimeDays = getSingleAccountDays(clipsNeeded, plan, platform, schedule, unitsPerClip);
+    const availableDays = getAvailableDays(schedule.deadline, plan, platform, schedule);
+
+    let accountsNeeded = 1;
+    if (singleAccountTimeDays > availableDays && availableDays > 0) {
+        accountsNeeded = Math.ceil(singleAccountTimeDays / availableDays);
+    }
+
+    const actualTimeDays = getCalendarDays(singleAccountTimeDays / accountsNeeded, plan, platform, schedule);
+
+    return {
+        timeDays: actualTimeDays,
+        accountsNeeded
+    };
+};
+
+export const calculateCostPerSecondUSD = (option: Option, plan: Plan, takesPerClip: number): number => {
+    const avgCostPerUnit = getAverage(option.cost) * takesPerClip;
+    const durationSeconds = option.maxDurationSec;
+
+    if (option.costUnit === 'per_second') {
+        return avgCostPerUnit;
+    }
+
+    if (plan.quotaUnit === 'unlimited' || plan.quota === 0) return Infinity;
+
+    const costPerUnitUSD = plan.monthlyCost / plan.quota;
+
+    switch (option.costUnit) {
+        case 'credits':
+        case 'tokens':
+        case 'clips':
+            return (avgCostPerUnit * costPerUnitUSD) / durationSeconds;
+        case 'ratio':
+            const computeSecondsPerVideoSecond = avgCostPerUnit;
+            return computeSecondsPerVideoSecond * costPerUnitUSD;
+        default: return Infinity;
+    }
+};
+
+export const splitEvenly = (count: number, parts: number) => Array.from({ length: parts }, (_, i) => Math.floor(count / parts) + (i < count % parts ? 1 : 0));
+
+export const getBillingMonths = (deadline: number) => Math.max(1, Math.ceil(deadline / BILLING_CYCLE_DAYS));
+
+// One entry per billing cycle. Monthly plans charge every active subscription each month; annual plans charge
+// the whole commitment when it starts, so months 2-12 are free.
+export const getSubscriptionSchedule = (plan: Plan, subscriptionsPerMonth: number[]): MonthlySpend[] => subscriptionsPerMonth.map((subscriptions, i) => ({
+    month: i + 1,
+    subscriptions,
+    cost: plan.billingCycle === 'annual'
+        ? (i % ANNUAL_COMMITMENT_MONTHS === 0 ? subscriptions * plan.monthlyCost * ANNUAL_COMMITMENT_MONTHS : 0)
+        : subscriptions * plan.monthlyCost,
+}));
+
+// Pay-per-use spend, spread over the months the generation runs in
+export const getUsageSchedule = (cost: number, generationDays: number): MonthlySpend[] => {
+    const months = Math.max(1, Math.ceil(generationDays / BILLING_CYCLE_DAYS));
+    return Array.from({ length: months }, (_, i) => ({
+        month: i + 1,
+        subscriptions: 0,
+        cost: generationDays > 0 ? cost * Math.min(BILLING_CYCLE_DAYS, generationDays - i * BILLING_CYCLE_DAYS) / generationDays : cost,
+    }));
+};
+
+export const getScheduleTotal = (schedule: MonthlySpend[]) => schedule.reduce((sum, month) => sum + month.cost, 0);
+
+type TopUpPurchase = Pick<TopUp, 'cost' | 'packs' | 'overageUnits'>;
+
+// Ways to buy at least `units` with a single pack size or with overage
+const getSingleTopUps = (plan: Plan, units: number): TopUpPurchase[] => [
+    ...(plan.overageCost ? [{ cost: units * plan.overageCost.perUnit, packs: [], overageUnits: units }] : []),
+    ...(plan.creditPacks || []).map(pack => ({ cost: Math.ceil(units / pack.units) * pack.price, packs: [{ ...pack, count: Math.ceil(units / pack.units) }], overageUnits: 0 })),
+];
+
+// Cheapest way to buy `units` of extra quota: overage, or whole packs of one size with the remainder covered by
+// overage or a pack of any size. Returns null when the plan sells no extra quota.
+export const getCheapestTopUp = (plan: Plan, units: number): TopUp | null => {
+    if (units <= 0) return { units: 0, unit: plan.quotaUnit, cost: 0, packs: [], overageUnits: 0 };
+    const purchases = [...getSingleTopUps(plan, units)];
+    for (const bulk of plan.creditPacks || []) {
+        const count = Math.floor(units / bulk.units);
+        const remainder = units - count * bulk.units;
+        if (count === 0 || remainder === 0) continue;
+        for (const rest of getSingleTopUps(plan, remainder)) {
+            const packs = [{ ...bulk, count }, ...rest.packs.filter(pack => pack.units !== bulk.units)];
+            const sameSize = rest.packs.find(pack => pack.units === bulk.units);
+            if (sameSize) packs[0] = { ...bulk, count: count + sameSize.count };
+            purchases.push({ cost: count * bulk.price + rest.cost, packs, overageUnits: rest.overageUnits });
+        }
+    }
+    if (purchases.length === 0) return null;
+    const cheapest = purchases.reduce((best, purchase) => purchase.cost < best.cost ? purchase : best);
+    return { units, unit: plan.quotaUnit, ...cheapest };
+};
+
+// Most extra quota a budget buys, using the same pack-then-remainder approach
+export const getTopUpForBudget = (plan: Plan, budget: number): TopUp | null => {
+    const purchases: TopUp[] = [];
+    const overageUnits = (money: number) => plan.overageCost && plan.overageCost.perUnit > 0 ? money / plan.overageCost.perUnit : 0;
+    if (plan.overageCost) purchases.push({ units: overageUnits(budget), unit: plan.quotaUnit, cost: budget, packs: [], overageUnits: overageUnits(budget) });
+    for (const bulk of plan.creditPacks || []) {
+        const count = Math.floor(budget / bulk.price);
+        if (count === 0) continue;
+        const left = budget - count * bulk.price;
+        const filler = (plan.creditPacks || []).filter(pack => pack.price <= left).reduce<typeof bulk | null>((best, pack) => !best || pack.units > best.units ? pack : best, null);
+        const extraOverage = filler ? 0 : overageUnits(left);
+        const packs = [{ ...bulk, count }, ...(filler ? [{ ...filler, count: 1 }] : [])];
+        purchases.push({ units: count * bulk.units + (filler ? filler.units : 0) + extraOverage, unit: plan.quotaUnit, cost: count * bulk.price + (filler ? filler.price : extraOverage > 0 ? left : 0), packs, overageUnits: extraOverage });
+    }
+    const best = purchases.filter(purchase => purchase.units > 0).reduce<TopUp | null>((best, purchase) => !best || purchase.units > best.units ? purchase : best, null);
+    return best;
+};
+
+// Top-ups are bought when the quota runs out, so they are billed in the last month
+const addTopUpToSchedule = (schedule: MonthlySpend[], topUp: TopUp | null) => {
+    if (!topUp || topUp.cost <= 0 || schedule.length === 0) return schedule;
+    return schedule.map((month, i) => i === schedule.length - 1 ? { ...month, cost: month.cost + topUp.cost } : month);
+};
+
+// Cheapest way to cover `unitsNeeded` of quota and `singleAccountDays` working days of generation before the deadline.
+// Quota resets every billing cycle, so a long deadline can run one account for several months instead of
+// several accounts in the same month, and the last stretch of quota can come from top-ups instead of another
+// subscription. Ties go to fewer concurrent accounts. `availableDays` counts the working days in a number of calendar days.
+export const planSubscriptions = (plan: Plan, unitsNeeded: number, singleAccountDays: number, deadline: number, minAccounts: number, availableDays = (calendarDays: number) => calendarDays) => {
+    const hasTopUps = !!plan.overageCost || (plan.creditPacks || []).length > 0;
+    const billings: { accounts: number; months: number; schedule: MonthlySpend[]; cost: number; topUp: TopUp | null }[] = [];
+    for (let months = 1; months <= getBillingMonths(deadline); months++) {
+        const minForTime = Math.max(minAccounts, Math.ceil(singleAccountDays / availableDays(months * BILLING_CYCLE_DAYS)));
+        const minForQuota = plan.quotaUnit === 'unlimited' ? 1 : Math.ceil(unitsNeeded / (plan.quota * months));
+        const maxAccounts = Math.max(minForTime, minForQuota);
+        for (let accounts = hasTopUps ? Math.max(1, minForTime) : maxAccounts; accounts <= maxAccounts; accounts++) {
+            const shortfall = plan.quotaUnit === 'unlimited' ? 0 : Math.max(0, unitsNeeded - accounts * months * plan.quota);
+            const topUp = getCheapestTopUp(plan, shortfall);
+            if (!topUp) continue;
+            const schedule = addTopUpToSchedule(getSubscriptionSchedule(plan, Array(months).fill(accounts)), topUp);
+            billings.push({ accounts, months, schedule, cost: getScheduleTotal(schedule), topUp: topUp.units > 0 ? topUp : null });
+        }
+    }
+    return billings.reduce((best, billing) => billing.cost < best.cost || (billing.cost === best.cost && billing.accounts < best.accounts) ? billing : best);
+};
+
+export const getShotListDurationMinutes = (shots: Pick<Shot, 'lengthSec' | 'count'>[]) => shots.reduce((sum, shot) => sum + shot.lengthSec * shot.count, 0) / 60;
+
+// A model-specific override wins over a platform-wide one, which wins over the global take rate.
+export const resolveTakesPerClip = (inputs: RecommendationInputs, platformName: string, modelName: string) => {
+    const platformOverrides = inputs.takeRateOverrides.filter(o => o.platformName === platformName);
+    const override = platformOverrides.find(o => o.modelName === modelName) || platformOverrides.find(o => o.modelName === null);
+    return Math.max(1, override ? override.takes : inputs.takesPerClip);
+};
+
+// Scores every platform/plan/option combination in the catalog. Feasible options come first, each group ordered by score.
+export const scorePlatforms = (inputs: RecommendationInputs, catalog: Platform[]): ScoredPlatform[] => {
+    const { calcMode, deadline, duration, budget, costQuality, speedCost, audioNeeds, expertise, scoringWeights: weights } = inputs;
+    const scoredOptions: ScoredPlatform[] = [];
+    // Deliverables take over from the shot list; each copy of a deliverable is costed like a shot
+    const deliverables = inputs.useDeliverables ? inputs.deliverables.filter(deliverable => deliverable.lengthSec > 0 && deliverable.count > 0) : null;
+    const shots = !deliverables && inputs.useShotList ? inputs.shots.filter(shot => shot.lengthSec > 0 && shot.count > 0) : null;
+    const pieces = deliverables || shots;
+    const projectDuration = pieces ? getShotListDurationMinutes(pieces) : duration;
+
+    for (const platform of catalog) {
+        for (const plan of platform.plans) {
+            for (const option of plan.options) {
+
+                const qualityBreakdown = getQualityBreakdown(option, platform, weights.quality);
+                const qualityScore = Math.min(10, qualityBreakdown.reduce((sum, attribute) => sum + attribute.points, 0));
+                const takesPerClip = resolveTakesPerClip(inputs, platform.platformName, option.modelName);
+                const costPerSecondUSD = calculateCostPerSecondUSD(option, plan, takesPerClip);
+                let generatedClips = 0;
+                let unitsPerClip = 0;
+
+                let score = 0;
+                let spendSchedule: MonthlySpend[] = [];
+                let topUp: TopUp | null = null;
+                let labor: LaborEstimate | null = null;
+                let postProcessing: PostProcessingEstimate | null = null;
+                const reasons: string[] = [...getConstraintViolations(option, platform, inputs.constraints), ...getDeliveryViolations(option, inputs.deliverySpec)];
+                // Extra parallel accounts are the one reason that still leaves an option feasible
+                let needsExtraAccounts = false;
+                let result: Partial<ScoredPlatform> & { plansAffordable?: number } = { achievableDuration: 0, totalCost: 0, rawGenerationTimeDays: 0, accountsNeeded: 1 };
+
+                if (calcMode === 'cost') {
+                    result.achievableDuration = projectDuration;
+                    const { clipsNeeded, videoSeconds } = getWorkload(projectDuration, pieces, option);
+                    // Every usable clip costs `takesPerClip` generations, including the rejected ones
+                    generatedClips = Math.ceil(clipsNeeded * takesPerClip);
+                    const generatedSeconds = videoSeconds * takesPerClip;
+                    unitsPerClip = getUnitsPerClip(option, plan, clipsNeeded > 0 ? videoSeconds / clipsNeeded : option.maxDurationSec);
+
+                    const timeReq = calculateTimeRequirement(generatedClips, plan, platform, inputs, unitsPerClip);
+                    result.rawGenerationTimeDays = timeReq.timeDays;
+                    result.accountsNeeded = timeReq.accountsNeeded;
+
+                    if (plan.quotaUnit === 'unlimited' && option.costUnit === 'per_second') { // Pay-per-use model like Veo
+                        spendSchedule = getUsageSchedule(generatedSeconds * getAverage(option.cost), timeReq.timeDays);
+                        result.totalCost = getScheduleTotal(spendSchedule);
+                    } else if (plan.quotaUnit === 'unlimited' || plan.quota > 0) { // Flat-fee unlimited like Sora, or quota-based
+                        const totalUnitsNeeded = plan.quotaUnit === 'unlimited' ? 0 : (option.costUnit === 'ratio' ? generatedSeconds : generatedClips) * getAverage(option.cost);
+                        const singleAccountDays = getSingleAccountDays(generatedClips, plan, platform, inputs, unitsPerClip);
+                        const billing = planSubscriptions(plan, totalUnitsNeeded, singleAccountDays, deadline, timeReq.accountsNeeded, days => getAvailableDays(days, plan, platform, inputs));
+                        spendSchedule = billing.schedule;
+                        topUp = billing.topUp;
+                        result.totalCost = billing.cost;
+                        result.accountsNeeded = billing.accounts;
+                        result.rawGenerationTimeDays = getCalendarDays(singleAccountDays / billing.accounts, plan, platform, inputs);
+                    } else {
+                        result.totalCost = Infinity;
+                    }
+
+                    postProcessing = estimatePostProcessing(option, inputs.deliverySpec, projectDuration, inputs.calendar.hoursPerDay);
+                    if (inputs.labor.enabled) labor = estimateLabor(inputs.labor, platform, { usableClips: clipsNeeded, generatedClips, finishedMinutes: projectDuration }, inputs.calendar.hoursPerDay);
+                    result.machineCost = result.totalCost;
+                    result.totalCost += (postProcessing ? postProcessing.cost : 0) + (labor ? labor.cost : 0);
+                    if ((labor || postProcessing) && getProjectDays(result.rawGenerationTimeDays, labor, inputs, postProcessing) > deadline) {
+                        reasons.push(labor ? 'Human work runs past the deadline' : 'Post-processing runs past the deadline');
+                    }
+
+                    if (timeReq.timeDays > deadline) {
+                        needsExtraAccounts = timeReq.accountsNeeded > 1;
+                        reasons.push(needsExtraAccounts ? `Requires ${timeReq.accountsNeeded} accounts` : 'No working days before the deadline');
+                    }
+                    if (result.totalCost > budget) reasons.push('Over budget');
+                    if (shots) {
+                        if (projectDuration === 0) reasons.push('Shot list has no footage');
+                        const shotsMissingAudio = shots.filter(shot => shot.audio && !option.audio).reduce((sum, shot) => sum + shot.count, 0);
+                        const shotsBelowResolution = shots.filter(shot => RESOLUTION_RANK[option.resolution] < RESOLUTION_RANK[shot.resolution]).reduce((sum, shot) => sum + shot.count, 0);
+                        if (shotsMissingAudio > 0) reasons.push(`No audio for ${shotsMissingAudio} shots`);
+                        if (shotsBelowResolution > 0) reasons.push(`Below required resolution for ${shotsBelowResolution} shots`);
+                    }
+                    if (deliverables) {
+                        if (projectDuration === 0) reasons.push('Deliverables have no footage');
+                        const missingAudio = deliverables.filter(deliverable => deliverable.audio && !option.audio).map(deliverable => deliverable.name);
+                        const belowFloor = deliverables.filter(deliverable => qualityScore < deliverable.minQualityScore).map(deliverable => deliverable.name);
+                        if (missingAudio.length > 0) reasons.push(`No audio for ${missingAudio.join(', ')}`);
+                        if (belowFloor.length > 0) reasons.push(`Below the quality floor for ${belowFloor.join(', ')}`);
+                    }
+
+                } else { // calcMode === 'duration'
+                    const billingMonths = getBillingMonths(deadline);
+                    // Spends `generationBudget` on generation: the seconds it buys and the window they can be generated in
+                    const buyGeneration = (generationBudget: number) => {
+                        let totalVideoSeconds = 0;
+                        let schedule: MonthlySpend[] = [];
+                        let extraQuota: TopUp | null = null;
+                        let spent = generationBudget;
+                        let plansAffordable: number | undefined;
+                        // Generation can only run while a subscription is active
+                        let generationWindowDays = deadline;
+
+                        if (plan.quotaUnit === 'unlimited' && option.costUnit === 'per_second') { // Pay-per-use
+                            if(generationBudget > 0 && getAverage(option.cost) > 0) {
+                                totalVideoSeconds = generationBudget / getAverage(option.cost);
+                            }
+                        } else if (plan.monthlyCost > 0) { // Subscriptions, flat-fee unlimited or quota-based
+                            // Monthly plans: the budget buys subscription-months, spread over the deadline's billing cycles.
+                            // Annual plans: it buys whole 12-month commitments, of which only the months before the deadline are usable.
+                            // A flat-fee unlimited plan never needs more than one subscription at a time.
+                            const isAnnual = plan.billingCycle === 'annual';
+                            const maxUseful = plan.quotaUnit === 'unlimited' ? (isAnnual ? 1 : billingMonths) : Infinity;
+                            const purchasable = Math.min(maxUseful, Math.floor(generationBudget / (plan.monthlyCost * (isAnnual ? ANNUAL_COMMITMENT_MONTHS : 1))));
+                            if (purchasable > 0) {
+                                const activeMonths = isAnnual ? Math.min(ANNUAL_COMMITMENT_MONTHS, billingMonths) : Math.min(purchasable, billingMonths);
+                                schedule = getSubscriptionSchedule(plan, isAnnual ? Array(activeMonths).fill(purchasable) : splitEvenly(purchasable, activeMonths));
+                                spent = getScheduleTotal(schedule);
+                                plansAffordable = isAnnual ? purchasable * ANNUAL_COMMITMENT_MONTHS : purchasable;
+                                generationWindowDays = Math.min(deadline, activeMonths * BILLING_CYCLE_DAYS);
+
+                                if (plan.quotaUnit === 'unlimited') {
+                                    totalVideoSeconds = Infinity; // Theoretical max, limited by time below
+                                } else {
+                                    // Whatever the subscriptions leave of the budget goes on extra quota
+                                    extraQuota = getTopUpForBudget(plan, generationBudget - spent);
+                                    schedule = addTopUpToSchedule(schedule, extraQuota);
+                                    spent = getScheduleTotal(schedule);
+                                    const totalQuota = (isAnnual ? purchasable * activeMonths : purchasable) * plan.quota + (extraQuota ? extraQuota.units : 0);
+                                    const costPerClip = getAverage(option.cost);
+                                    if(costPerClip > 0) {
+                                        if (option.costUnit === 'ratio') {
+                                            totalVideoSeconds = totalQuota / costPerClip;
+                                        } else {
+                                            totalVideoSeconds = (totalQuota / costPerClip) * option.maxDurationSec;
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                        return { totalVideoSeconds, schedule, extraQuota, spent, plansAffordable, generationWindowDays };
+                    };
+
+                    unitsPerClip = getUnitsPerClip(option, plan, option.maxDurationSec);
+                    const { clipsPerDay } = getThroughput(plan, platform, inputs, unitsPerClip);
+                    // Budget and time both buy generations; only one in `takesPerClip` ends up in the final cut
+                    const getFinishedMinutes = (purchase: ReturnType<typeof buyGeneration>) => {
+                        const maxClipsInDeadline = getAvailableDays(purchase.generationWindowDays, plan, platform, inputs) * clipsPerDay;
+                        const maxDurationFromTime = (maxClipsInDeadline * option.maxDurationSec) / 60;
+                        return Math.min(purchase.totalVideoSeconds / 60, maxDurationFromTime) / takesPerClip;
+                    };
+                    let purchase = buyGeneration(budget);
+                    result.achievableDuration = getFinishedMinutes(purchase);
+
+                    // Post-processing is paid from the same budget and runs after generation, before the deadline. Its cost
+                    // and hours grow with the finished minutes, so search for the most minutes that still leave room for it.
+                    const postProcessingPerMinute = estimatePostProcessing(option, inputs.deliverySpec, 1, inputs.calendar.hoursPerDay);
+                    if (postProcessingPerMinute && result.achievableDuration > 0) {
+                        const fits = (minutes: number) => {
+                            const generationDays = getCalendarDays(minutes * 60 * takesPerClip / option.maxDurationSec / clipsPerDay, plan, platform, inputs);
+                            return getFinishedMinutes(buyGeneration(budget - minutes * postProcessingPerMinute.cost)) >= minutes
+                                && getDaysWithWorkAfter(generationDays, minutes * postProcessingPerMinute.workingDays, inputs) <= deadline;
+                        };
+                        let [fitting, tooMany] = [0, result.achievableDuration];
+                        if (!fits(tooMany)) {
+                            for (let i = 0; i < 30; i++) {
+                                const minutes = (fitting + tooMany) / 2;
+                                if (fits(minutes)) fitting = minutes;
+                                else tooMany = minutes;
+                            }
+                            result.achievableDuration = fitting;
+                        }
+                        purchase = buyGeneration(budget - result.achievableDuration * postProcessingPerMinute.cost);
+                        postProcessing = estimatePostProcessing(option, inputs.deliverySpec, result.achievableDuration, inputs.calendar.hoursPerDay);
+                    }
+                    spendSchedule = purchase.schedule;
+                    topUp = purchase.extraQuota;
+                    result.plansAffordable = purchase.plansAffordable;
+                    result.machineCost = purchase.spent;
+                    result.totalCost = purchase.spent + (postProcessing ? postProcessing.cost : 0);
+
+                    generatedClips = Math.ceil(getWorkload(result.achievableDuration, null, option).clipsNeeded * takesPerClip);
+                    const timeReq = calculateTimeRequirement(generatedClips, plan, platform, inputs, unitsPerClip);
+                    result.rawGenerationTimeDays = timeReq.timeDays;
+                    result.accountsNeeded = timeReq.accountsNeeded;
+                    if (timeReq.timeDays > deadline && result.achievableDuration > 0) {
+                        needsExtraAccounts = true;
+                        reasons.push(`Challenging deadline: needs ${timeReq.accountsNeeded} accounts`);
+                    }
+                    if (plan.quotaUnit === 'unlimited' && option.costUnit === 'per_second') {
+                        spendSchedule = getUsageSchedule(result.machineCost, result.rawGenerationTimeDays);
+                    }
+                }
+
+                result.feasible = reasons.length === (needsExtraAccounts ? 1 : 0);
+
+                // Every component is listed, even at zero points, so two options can be compared line by line
+                const scoreBreakdown: ScoreContribution[] = [];
+
+                const feasibilityPoints = result.feasible ? weights.feasibilityBonus : 0;
+                score += feasibilityPoints;
+                scoreBreakdown.push({ id: 'feasibility', label: 'Feasibility', weight: null, points: feasibilityPoints, detail: result.feasible ? 'Fits the budget and deadline' : reasons.join(', ') });
+
+                const accountsPoints = result.accountsNeeded > 1 && result.feasible ? -result.accountsNeeded * weights.accountPenalty : 0;
+                score += accountsPoints;
+                scoreBreakdown.push({ id: 'accounts', label: 'Parallel accounts', weight: null, points: accountsPoints, detail: result.accountsNeeded > 1 ? `${result.accountsNeeded} accounts needed, -${weights.accountPenalty} each` : 'One account is enough' });
+
+                const expertisePoints = weights.expertiseMatch[expertise][platform.techLevel] || 0;
+                score += expertisePoints;
+                scoreBreakdown.push({ id: 'expertise', label: 'Expertise match', weight: null, points: expertisePoints, detail: `${platform.techLevel} platform for a ${expertise} user` });
+
+                const audioPoints = audioNeeds === 'none' ? 0 : (option.audio ? weights.audio[audioNeeds].match : weights.audio[audioNeeds].miss);
+                score += audioPoints;
+                scoreBreakdown.push({ id: 'audio', label: 'Audio', weight: null, points: audioPoints, detail: audioNeeds === 'none' ? 'No audio needed' : `${audioNeeds} audio needed, model ${option.audio ? 'generates' : 'does not generate'} audio` });
+
+                const effectiveMaxParallel = (platform.apiAvailable === 'Yes' && expertise !== 'beginner' && plan.maxParallelAPI) ? plan.maxParallelAPI : plan.maxParallel;
+                const speedWeight = speedCost / 100;
+                const parallelismPoints = (effectiveMaxParallel * 0.5) * speedWeight;
+                score += parallelismPoints;
+                scoreBreakdown.push({ id: 'parallelism', label: 'Parallel generation', weight: speedWeight, points: parallelismPoints, detail: `${effectiveMaxParallel} clips at once, 0.5 points each` });
+
+                const qualityWeight = costQuality / 100;
+                const hasCostRate = costPerSecondUSD > 0 && costPerSecondUSD !== Infinity;
+                const costScore = hasCostRate ? Math.max(0, 1 - (costPerSecondUSD / COST_EFFICIENCY_SCALE_USD)) * 15 : 15;
+                const costPoints = costScore * (1-qualityWeight);
+                const qualityPoints = (qualityScore / 10 * 15) * qualityWeight;
+                score += costPoints + qualityPoints;
+                scoreBreakdown.push({
+                    id: 'cost', label: 'Cost efficiency', weight: 1 - qualityWeight, points: costPoints,
+                    detail: hasCostRate ? 'Cost per second, scaled against the reference rate' : 'No per-second cost',
+                    ...(hasCostRate ? { costRate: { usdPerSecond: costPerSecondUSD, scaleUsdPerSecond: COST_EFFICIENCY_SCALE_USD } } : {}),
+                });
+                scoreBreakdown.push({ id: 'quality', label: 'Output quality', weight: qualityWeight, points: qualityPoints, detail: `Quality score ${qualityScore.toFixed(1)}/10` });
+
+                if(calcMode === 'duration') {
+                    const durationPoints = result.achievableDuration > 0 ? Math.min(20, result.achievableDuration / 2) : 0;
+                    score += durationPoints;
+                    scoreBreakdown.push({ id: 'duration', label: 'Achievable duration', weight: null, points: durationPoints, detail: `${Math.round(result.achievableDuration)} min, 0.5 points per minute up to 20` });
+                }
+
+                const projectDays = getProjectDays(result.rawGenerationTimeDays, labor, inputs, postProcessing);
+                scoredOptions.push({
+                    platformName: platform.platformName,
+                    planName: plan.planName,
+                    option: option,
+                    score,
+                    scoreBreakdown,
+                    totalCost: result.totalCost,
+                    machineCost: result.machineCost ?? result.totalCost,
+                    labor,
+                    postProcessing,
+                    rawGenerationTimeDays: result.rawGenerationTimeDays,
+                    projectDays,
+                    completionDate: getCompletionDate(inputs.startDate, projectDays),
+                    costPerSecondUSD,
+                    qualityScore,
+                    qualityBreakdown,
+                    feasible: result.feasible,
+                    reasons,
+                    accountsNeeded: result.accountsNeeded,
+                    apiAvailable: platform.apiAvailable,
+                    achievableDuration: result.achievableDuration,
+                    takesPerClip,
+                    generatedClips,
+                    throughputLimit: getThroughput(plan, platform, inputs, unitsPerClip).constraint,
+                    spendSchedule,
+                    topUp,
+                    plansAffordable: result.plansAffordable,
+                    monthlyCost: plan.monthlyCost,
+                    setupDays: platform.setupDays,
+                });
+            }
+        }
+    }
+
+    scoredOptions.sort((a, b) => {
+         if (a.feasible !== b.feasible) return a.feasible ? -1 : 1;
+         return b.score - a.score;
+    });
+
+    return scoredOptions;
+};
+
+export const getScoredPlatformKey = (p: ScoredPlatform) => `${p.platformName}-${p.planName}-${p.option.modelId}`;
+
+export const getPrimaryRecommendation = (scoredOptions: ScoredPlatform[]): ScoredPlatform | null => scoredOptions.find(p => p.feasible) || scoredOptions[0] || null;
+
+// Feasible options that no other feasible option beats on cost, quality and generation time at once
+export const getParetoFrontier = (scoredOptions: ScoredPlatform[], costMetric: ParetoCostMetric): ScoredPlatform[] => {
+    const candidates = scoredOptions.filter(p => p.feasible && Number.isFinite(p[costMetric]));
+    return candidates.filter(p => !candidates.some(q => q !== p
+        && q[costMetric] <= p[costMetric] && q.qualityScore >= p.qualityScore && q.rawGenerationTimeDays <= p.rawGenerationTimeDays
+        && (q[costMetric] < p[costMetric] || q.qualityScore > p.qualityScore || q.rawGenerationTimeDays < p.rawGenerationTimeDays)));
+};
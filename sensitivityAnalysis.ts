@@ -0,0 +1,122 @@
+import type { Option, Platform, RecommendationInputs, ScoredPlatform, SensitivityParameterId, SensitivityPoint, SensitivityReport, SensitivitySweep } from './types';
+import { INPUT_LIMITS } from './constants';
+import { scorePlatforms, getPrimaryRecommendation, getScoredPlatformKey } from './scoringEngine';
+
+
+// --- SENSITIVITY ANALYSIS ---
+// Re-runs the scoring loop while moving one value at a time, to show how fragile the recommendation is:
+// where another option takes over, and how far the recommended option's cost and time move.
+
+const STEPS_PER_SIDE = 8;
+const INPUT_SPREAD = 0.5; // Inputs are swept from half to one and a half times their current value
+const PRIORITY_SPREAD = 30; // Priority sliders are swept this many points either way
+const CATALOG_MULTIPLIERS = { min: 0.5, max: 1.5 };
+
+interface SweepDefinition {
+    id: SensitivityParameterId;
+    label: string;
+    baseValue: number;
+    range: { min: number; max: number };
+    integer: boolean;
+    // Inputs and catalog to score for one value of the parameter
+    apply: (value: number) => { inputs: RecommendationInputs; catalog: Platform[] };
+}
+
+const getLabel = (p: ScoredPlatform) => `${p.platformName} - ${p.planName} - ${p.option.modelName}`;
+
+const scaleCost = (cost: Option['cost'], multiplier: number): Option['cost'] =>
+    Array.isArray(cost) ? [cost[0] * multiplier, cost[1] * multiplier] : cost * multiplier;
+
+// Changes only the recommended plan or option, so the sweep shows how far its own price or speed can move
+const updateRecommendedPlan = (catalog: Platform[], base: ScoredPlatform, update: (plan: Platform['plans'][number]) => Platform['plans'][number]) =>
+    catalog.map(platform => platform.platformName !== base.platformName ? platform : {
+        ...platform,
+        plans: platform.plans.map(plan => plan.planName === base.planName ? update(plan) : plan),
+    });
+
+const getSweepValues = ({ baseValue, range, integer }: SweepDefinition) => {
+    const below = Array.from({ length: STEPS_PER_SIDE }, (_, i) => range.min + (baseValue - range.min) * i / STEPS_PER_SIDE);
+    const above = Array.from({ length: STEPS_PER_SIDE }, (_, i) => baseValue + (range.max - baseValue) * (i + 1) / STEPS_PER_SIDE);
+    const values = [...below, baseValue, ...above].map(value => integer ? Math.round(value) : Math.round(value * 100) / 100);
+    return [...new Set(values)].sort((a, b) => a - b);
+};
+
+const getSweepDefinitions = (inputs: RecommendationInputs, catalog: Platform[], base: ScoredPlatform): SweepDefinition[] => {
+    const withInput = (key: 'budget' | 'deadline' | 'duration' | 'costQuality' | 'speedCost') => (value: number) => ({ inputs: { ...inputs, [key]: value }, catalog });
+    const inputRange = (key: 'budget' | 'deadline' | 'duration') => ({
+        min: Math.max(INPUT_LIMITS[key].min, inputs[key] * (1 - INPUT_SPREAD)),
+        max: Math.min(INPUT_LIMITS[key].max, inputs[key] * (1 + INPUT_SPREAD)),
+    });
+    const priorityRange = (key: 'costQuality' | 'speedCost') => ({
+        min: Math.max(INPUT_LIMITS[key].min, inputs[key] - PRIORITY_SPREAD),
+        max: Math.min(INPUT_LIMITS[key].max, inputs[key] + PRIORITY_SPREAD),
+    });
+
+    return [
+        { id: 'budget', label: 'Budget', baseValue: inputs.budget, range: inputRange('budget'), integer: true, apply: withInput('budget') },
+        { id: 'deadline', label: 'Deadline', baseValue: inputs.deadline, range: inputRange('deadline'), integer: true, apply: withInput('deadline') },
+        // The runtime input is ignored when planning by budget, from a shot list or from deliverables
+        ...(inputs.calcMode === 'cost' && !inputs.useShotList && !inputs.useDeliverables
+            ? [{ id: 'duration' as const, label: 'Content duration', baseValue: inputs.duration, range: inputRange('duration'), integer: true, apply: withInput('duration') }]
+            : []),
+        { id: 'costQuality', label: 'Cost vs quality priority', baseValue: inputs.costQuality, range: priorityRange('costQuality'), integer: true, apply: withInput('costQuality') },
+        { id: 'speedCost', label: 'Speed vs cost priority', baseValue: inputs.speedCost, range: priorityRange('speedCost'), integer: true, apply: withInput('speedCost') },
+        {
+            id: 'avgTimePerClipMin', label: 'Time per clip (plan)', baseValue: 1, range: CATALOG_MULTIPLIERS, integer: false,
+            apply: multiplier => ({ inputs, catalog: updateRecommendedPlan(catalog, base, plan => ({ ...plan, avgTimePerClipMin: plan.avgTimePerClipMin * multiplier })) }),
+        },
+        {
+            id: 'optionCost', label: 'Model cost', baseValue: 1, range: CATALOG_MULTIPLIERS, integer: false,
+            apply: multiplier => ({
+                inputs,
+                catalog: updateRecommendedPlan(catalog, base, plan => ({ ...plan, options: plan.options.map(option => option.modelId === base.option.modelId ? { ...option, cost: scaleCost(option.cost, multiplier) } : option) })),
+            }),
+        },
+    ];
+};
+
+const runSweep = (definition: SweepDefinition, baseKey: string): SensitivitySweep => {
+    const points: SensitivityPoint[] = [];
+    for (const value of getSweepValues(definition)) {
+        const { inputs, catalog } = definition.apply(value);
+        const scored = scorePlatforms(inputs, catalog);
+        const winner = getPrimaryRecommendation(scored);
+        const tracked = scored.find(p => getScoredPlatformKey(p) === baseKey);
+        if (!winner || !tracked) continue;
+        points.push({
+            value,
+            winnerKey: getScoredPlatformKey(winner),
+            winnerLabel: getLabel(winner),
+            totalCost: tracked.totalCost,
+            rawGenerationTimeDays: tracked.rawGenerationTimeDays,
+            feasible: tracked.feasible,
+        });
+    }
+
+    // Walk outwards from the base value so the reported flip is the nearest one
+    const below = points.filter(point => point.value < definition.baseValue).reverse();
+    const above = points.filter(point => point.value > definition.baseValue);
+    return {
+        id: definition.id,
+        label: definition.label,
+        baseValue: definition.baseValue,
+        points,
+        flipBelow: below.find(point => point.winnerKey !== baseKey) || null,
+        flipAbove: above.find(point => point.winnerKey !== baseKey) || null,
+    };
+};
+
+// Returns null when there is no feasible recommendation to test
+export const analyzeSensitivity = (inputs: RecommendationInputs, catalog: Platform[]): SensitivityReport | null => {
+    const base = getPrimaryRecommendation(scorePlatforms(inputs, catalog));
+    if (!base || !base.feasible) return null;
+    const baseKey = getScoredPlatformKey(base);
+
+    return {
+        baseKey,
+        baseLabel: getLabel(base),
+        baseTotalCost: base.totalCost,
+        baseRawGenerationTimeDays: base.rawGenerationTimeDays,
+        sweeps: getSweepDefinitions(inputs, catalog, base).map(definition => runSweep(definition, baseKey)),
+    };
+};
@@ -0,0 +1,446 @@
+export type CalculationMode = 'cost' | 'duration';
+export type HighlightId = string | null;
+
+export interface Option {
+  modelId: string; // Official ID if available
+  modelName: string;
+  maxDurationSec: number;
+  resolution: '720p' | '1080p' | '1080p+' | '4K';
+  audio: boolean;
+  costUnit: 'credits' | 'tokens' | 'compute_seconds' | 'clips' | 'per_second' | 'ratio';
+  cost: number | [number, number];
+  features?: ('Motion Brush' | 'Keyframe Editor' | 'Storyboard Export' | 'Audio-Video Sync')[];
+  quality?: OptionQuality; // Options without it are scored on resolution, audio, features and reputation only
+}
+
+export interface OptionQuality {
+  frameRate: number; // Frames per second of the output
+  motionCoherence: number; // 1-5 rating: how well motion, faces and objects hold together across a clip
+  promptAdherence: number; // 1-5 rating: how closely clips follow the prompt
+  aspectRatios: string[]; // Supported output aspect ratios, e.g. "16:9"
+  watermark: boolean; // Output carries a visible watermark
+  commercialUse: boolean; // The licence allows commercial use of the output
+}
+
+export interface CreditPack {
+  units: number; // In the plan's quotaUnit
+  price: number; // in USD
+}
+
+export interface RateLimits {
+  requestsPerMinute?: number; // Generation requests accepted per minute, per account
+  concurrentJobs?: number; // Jobs an account may run at once; caps maxParallel / maxParallelAPI
+  dailyUnitCap?: number; // Quota units an account may spend per day, e.g. Leonardo's daily token limit
+  queueWaitMin?: number; // Average wait before a job starts, holding a job slot
+}
+
+export type ThroughputConstraint = 'parallel' | 'concurrency' | 'requestsPerMinute' | 'dailyUnitCap';
+
+export interface Plan {
+  planName: string; // Official plan name e.g., "Pro", "API Basic"
+  monthlyCost: number; // in USD
+  quota: number; // Number of units (credits, tokens, etc.) included
+  quotaUnit: 'credits' | 'tokens' | 'compute_seconds' | 'clips' | 'unlimited';
+  maxParallel: number; // GUI-based parallel jobs
+  maxParallelAPI?: number; // API-based parallel jobs
+  avgTimePerClipMin: number;
+  overageCost?: { perUnit: number; unit: string; }; // Pay-as-you-go USD per quota unit beyond the included quota
+  creditPacks?: CreditPack[]; // One-off top-ups, only available on top of an active subscription
+  billingCycle?: 'monthly' | 'annual'; // Annual plans commit to 12 months, billed up front; monthlyCost is the monthly equivalent
+  sourceNote?: string; // Where the price came from, e.g. pricing page or invoice
+  rateLimits?: RateLimits; // Structured limits the throughput model enforces
+  options: Option[];
+}
+
+export interface Platform {
+  platformName: string;
+  apiAvailable: 'Yes' | 'No' | 'Limited' | 'Enterprise';
+  rateLimit?: string; // Free-text summary, e.g. "5 req/min"; the engine uses Plan.rateLimits
+  setupDays: number;
+  techLevel: 'beginner' | 'intermediate' | 'expert';
+  plans: Plan[];
+}
+
+export interface CatalogSnapshot {
+  id: string;
+  name: string;
+  effectiveDate: string; // YYYY-MM-DD the prices were valid from
+  platforms: Platform[];
+}
+
+export interface CatalogChange {
+  platformName: string;
+  planName: string;
+  modelId?: string; // Set for model-level changes
+  kind: 'added' | 'removed' | 'changed';
+  field?: 'monthlyCost' | 'quota' | 'overageCost' | 'creditPacks' | 'billingCycle' | 'cost' | 'maxDurationSec';
+  before?: number | [number, number] | Plan['overageCost'] | CreditPack[] | Plan['billingCycle']; // Undefined overage means none
+  after?: number | [number, number] | Plan['overageCost'] | CreditPack[] | Plan['billingCycle'];
+}
+
+export interface CatalogValidationError {
+  path: string; // e.g. "[0].plans[1].options[0].cost"
+  message: string;
+}
+
+// Where a catalog update comes from. `load` resolves to the raw feed, a platform array or a snapshot object,
+// and rejects with a readable message when the feed cannot be read.
+export interface PriceSource {
+  kind: 'bundled' | 'file' | 'http';
+  label: string; // File name or URL, shown in the reconciliation view
+  load: () => Promise<unknown>;
+}
+
+export interface Shot {
+  id: string;
+  lengthSec: number; // Length of the finished shot
+  count: number; // How many shots of this kind are needed
+  audio: boolean;
+  resolution: Option['resolution']; // Minimum resolution the shot must be delivered in
+}
+
+// One piece of a campaign, e.g. six 15s cutdowns. Deliverables share the budget, deadline and subscriptions.
+export interface Deliverable {
+  id: string;
+  name: string;
+  lengthSec: number; // Runtime of one copy
+  count: number;
+  audio: boolean; // Must be generated with audio
+  minQualityScore: number; // Quality floor (0-10) for the models it may be made with
+}
+
+export interface TakeRateOverride {
+  id: string;
+  platformName: string;
+  modelName: string | null; // null applies the override to every model on the platform
+  takes: number;
+}
+
+export interface RecommendationInputs {
+  calcMode: CalculationMode;
+  deadline: number;
+  duration: number;
+  useShotList: boolean;
+  shots: Shot[];
+  useDeliverables: boolean; // Plan a campaign of deliverables instead of the duration or shot list
+  deliverables: Deliverable[];
+  takesPerClip: number; // Generations burned for every clip that makes the final cut
+  takeRateOverrides: TakeRateOverride[];
+  budget: number;
+  costQuality: number;
+  speedCost: number;
+  audioNeeds: 'none' | 'basic' | 'advanced';
+  expertise: 'beginner' | 'intermediate' | 'expert';
+  enableComparison: boolean;
+  traditionalCost: number; // Per project
+  traditionalTime: number; // Days per project
+  traditionalDuration: number; // Finished minutes the traditional cost and time buy; cost mode uses the project's own runtime
+  projectsPerMonth: number;
+  roiHorizonMonths: number;
+  toolingCost: number; // One-off, USD
+  trainingCost: number; // One-off, USD
+  discountRatePercent: number; // Yearly, for the net present value
+  minQualityScore: number; // Portfolio optimizer only uses options scoring at least this (0-10)
+  simulateUncertainty: boolean; // Monte Carlo ranges over cost ranges, time per clip and take rate
+  startDate: string; // ISO date (YYYY-MM-DD) generation starts on; the deadline counts calendar days from here
+  calendar: WorkingCalendar;
+  labor: LaborInputs;
+  constraints: ConstraintFilters;
+  deliverySpec: DeliverySpec;
+  scoringWeights: ScoringWeights;
+}
+
+export interface QualityWeights {
+  resolution: Record<Option['resolution'], number>;
+  frameRate: number; // Points at 60 fps, pro rata below
+  motionCoherence: number; // Points per rating step
+  promptAdherence: number; // Points per rating step
+  aspectRatio: number; // Points per supported aspect ratio beyond the first
+  watermark: number; // Added for watermarked output, usually negative
+  commercialUse: number; // Added when the licence allows commercial use
+  audio: number;
+  features: Record<NonNullable<Option['features']>[number], number>;
+  platformReputation: Record<string, number>; // By platform name; platforms not listed add nothing
+}
+
+export interface ScoringWeights {
+  quality: QualityWeights;
+  feasibilityBonus: number;
+  accountPenalty: number; // Per account when several are needed
+  expertiseMatch: Record<RecommendationInputs['expertise'], Record<Platform['techLevel'], number>>; // User expertise, then platform tech level
+  audio: Record<'basic' | 'advanced', { match: number; miss: number }>; // Points when the model does or does not generate audio
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  weights: ScoringWeights;
+}
+
+// Hard rules: options breaking any of them are infeasible, with the rule listed in `reasons`
+export interface ConstraintFilters {
+  minResolution: Option['resolution'] | null;
+  requiredFeatures: NonNullable<Option['features']>; // The option must offer every one
+  requireApi: boolean;
+  maxTechLevel: Platform['techLevel'] | null;
+  platformMode: 'exclude' | 'include'; // Whether `platforms` are left out or are the only ones allowed
+  platforms: string[]; // An empty list allows every platform in either mode
+}
+
+// The format the project is delivered in. Aspect ratios must be native to the model; a lower resolution or
+// another frame rate is fixed in post-processing after generation.
+export interface DeliverySpec {
+  aspectRatios: string[]; // Every ratio delivered; empty for no requirement
+  frameRate: number | null; // Delivery fps; null when the model's own frame rate will do
+  resolution: Option['resolution'] | null; // Delivery resolution; null for no requirement
+  allowUpscaling: boolean; // Otherwise models below the delivery resolution are infeasible
+  upscaleCostPerMinute: number; // USD per finished minute
+  upscaleHoursPerMinute: number; // Processing hours per finished minute
+  conformCostPerMinute: number; // Frame-rate conversion, USD per finished minute
+  conformHoursPerMinute: number;
+}
+
+export interface PostProcessingStep {
+  id: 'upscale' | 'conform';
+  label: string; // e.g. "Upscale 720p to 4K"
+  cost: number;
+  hours: number;
+}
+
+export interface PostProcessingEstimate {
+  steps: PostProcessingStep[];
+  cost: number;
+  hours: number;
+  workingDays: number; // Steps run one after the other on the working calendar
+}
+
+export type LaborTaskId = 'prompting' | 'review' | 'editing';
+
+export interface LaborRole {
+  role: string; // Tasks given to the same role are done one after the other by the same person
+  hourlyRate: number; // USD
+}
+
+export interface LaborInputs {
+  enabled: boolean; // Cost mode only
+  roles: Record<LaborTaskId, LaborRole>;
+  promptMinutesPerClip: number; // Per usable clip on a beginner-level platform, scaled up for more technical ones
+  reviewMinutesPerClip: number; // Per generated clip, rejected takes included
+  editingHoursPerMinute: number; // Editing and assembly per finished minute
+}
+
+export interface LaborTask {
+  id: LaborTaskId;
+  role: string;
+  hours: number;
+  cost: number;
+}
+
+export interface LaborEstimate {
+  tasks: LaborTask[];
+  hours: number;
+  cost: number;
+  workingDays: number; // Roles work in parallel, so this is the busiest role
+}
+
+export interface WorkingCalendar {
+  hoursPerDay: number; // Attended generation hours on a working day
+  workdays: number[]; // Days of the week with attended work, 0 = Sunday as in Date.getDay()
+  holidays: string[]; // ISO dates (YYYY-MM-DD) without attended work
+  unattendedApi: boolean; // API batch jobs run 24 hours a day, weekends and holidays included
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  inputs: RecommendationInputs;
+  catalogSnapshotId: string; // Price snapshot the scenario was calculated against
+  createdAt: string; // ISO timestamp
+}
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP';
+
+export interface MoneySettings {
+  currency: CurrencyCode; // Display currency; the catalog and engine stay in USD
+  rates: Record<CurrencyCode, number>; // Units of each currency per 1 USD
+  vatPercent: number; // Added on top of every displayed amount, 0 to show net prices
+}
+
+export type ScoreComponentId = 'feasibility' | 'accounts' | 'expertise' | 'audio' | 'parallelism' | 'cost' | 'quality' | 'duration';
+
+export type QualityAttributeId = 'resolution' | 'frameRate' | 'motionCoherence' | 'promptAdherence' | 'aspectRatios' | 'watermark' | 'commercialUse' | 'audio' | 'features' | 'reputation';
+
+export interface QualityContribution {
+  id: QualityAttributeId;
+  label: string;
+  points: number;
+  maxPoints: number; // The most the attribute can add with the current weights
+  detail: string;
+}
+
+export interface ScoreContribution {
+  id: ScoreComponentId;
+  label: string;
+  weight: number | null; // Multiplier taken from a priority slider; null for fixed components
+  points: number; // What the component added to (or took from) the score
+  detail: string;
+  costRate?: { usdPerSecond: number; scaleUsdPerSecond: number }; // Cost efficiency only; shown in the display currency
+}
+
+// Extra quota bought instead of another subscription
+export interface TopUp {
+  units: number; // Units actually needed; packs may cover more
+  unit: Plan['quotaUnit'];
+  cost: number;
+  packs: (CreditPack & { count: number })[];
+  overageUnits: number;
+}
+
+export interface MonthlySpend {
+  month: number; // 1-based billing cycle from the project start
+  subscriptions: number; // Subscriptions active that month (0 for pay-per-use)
+  cost: number;
+}
+
+export interface ScoredPlatform {
+  platformName: string;
+  planName: string;
+  option: Option;
+  score: number;
+  scoreBreakdown: ScoreContribution[]; // Sums to `score`, listed in the order they are applied
+  totalCost: number; // Machine cost plus post-processing, and human labor when it is costed
+  machineCost: number; // Subscriptions, top-ups and pay-per-use generation
+  labor: LaborEstimate | null;
+  postProcessing: PostProcessingEstimate | null; // Upscaling or frame-rate conversion to meet the delivery spec
+  rawGenerationTimeDays: number; // Calendar days from the start date, skipping days off
+  projectDays: number; // Calendar days until the project is done, human work after generation included
+  completionDate: string; // ISO date the project finishes on
+  costPerSecondUSD: number;
+  qualityScore: number;
+  qualityBreakdown: QualityContribution[]; // Sums to `qualityScore` before the cap at 10
+  feasible: boolean;
+  reasons: string[];
+  accountsNeeded: number;
+  apiAvailable: Platform['apiAvailable'];
+  achievableDuration: number;
+  takesPerClip: number;
+  generatedClips: number;
+  throughputLimit: ThroughputConstraint; // What sets the generation pace of each account
+  spendSchedule: MonthlySpend[]; // Sums to machineCost
+  topUp: TopUp | null; // Credit packs or overage bought on top of the subscriptions
+  // Fields for detailed breakdown card
+  plansAffordable?: number;
+  monthlyCost?: number;
+  setupDays?: number;
+}
+
+export interface RoiMonth {
+  month: number; // 0 holds the one-off setup costs
+  savings: number; // Traditional minus AI spend in this month
+  cumulativeSavings: number;
+}
+
+export interface RoiReport {
+  finishedMinutes: number; // Per project
+  aiCostPerMinute: number;
+  traditionalCostPerMinute: number;
+  aiProjectCost: number;
+  traditionalProjectCost: number; // Traditional cost for the same runtime as the AI project
+  aiProjectDays: number;
+  traditionalProjectDays: number;
+  setupCost: number; // Tooling, training and the platform's setup days
+  months: RoiMonth[];
+  breakEvenMonth: number | null; // Fractional month the cumulative savings turn positive, null if not within the horizon
+  totalSavings: number; // Undiscounted, over the whole horizon
+  netPresentValue: number;
+}
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface UncertaintyEstimate {
+  totalCost: Percentiles;
+  generationDays: Percentiles; // With the accounts each trial's purchase plan bought
+  projectDays: Percentiles; // Generation, then post-processing and human work
+  probabilityWithinBudget: number; // 0-1
+  probabilityMeetsDeadline: number; // 0-1
+}
+
+export interface UncertaintyReport {
+  trials: number;
+  estimates: Record<string, UncertaintyEstimate>; // Keyed like getScoredPlatformKey
+}
+
+export type ParetoCostMetric = 'totalCost' | 'costPerSecondUSD';
+
+export interface PortfolioAllocation {
+  shotLabel: string; // "Shot 2", the deliverable's name, or "Footage" when planning by total duration
+  modelName: string;
+  count: number; // Finished shots allocated to this model
+  seconds: number; // Finished seconds allocated to this model
+  generatedClips: number; // Generations including retakes
+  cost: number; // Share of the purchase: own usage and post-processing, plus the subscriptions pro rata to quota used
+}
+
+export interface DeliverableCost {
+  name: string;
+  seconds: number; // Finished seconds
+  cost: number;
+  platforms: string[]; // "Platform - Plan" of every purchase it draws from
+}
+
+export interface PortfolioPurchase {
+  platformName: string;
+  planName: string;
+  subscriptions: number; // Concurrent subscriptions, 0 for pay-per-use plans
+  accountsNeeded: number;
+  cost: number; // Spend schedule plus post-processing
+  postProcessingCost: number; // Bringing this plan's footage up to the delivery spec
+  spendSchedule: MonthlySpend[];
+  topUp: TopUp | null;
+  generationDays: number;
+  allocations: PortfolioAllocation[];
+}
+
+export interface PortfolioPlan {
+  purchases: PortfolioPurchase[];
+  totalCost: number;
+  generationDays: number; // Purchases run in parallel, so this is the slowest one
+  projectDays: number; // Generation, then post-processing and human work
+  meetsDeadline: boolean; // False when no mix of plans finishes within the deadline
+  completionDate: string; // ISO date the project finishes on
+  singlePlanCost: number | null; // Cheapest way to do everything on one plan and model within the deadline, if any can
+  unallocatedShots: string[]; // Shots no option can deliver with the required audio, resolution and quality
+  deliverableCosts: DeliverableCost[]; // Per shot or deliverable; sums to `totalCost` when everything is allocated
+}
+
+export type SensitivityParameterId = 'budget' | 'deadline' | 'duration' | 'costQuality' | 'speedCost' | 'avgTimePerClipMin' | 'optionCost';
+
+export interface SensitivityPoint {
+  value: number; // Input value, or a multiplier on the recommended plan/option for catalog values
+  winnerKey: string;
+  winnerLabel: string; // "Platform - Plan - Model" of the recommendation at this value
+  totalCost: number; // Of the base recommendation at this value, not of whichever option wins
+  rawGenerationTimeDays: number;
+  feasible: boolean;
+}
+
+export interface SensitivitySweep {
+  id: SensitivityParameterId;
+  label: string;
+  baseValue: number;
+  points: SensitivityPoint[]; // Ascending by value, including the base value
+  flipBelow: SensitivityPoint | null; // Nearest value under the base where another option wins
+  flipAbove: SensitivityPoint | null;
+}
+
+export interface SensitivityReport {
+  baseKey: string;
+  baseLabel: string;
+  baseTotalCost: number;
+  baseRawGenerationTimeDays: number;
+  sweeps: SensitivitySweep[];
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { Platform, RecommendationInputs } from './types';
+import { DEFAULT_INPUTS } from './constants';
+import { getScoredPlatformKey, scorePlatforms } from './scoringEngine';
+import { simulateUncertainty } from './uncertaintySimulation';
+
+
+const CATALOG: Platform[] = [{
+    platformName: 'Fixture', apiAvailable: 'No', setupDays: 0, techLevel: 'beginner',
+    plans: [{
+        planName: 'Credits', monthlyCost: 100, quota: 10000, quotaUnit: 'credits', maxParallel: 2, avgTimePerClipMin: 2,
+        options: [{ modelId: 'model', modelName: 'model', maxDurationSec: 5, resolution: '1080p', audio: false, costUnit: 'credits', cost: [8, 12] }],
+    }],
+}];
+
+const simulate = (overrides: Partial<RecommendationInputs>) => {
+    const inputs: RecommendationInputs = { ...DEFAULT_INPUTS, calcMode: 'cost', duration: 2, deadline: 2, startDate: '2025-07-07', calendar: { ...DEFAULT_INPUTS.calendar, workdays: [0, 1, 2, 3, 4, 5, 6] }, ...overrides };
+    const [expected] = scorePlatforms(inputs, CATALOG);
+    return { expected, estimate: simulateUncertainty(inputs, CATALOG, 50).estimates[getScoredPlatformKey(expected)] };
+};
+
+describe('simulateUncertainty', () => {
+    it('ranges generation days when nothing follows generation', () => {
+        const { estimate } = simulate({});
+        expect(estimate.projectDays).toEqual(estimate.generationDays);
+        expect(estimate.probabilityMeetsDeadline).toBe(1);
+    });
+
+    it('measures the deadline against project days, human work included', () => {
+        // Twelve editing hours per finished minute keep the editor busy for three days after generation
+        const { expected, estimate } = simulate({ labor: { ...DEFAULT_INPUTS.labor, enabled: true, editingHoursPerMinute: 12 } });
+        expect(estimate.generationDays.p90).toBeLessThan(2);
+        expect(estimate.projectDays.p10).toBeGreaterThan(2);
+        expect(estimate.projectDays.p50).toBeCloseTo(expected.projectDays, 1);
+        expect(estimate.probabilityMeetsDeadline).toBe(0);
+    });
+});
@@ -0,0 +1,86 @@
+import type { Percentiles, Platform, RecommendationInputs, UncertaintyEstimate, UncertaintyReport } from './types';
+import { MONTE_CARLO_TRIALS, TIME_PER_CLIP_SPREAD, TAKE_RATE_SPREAD } from './constants';
+import { scorePlatforms, getScoredPlatformKey } from './scoringEngine';
+
+
+// --- UNCERTAINTY SIMULATION ---
+// Monte Carlo over the values the engine otherwise treats as exact: `[min, max]` option costs are sampled
+// uniformly, and time per clip and take rate are scaled by triangular multipliers. Each trial re-runs the
+// scoring loop, so purchases are re-planned for the sampled values just like in the expected case.
+
+const SEED = 20250701;
+
+// Small seeded generator so the ranges do not jitter between renders
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Triangular distribution between min and max, peaking at 1
+const sampleMultiplier = (random: () => number, { min, max }: { min: number; max: number }) => {
+    const u = random();
+    const split = (1 - min) / (max - min);
+    return u < split ? min + Math.sqrt(u * (max - min) * (1 - min)) : max - Math.sqrt((1 - u) * (max - min) * (max - 1));
+};
+
+const sampleCatalog = (catalog: Platform[], random: () => number): Platform[] => catalog.map(platform => ({
+    ...platform,
+    plans: platform.plans.map(plan => ({
+        ...plan,
+        avgTimePerClipMin: plan.avgTimePerClipMin * sampleMultiplier(random, TIME_PER_CLIP_SPREAD),
+        options: plan.options.map(option => Array.isArray(option.cost)
+            ? { ...option, cost: option.cost[0] + (option.cost[1] - option.cost[0]) * random() }
+            : option),
+    })),
+}));
+
+// One take-rate multiplier per trial: a rough hit rate tends to be rough across every model
+const sampleInputs = (inputs: RecommendationInputs, random: () => number): RecommendationInputs => {
+    const multiplier = sampleMultiplier(random, TAKE_RATE_SPREAD);
+    return {
+        ...inputs,
+        takesPerClip: Math.max(1, inputs.takesPerClip * multiplier),
+        takeRateOverrides: inputs.takeRateOverrides.map(override => ({ ...override, takes: Math.max(1, override.takes * multiplier) })),
+    };
+};
+
+const getPercentiles = (values: number[]): Percentiles => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+    return { p10: at(0.1), p50: at(0.5), p90: at(0.9) };
+};
+
+export const simulateUncertainty = (inputs: RecommendationInputs, catalog: Platform[], trials = MONTE_CARLO_TRIALS): UncertaintyReport => {
+    const random = createRandom(SEED);
+    // Cost and days of a trial both come from its own purchase plan, so slower generation can show up as
+    // extra accounts as well as a later finish
+    const samples = new Map<string, { costs: number[]; generationDays: number[]; projectDays: number[] }>();
+
+    for (let trial = 0; trial < trials; trial++) {
+        const trialCatalog = sampleCatalog(catalog, random);
+        const trialInputs = sampleInputs(inputs, random);
+        for (const p of scorePlatforms(trialInputs, trialCatalog)) {
+            const key = getScoredPlatformKey(p);
+            const entry = samples.get(key) || { costs: [], generationDays: [], projectDays: [] };
+            entry.costs.push(p.totalCost);
+            entry.generationDays.push(p.rawGenerationTimeDays);
+            entry.projectDays.push(p.projectDays);
+            samples.set(key, entry);
+        }
+    }
+
+    const estimates: Record<string, UncertaintyEstimate> = {};
+    samples.forEach(({ costs, generationDays, projectDays }, key) => {
+        estimates[key] = {
+            totalCost: getPercentiles(costs),
+            generationDays: getPercentiles(generationDays),
+            projectDays: getPercentiles(projectDays),
+            probabilityWithinBudget: costs.filter(cost => cost <= inputs.budget).length / costs.length,
+            // The deadline covers post-processing and human work too, as it does for feasibility
+            probabilityMeetsDeadline: projectDays.filter(days => days <= inputs.deadline).length / projectDays.length,
+        };
+    });
+    return { trials, estimates };
+};
@@ -0,0 +1,64 @@
+import type { WorkingCalendar } from './types';
+
+
+// --- WORKING CALENDAR ---
+// Generation time is worked out in working days and shown in calendar days from the project start date.
+// Attended work only happens on the calendar's weekdays outside holidays; unattended API runs use every day.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MAX_CALENDAR_DAYS = 3650; // A calendar without any working day never finishes
+
+// Dates are handled as UTC midnights so daylight saving changes never shift a day
+const parseDate = (isoDate: string) => Date.parse(`${isoDate}T00:00:00Z`);
+
+export const addDays = (isoDate: string, days: number) => new Date(parseDate(isoDate) + days * MS_PER_DAY).toISOString().slice(0, 10);
+
+export const isIsoDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && Number.isFinite(parseDate(value));
+
+// Scoring asks the same calendar about hundreds of options, so the day lookup is kept for the last calendar seen
+let cachedDays: { calendar: WorkingCalendar; startDate: string; startWeekday: number; holidays: Set<number> } | null = null;
+
+const getDayLookup = (calendar: WorkingCalendar, startDate: string) => {
+    if (!cachedDays || cachedDays.calendar !== calendar || cachedDays.startDate !== startDate) {
+        const start = parseDate(startDate);
+        cachedDays = {
+            calendar,
+            startDate,
+            startWeekday: new Date(start).getUTCDay(),
+            holidays: new Set(calendar.holidays.map(holiday => Math.round((parseDate(holiday) - start) / MS_PER_DAY))),
+        };
+    }
+    return cachedDays;
+};
+
+// Whether attended work happens `day` days after the start date
+const isWorkingDay = (calendar: WorkingCalendar, startDate: string, day: number) => {
+    const { startWeekday, holidays } = getDayLookup(calendar, startDate);
+    return calendar.workdays.includes((startWeekday + day) % 7) && !holidays.has(day);
+};
+
+// Working days in the first `calendarDays` days of the project, counting a partial last day pro rata
+export const countWorkingDays = (calendarDays: number, calendar: WorkingCalendar, startDate: string, unattended = false) => {
+    if (unattended) return calendarDays;
+    let workingDays = 0;
+    for (let day = 0; day < Math.min(calendarDays, MAX_CALENDAR_DAYS); day++) {
+        if (isWorkingDay(calendar, startDate, day)) workingDays += Math.min(1, calendarDays - day);
+    }
+    return workingDays;
+};
+
+// Calendar days from the start date until `workingDays` days of work are done; the inverse of countWorkingDays
+export const getElapsedDays = (workingDays: number, calendar: WorkingCalendar, startDate: string, unattended = false) => {
+    if (unattended || workingDays <= 0) return Math.max(0, workingDays);
+    let remaining = workingDays;
+    for (let day = 0; day < MAX_CALENDAR_DAYS; day++) {
+        if (!isWorkingDay(calendar, startDate, day)) continue;
+        if (remaining <= 1) return day + remaining;
+        remaining -= 1;
+    }
+    return Infinity;
+};
+
+// Date of the day the work finishes on; work finishing exactly at the end of a day finishes on that day
+export const getCompletionDate = (startDate: string, elapsedDays: number) =>
+    Number.isFinite(elapsedDays) ? addDays(startDate, Math.max(0, Math.ceil(elapsedDays) - 1)) : '';